@@ -1,11 +1,14 @@
 /**
  * Chat client using the Vercel AI SDK (https://ai-sdk.dev).
- * Config drives which provider we use; tools are built-in (search_potions, get_potion_spec, get_harold_project_info, fetch_doc_page, write_project_file).
+ * Config drives which provider we use; tools are built-in (search_potions, get_potion_spec, get_harold_project_info, fetch_doc_page, write_project_file, edit_project_file, delete_project_file, move_project_file, run_site_build, lint_project, update_project_memory).
  */
-import { generateText, stepCountIs } from "ai";
-import type { LlmConfig } from "../config/index.js";
+import { streamText, stepCountIs } from "ai";
+import type { LlmConfig, Provider } from "../config/index.js";
+import { formatModelLabel, getModelChain, isFallbackError } from "./fallback.js";
 import { createModel } from "./model.js";
-import { createPotionKitTools } from "./tools.js";
+import { formatRetryWait, getRetryPolicy, withRetry } from "./retry.js";
+import { createPotionKitTools, type PotionKitToolsOptions } from "./tools.js";
+import { sumUsage, toTokenUsage, type TokenUsage } from "./usage.js";
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
@@ -21,12 +24,30 @@ export interface CreateChatOptions {
   onError?: (message: string) => void;
   /** Optional: structured trace of tools used in the current turn. */
   onTurnTrace?: (trace: ChatTurnTrace) => void;
+  /** Optional: hooks passed to the project tools (e.g. checkpoint files before writes). */
+  toolOptions?: PotionKitToolsOptions;
+  /** Optional: called with each piece of reply text as the model streams it. */
+  onTextDelta?: (delta: string) => void;
+  /** Optional: called when a streamed text block ends (e.g. before the model calls a tool). */
+  onTextEnd?: () => void;
+}
+
+export interface SendOptions {
+  /** Abort the turn (e.g. Ctrl+C). The partial trace is still reported with finishReason "aborted". */
+  abortSignal?: AbortSignal;
+  /**
+   * The caller prints onTextDelta text as it arrives, so notes added to the reply afterwards
+   * are sent through onTextDelta too. The reply itself is the same either way.
+   */
+  streamed?: boolean;
 }
 
 export interface ChatToolEvent {
   toolName: string;
   ok: boolean;
   path?: string;
+  /** Source path of a move_project_file call (`path` is the destination). */
+  fromPath?: string;
   error?: string;
 }
 
@@ -34,38 +55,65 @@ export interface ChatTurnTrace {
   toolEvents: ChatToolEvent[];
   stepsUsed: number;
   finishReason: string;
+  /** Token usage of the whole turn (sum of stepUsage). */
+  usage?: TokenUsage;
+  /** Token usage per finished model step, in order. */
+  stepUsage?: TokenUsage[];
+  /** Model that produced the turn; differs from the configured model after a fallback. */
+  model?: string;
+  provider?: Provider;
 }
 
 const REQUEST_TIMEOUT_MS = 900_000; // 15 minutes (multi-step tool use and reasoning models can be slow)
 const DEFAULT_MAX_STEPS = 16; // tool rounds per turn; higher limit for longer multi-tool flows
-const DEFAULT_MAX_OUTPUT_TOKENS = 16_384; // per-turn output limit
-const RATE_LIMIT_RETRY_DELAY_MS = 60_000; // wait 1 min before single retry on 429 (limit is per minute)
-
-function isRateLimitError(err: unknown): boolean {
-  const msg = err instanceof Error ? err.message : String(err);
-  return /rate limit|30,000 input tokens per minute|429/i.test(msg);
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+export const DEFAULT_MAX_OUTPUT_TOKENS = 16_384; // per-turn output limit
+const LENGTH_CUT_OFF_NOTE =
+  "[Reply was cut off by length limit; files may still have been created.]";
 
 /**
  * Create a chat that uses the AI SDK with the configured provider.
  * send(messages) uses the first message as system if role is 'system', rest as messages.
- * Tools (search_potions, get_potion_spec, get_harold_project_info, read_project_file, fetch_doc_page, write_project_file) are always available; multi-step so the model can call tools then reply.
+ * Replies are streamed: text deltas go to onTextDelta as they arrive, and send() still resolves to the full reply.
+ * If options.abortSignal fires, send() reports the tools that ran so far via onTurnTrace and rethrows the abort.
+ * Tools (search_potions, get_potion_spec, get_harold_project_info, read_project_file, list_project_files, search_project_files, fetch_doc_page, write_project_file, edit_project_file, delete_project_file, move_project_file, run_site_build, lint_project, update_project_memory) are always available; multi-step so the model can call tools then reply.
+ * Rate limits, 5xx and network errors before any output are retried per the retry policy
+ * (config.maxRetries, config.maxRetryWaitMs), with the countdown reported through onProgress.
+ * If the model still fails, the turn moves on to the next model in config.fallbacks; the trace
+ * records the model that answered.
  */
 export function createChat(config: LlmConfig, options: CreateChatOptions = {}) {
-  const { onProgress, progressMessageBuilder, onError, onTurnTrace } = options;
-  const model = createModel(config);
+  const {
+    onProgress,
+    progressMessageBuilder,
+    onError,
+    onTurnTrace,
+    toolOptions,
+    onTextDelta,
+    onTextEnd,
+  } = options;
+  const chain = getModelChain(config).map((candidate) => ({
+    config: candidate,
+    model: createModel(candidate),
+  }));
   const maxToolSteps = config.maxToolSteps ?? DEFAULT_MAX_STEPS;
-  const maxOutputTokens = config.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+  const retryPolicy = getRetryPolicy(config);
 
-  const tools = createPotionKitTools();
+  // Models without tool calling get no tools; the CLI warns that files can't be read or written.
+  const tools = chain.some((candidate) => candidate.config.supportsTools !== false)
+    ? createPotionKitTools(toolOptions)
+    : undefined;
 
   return {
-    async send(messages: ChatMessage[]): Promise<string> {
+    async send(messages: ChatMessage[], sendOptions: SendOptions = {}): Promise<string> {
+      const { abortSignal, streamed = false } = sendOptions;
       const toolEvents: ChatToolEvent[] = [];
+      // Tool results seen in the stream; used for the partial trace when a step never finishes.
+      const streamedToolEvents = new Map<string, ChatToolEvent>();
+      const finishedToolCallIds = new Set<string>();
+      const stepUsage: TokenUsage[] = [];
+      let current = chain[0];
+      // Set once the attempt streamed text or ran a tool; retrying then would repeat its output.
+      let attemptProgressed = false;
       const system = messages.find((m) => m.role === "system")?.content;
       const conversation = messages.filter((m) => m.role !== "system") as Array<{
         role: "user" | "assistant";
@@ -74,21 +122,32 @@ export function createChat(config: LlmConfig, options: CreateChatOptions = {}) {
 
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      const forwardAbort = () => controller.abort(abortSignal?.reason);
+      if (abortSignal?.aborted) forwardAbort();
+      else abortSignal?.addEventListener("abort", forwardAbort, { once: true });
 
       if (onProgress) onProgress("Sending to model…");
 
-      const doRequest = async () =>
-        generateText({
-          model,
+      type ChatResult = { steps: Array<{ text?: string }>; finishReason: string };
+
+      const doRequest = async (): Promise<ChatResult> => {
+        attemptProgressed = false;
+        const stream = streamText({
+          model: current.model,
           system: system ?? undefined,
           messages: conversation,
-          tools,
+          tools: current.config.supportsTools === false ? undefined : tools,
           stopWhen: stepCountIs(maxToolSteps),
-          maxOutputTokens, // per-turn output limit; "length" finish = hit this before replying
-          maxRetries: 0, // we handle 429 ourselves with one delayed retry
+          // Per-turn output limit; "length" finish = hit this before replying.
+          maxOutputTokens: current.config.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+          maxRetries: 0, // retries go through withRetry below, then the fallback chain
           abortSignal: controller.signal,
+          onError: () => {}, // errors are rethrown from the stream below instead of logged
           onStepFinish: (stepResult) => {
+            attemptProgressed = true;
+            stepUsage.push(toTokenUsage(stepResult.usage));
             toolEvents.push(...extractToolEvents(stepResult));
+            for (const call of stepResult.toolCalls ?? []) finishedToolCallIds.add(call.toolCallId);
             if (onProgress) {
               const rawNames =
                 (stepResult.toolCalls as Array<{ toolName: string }> | undefined)?.map(
@@ -104,35 +163,77 @@ export function createChat(config: LlmConfig, options: CreateChatOptions = {}) {
             }
           },
         });
+        for await (const part of stream.fullStream) {
+          if (part.type === "text-delta") {
+            attemptProgressed = true;
+            onTextDelta?.(part.text);
+          } else if (part.type === "text-end") onTextEnd?.();
+          else if (part.type === "tool-result") {
+            attemptProgressed = true;
+            streamedToolEvents.set(part.toolCallId, parseToolEvent(part.toolName, part));
+          } else if (part.type === "tool-error") {
+            attemptProgressed = true;
+            streamedToolEvents.set(
+              part.toolCallId,
+              parseToolEvent(part.toolName, { isError: true, error: part.error })
+            );
+          } else if (part.type === "error") throw part.error;
+          else if (part.type === "abort") throw controller.signal.reason;
+        }
+        return {
+          steps: await stream.steps,
+          finishReason: await stream.finishReason,
+        };
+      };
 
-      type ChatResult = { text?: string; steps: Array<{ text?: string }>; finishReason: string };
-      let result: ChatResult;
-      try {
-        result = (await doRequest()) as ChatResult;
-      } catch (firstErr) {
-        if (!isRateLimitError(firstErr)) throw firstErr;
-        await sleep(RATE_LIMIT_RETRY_DELAY_MS);
-        result = (await doRequest()) as ChatResult;
-      }
+      const doRequestWithRetry = (): Promise<ChatResult> =>
+        withRetry(doRequest, {
+          policy: retryPolicy,
+          abortSignal: controller.signal,
+          canRetry: () => !attemptProgressed,
+          onWait: (wait) => onProgress?.(formatRetryWait(wait, formatModelLabel(current.config))),
+        });
 
       try {
+        let result: ChatResult | undefined;
+        for (let i = 0; !result; i++) {
+          current = chain[i];
+          try {
+            result = await doRequestWithRetry();
+          } catch (err) {
+            const next = chain[i + 1];
+            if (!next || abortSignal?.aborted || attemptProgressed || !isFallbackError(err)) {
+              throw err;
+            }
+            const reason = err instanceof Error ? err.message : String(err);
+            onProgress?.(
+              `${formatModelLabel(current.config)} failed (${reason}). Trying ${formatModelLabel(next.config)}…`
+            );
+          }
+        }
+
         onTurnTrace?.({
           toolEvents,
           stepsUsed: result.steps.length,
           finishReason: result.finishReason,
+          usage: sumUsage(stepUsage),
+          stepUsage,
+          model: current.config.model,
+          provider: current.config.provider,
         });
-        const text = result.text?.trim() ?? "";
-        if (text) return text;
+        // The reply is the text of every step, as streamed turns print it, so history and the
+        // reply guard see the same string whether or not the turn was streamed.
         const fromSteps = result.steps
           .map((s) => (s as { text?: string }).text?.trim())
           .filter(Boolean) as string[];
         if (fromSteps.length) {
           const combined = fromSteps.join("\n\n");
           if (result.finishReason === "length") {
-            return (
-              combined +
-              "\n\n[Reply was cut off by length limit; files may still have been created.]"
-            );
+            if (streamed) {
+              onTextDelta?.(LENGTH_CUT_OFF_NOTE);
+              onTextEnd?.();
+            }
+            return combined + "\n\n" + LENGTH_CUT_OFF_NOTE;
           }
           return combined;
         }
@@ -160,6 +261,20 @@ export function createChat(config: LlmConfig, options: CreateChatOptions = {}) {
         }
         return "";
       } catch (err) {
+        // Failed turns still report the tools that ran and the tokens of finished steps.
+        const unfinished = [...streamedToolEvents]
+          .filter(([id]) => !finishedToolCallIds.has(id))
+          .map(([, event]) => event);
+        onTurnTrace?.({
+          toolEvents: [...toolEvents, ...unfinished],
+          stepsUsed: stepUsage.length,
+          finishReason: abortSignal?.aborted ? "aborted" : "error",
+          usage: sumUsage(stepUsage),
+          stepUsage,
+          model: current.config.model,
+          provider: current.config.provider,
+        });
+        if (abortSignal?.aborted) throw err;
         if (err instanceof Error && err.name === "AbortError") {
           throw new Error(
             `Request timed out after ${REQUEST_TIMEOUT_MS / 60_000} minutes. Try again or use a shorter message.`
@@ -168,12 +283,17 @@ export function createChat(config: LlmConfig, options: CreateChatOptions = {}) {
         throw err;
       } finally {
         clearTimeout(timeoutId);
+        abortSignal?.removeEventListener("abort", forwardAbort);
       }
     },
   };
 }
 
-function extractToolEvents(stepResult: unknown): ChatToolEvent[] {
+/**
+ * One event per tool call of a finished step, with the path from the tool's result and the
+ * error from a `{ ok: false, error }` result or a thrown tool error.
+ */
+export function extractToolEvents(stepResult: unknown): ChatToolEvent[] {
   const step = stepResult as {
     toolCalls?: Array<{ toolName?: unknown; toolCallId?: unknown }>;
     toolResults?: Array<{
@@ -185,9 +305,14 @@ function extractToolEvents(stepResult: unknown): ChatToolEvent[] {
       result?: unknown;
       isError?: unknown;
     }>;
+    /** AI SDK v6: thrown tool errors are "tool-error" parts here, not tool results. */
+    content?: Array<{ type?: unknown; toolCallId?: unknown; error?: unknown }>;
   };
   const calls = Array.isArray(step.toolCalls) ? step.toolCalls : [];
   const results = Array.isArray(step.toolResults) ? step.toolResults : [];
+  const toolErrors = Array.isArray(step.content)
+    ? step.content.filter((part) => part?.type === "tool-error")
+    : [];
 
   // No calls recorded — read events directly from results (some SDK versions omit toolCalls).
   if (calls.length === 0) {
@@ -198,35 +323,51 @@ function extractToolEvents(stepResult: unknown): ChatToolEvent[] {
 
   return calls.map((call) => {
     const toolName = typeof call.toolName === "string" ? call.toolName : "unknown_tool";
-    const matched = results.find(
-      (r) =>
-        call.toolCallId != null &&
-        r.toolCallId != null &&
-        String(call.toolCallId) === String(r.toolCallId)
-    );
-    return parseToolEvent(toolName, matched);
+    const sameCall = (part: { toolCallId?: unknown }) =>
+      call.toolCallId != null &&
+      part.toolCallId != null &&
+      String(call.toolCallId) === String(part.toolCallId);
+    const matched = results.find(sameCall);
+    const failed = matched ? undefined : toolErrors.find(sameCall);
+    return parseToolEvent(toolName, matched ?? (failed && { isError: true, error: failed.error }));
   });
 }
 
 function parseToolEvent(
   toolName: string,
-  result: { output?: unknown; result?: unknown; isError?: unknown } | undefined
+  result: { output?: unknown; result?: unknown; isError?: unknown; error?: unknown } | undefined
 ): ChatToolEvent {
   if (!result) return { toolName, ok: false };
 
   // AI SDK sets isError on tool result entries (e.g. stream path).
-  if (typeof result.isError === "boolean") return { toolName, ok: !result.isError };
+  if (typeof result.isError === "boolean") {
+    const error = result.isError ? toolErrorMessage(result.error) : undefined;
+    return error ? { toolName, ok: false, error } : { toolName, ok: !result.isError };
+  }
 
   // AI SDK v6 uses .output for the tool return value; fallback to .result for other shapes.
   const raw = result.output !== undefined ? result.output : result.result;
   const payload = raw && typeof raw === "object" ? raw : null;
   if (payload) {
-    const p = payload as { ok?: unknown; path?: unknown };
+    const p = payload as { ok?: unknown; path?: unknown; from?: unknown; error?: unknown };
     // Tools like write_project_file/read_project_file return { ok: true|false }; others return e.g. { spec }, { potions }.
     const ok = typeof p.ok === "boolean" ? p.ok : true;
     const path = typeof p.path === "string" ? p.path : undefined;
-    return { toolName, ok, path };
+    const error = !ok ? toolErrorMessage(p.error) : undefined;
+    return {
+      toolName,
+      ok,
+      path,
+      ...(typeof p.from === "string" ? { fromPath: p.from } : {}),
+      ...(error ? { error } : {}),
+    };
   }
 
   return { toolName, ok: raw !== undefined };
 }
+
+function toolErrorMessage(error: unknown): string | undefined {
+  if (typeof error === "string") return error || undefined;
+  if (error instanceof Error) return error.message || undefined;
+  return undefined;
+}
@@ -0,0 +1,37 @@
+/**
+ * Provider fallback chain: when the primary model still fails with an error another provider
+ * could avoid (server error, overload, rate limit) after its retries, createChat retries the
+ * turn with the next model from the "fallbacks" list in config.json.
+ */
+import type { LlmConfig } from "../config/index.js";
+import { isRetryableError } from "./retry.js";
+
+/**
+ * Primary config first, then one config per fallback: turn settings (step, history and retry
+ * limits) are shared; provider, key, base URL, tool support and output limit are the fallback's.
+ */
+export function getModelChain(config: LlmConfig): LlmConfig[] {
+  const fallbacks = (config.fallbacks ?? []).map((fallback) => ({
+    ...config,
+    provider: fallback.provider,
+    model: fallback.model,
+    apiKey: fallback.apiKey,
+    baseUrl: fallback.baseUrl,
+    supportsTools: fallback.supportsTools,
+    maxOutputTokens: fallback.maxOutputTokens,
+  }));
+  return [config, ...fallbacks];
+}
+
+/** e.g. "anthropic/claude-sonnet-4-5" */
+export function formatModelLabel(config: Pick<LlmConfig, "provider" | "model">): string {
+  return `${config.provider}/${config.model}`;
+}
+
+/**
+ * Errors worth retrying on another provider: the ones the retry policy retries (5xx, overload,
+ * rate limits, network failures), once retries on the current model are used up.
+ */
+export function isFallbackError(err: unknown): boolean {
+  return isRetryableError(err);
+}
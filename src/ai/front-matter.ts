@@ -0,0 +1,70 @@
+/**
+ * Front matter of HaroldJS Markdown posts: the block between the opening and closing "---"
+ * lines. Only top-level `key: value` lines are read (enough for the required fields); the
+ * write tools use this to reject posts the build would render without a layout, title or date.
+ */
+
+export type FrontMatterResult =
+  { ok: true; fields: Record<string, string> } | { ok: false; error: string };
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Convert CRLF (and lone CR) line endings to LF, which Harold requires for Markdown. */
+export function normalizeLineEndings(content: string): string {
+  return content.replace(/\r\n?/g, "\n");
+}
+
+/** Top-level fields of the front matter, with surrounding quotes removed. Expects LF endings. */
+export function parseFrontMatter(content: string): FrontMatterResult {
+  const lines = content.replace(/^\uFEFF/, "").split("\n");
+  if (lines[0]?.trim() !== "---") {
+    return { ok: false, error: 'The file must start with front matter: a "---" line first.' };
+  }
+  const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+  if (end === -1) {
+    return { ok: false, error: 'Front matter is not closed with a "---" line.' };
+  }
+  const fields: Record<string, string> = {};
+  for (const line of lines.slice(1, end)) {
+    const match = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!match) continue;
+    fields[match[1]] = match[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return { ok: true, fields };
+}
+
+/**
+ * Problems with a post's front matter: layout (one of `blogLayouts`), title and
+ * publicationDate (a real YYYY-MM-DD date) are required. Empty when the post is valid.
+ */
+export function validatePostFrontMatter(content: string, blogLayouts: string[]): string[] {
+  const parsed = parseFrontMatter(content);
+  if (!parsed.ok) return [parsed.error];
+  const { layout, title, publicationDate } = parsed.fields;
+  const problems: string[] = [];
+
+  if (!layout) {
+    problems.push("layout is missing.");
+  } else if (!blogLayouts.includes(layout)) {
+    problems.push(
+      blogLayouts.length > 0
+        ? `layout "${layout}" is not in the blog layouts (${blogLayouts.join(", ")}).`
+        : `layout "${layout}" does not exist; there are no blog layouts yet.`
+    );
+  }
+  if (!title) problems.push("title is missing.");
+  if (!publicationDate) {
+    problems.push("publicationDate is missing.");
+  } else if (!isValidDate(publicationDate)) {
+    problems.push(`publicationDate "${publicationDate}" must be a real date in YYYY-MM-DD form.`);
+  }
+  return problems;
+}
+
+function isValidDate(value: string): boolean {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
@@ -1,6 +1,7 @@
 /**
  * Detect a HaroldJS static site project in the given directory and return
  * config + existing partials, pages, styles, and layouts so the AI can match patterns.
+ * An optional overlay of pending files (dry run) is merged over what is on disk.
  */
 import { existsSync, readdirSync, readFileSync } from "node:fs";
 import { join } from "node:path";
@@ -16,36 +17,67 @@ export interface HaroldProjectInfo {
   postsDir?: string;
 }
 
-const DEFAULT_CONFIG = {
+/** Harold's defaults, used when neither .haroldrc.json nor package.json "harold" is set. */
+export const DEFAULT_HAROLD_CONFIG = {
   mdFilesDirName: "posts",
   mdFilesLayoutsDirName: "blog-layouts",
   outputDirName: "build",
 };
 
-function readJsonSafe<T>(path: string): T | null {
-  if (!existsSync(path)) return null;
+/** Pending file contents by project-relative path (forward slashes); null marks a deleted file. */
+type OverlayFiles = ReadonlyMap<string, string | null>;
+
+function readJsonSafe<T>(path: string, pending?: string | null): T | null {
+  if (pending === null || (pending === undefined && !existsSync(path))) return null;
   try {
-    const raw = readFileSync(path, "utf-8");
+    const raw = pending ?? readFileSync(path, "utf-8");
     return JSON.parse(raw) as T;
   } catch {
     return null;
   }
 }
 
-function listNames(dir: string, ext: string): string[] {
-  if (!existsSync(dir)) return [];
-  try {
-    return readdirSync(dir)
-      .filter((f) => f.endsWith(ext))
-      .map((f) => f.slice(0, -ext.length));
-  } catch {
-    return [];
+/** File names directly inside `dir` (and the matching overlay dir), deduplicated. */
+function listFiles(dir: string, overlayDir: string, overlay: OverlayFiles | undefined): string[] {
+  let names: string[] = [];
+  if (existsSync(dir)) {
+    try {
+      names = readdirSync(dir);
+    } catch {
+      names = [];
+    }
   }
+  const prefix = overlayDir + "/";
+  for (const [path, content] of overlay ?? []) {
+    if (!path.startsWith(prefix)) continue;
+    const name = path.slice(prefix.length);
+    if (name.includes("/")) continue;
+    if (content === null) names = names.filter((existing) => existing !== name);
+    else if (!names.includes(name)) names.push(name);
+  }
+  return names;
 }
 
-export function getHaroldProjectInfo(cwd: string): HaroldProjectInfo {
+/** Paths the overlay has written (not deleted). */
+function pendingPaths(overlay: OverlayFiles | undefined): string[] {
+  return [...(overlay ?? [])].filter(([, content]) => content !== null).map(([path]) => path);
+}
+
+function listNames(
+  dir: string,
+  overlayDir: string,
+  ext: string,
+  overlay: OverlayFiles | undefined
+): string[] {
+  return listFiles(dir, overlayDir, overlay)
+    .filter((f) => f.endsWith(ext))
+    .map((f) => f.slice(0, -ext.length));
+}
+
+export function getHaroldProjectInfo(cwd: string, overlay?: OverlayFiles): HaroldProjectInfo {
   const srcDir = join(cwd, "src");
-  if (!existsSync(srcDir)) {
+  const overlayHasSrc = pendingPaths(overlay).some((path) => path.startsWith("src/"));
+  if (!existsSync(srcDir) && !overlayHasSrc) {
     return {
       found: false,
       message:
@@ -53,9 +85,15 @@ export function getHaroldProjectInfo(cwd: string): HaroldProjectInfo {
     };
   }
 
-  const haroldrc = readJsonSafe<Record<string, unknown>>(join(cwd, ".haroldrc.json"));
-  const pkg = readJsonSafe<{ harold?: Record<string, unknown> }>(join(cwd, "package.json"));
-  const config = (haroldrc ?? pkg?.harold ?? DEFAULT_CONFIG) as Record<string, unknown>;
+  const haroldrc = readJsonSafe<Record<string, unknown>>(
+    join(cwd, ".haroldrc.json"),
+    overlay?.get(".haroldrc.json")
+  );
+  const pkg = readJsonSafe<{ harold?: Record<string, unknown> }>(
+    join(cwd, "package.json"),
+    overlay?.get("package.json")
+  );
+  const config = (haroldrc ?? pkg?.harold ?? DEFAULT_HAROLD_CONFIG) as Record<string, unknown>;
 
   const mdDirName = (config.mdFilesDirName as string) ?? "posts";
   const layoutsDirName = (config.mdFilesLayoutsDirName as string) ?? "blog-layouts";
@@ -66,18 +104,16 @@ export function getHaroldProjectInfo(cwd: string): HaroldProjectInfo {
   const blogLayoutsDir = join(srcDir, layoutsDirName);
   const postsDir = join(srcDir, mdDirName);
 
-  const partials = listNames(partialsDir, ".hbs");
-  const pages = listNames(pagesDir, ".hbs");
-  const blogLayouts = listNames(blogLayoutsDir, ".hbs");
+  const partials = listNames(partialsDir, "src/partials", ".hbs", overlay);
+  const pages = listNames(pagesDir, "src/pages", ".hbs", overlay);
+  const blogLayouts = listNames(blogLayoutsDir, `src/${layoutsDirName}`, ".hbs", overlay);
 
-  let styles: string[] = [];
-  if (existsSync(stylesDir)) {
-    try {
-      styles = readdirSync(stylesDir).filter((f) => f.endsWith(".scss") || f.endsWith(".css"));
-    } catch {
-      // ignore
-    }
-  }
+  const styles = listFiles(stylesDir, "src/styles", overlay).filter(
+    (f) => f.endsWith(".scss") || f.endsWith(".css")
+  );
+  const hasPostsDir =
+    existsSync(postsDir) ||
+    pendingPaths(overlay).some((path) => path.startsWith(`src/${mdDirName}/`));
 
   return {
     found: true,
@@ -91,6 +127,6 @@ export function getHaroldProjectInfo(cwd: string): HaroldProjectInfo {
     pages: pages.length ? pages : undefined,
     styles: styles.length ? styles : undefined,
     blogLayouts: blogLayouts.length ? blogLayouts : undefined,
-    postsDir: existsSync(postsDir) ? mdDirName : undefined,
+    postsDir: hasPostsDir ? mdDirName : undefined,
   };
 }
@@ -2,8 +2,11 @@
  * Shared model creation for chat and summarization.
  */
 import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createMoonshotAI } from "@ai-sdk/moonshotai";
 import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
 import { Agent, fetch as undiciFetch } from "undici";
 import type { LlmConfig } from "../config/index.js";
 
@@ -26,6 +29,18 @@ const providerCreators = {
   openai: createOpenAI,
   moonshot: createMoonshotAI,
   anthropic: createAnthropic,
+  google: createGoogleGenerativeAI,
+  // "strict" sends OpenRouter's own request fields (usage accounting, stream options).
+  openrouter: (settings: Parameters<typeof createOpenRouter>[0]) =>
+    createOpenRouter({ ...settings, compatibility: "strict" }),
+  // Plain chat completions; the key is optional and usage is requested in streamed responses.
+  "openai-compatible": (settings: { apiKey?: string; baseURL?: string; fetch?: typeof fetch }) =>
+    createOpenAICompatible({
+      ...settings,
+      name: "openai-compatible",
+      baseURL: settings.baseURL ?? "",
+      includeUsage: true,
+    }),
 } as const;
 
 export function createModel(config: LlmConfig) {
@@ -0,0 +1,231 @@
+/**
+ * Walk and search project files for list_project_files and search_project_files. The walk
+ * stays inside the project: symlinks are not followed, build/, node_modules/, .git/ and
+ * .potion-kit/ are skipped, and paths matched by the root .gitignore are left out. Dry-run
+ * overlay files are merged over what is on disk.
+ */
+import { lstat, readdir, readFile } from "node:fs/promises";
+import { join, posix } from "node:path";
+
+export interface ProjectFileEntry {
+  /** Path relative to the project root, with forward slashes. */
+  path: string;
+  size: number;
+  /** ISO time of the last change on disk; missing for files only written in the dry-run overlay. */
+  modified?: string;
+  /** True when the content comes from the dry-run overlay. */
+  pending?: boolean;
+}
+
+export interface ProjectFileMatch {
+  path: string;
+  /** 1-based line number. */
+  line: number;
+  text: string;
+}
+
+/** Pending file contents by project-relative path (forward slashes); null marks a deleted file. */
+type OverlayFiles = ReadonlyMap<string, string | null>;
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  /** Pattern contains a slash: matched against the whole path, else against the name. */
+  anchored: boolean;
+}
+
+export const SKIPPED_DIRS: ReadonlySet<string> = new Set([
+  "node_modules",
+  "build",
+  ".git",
+  ".potion-kit",
+]);
+/** Upper bound on entries visited, so a huge tree cannot stall a turn. */
+const MAX_WALK_ENTRIES = 5_000;
+export const MAX_LISTED_FILES = 500;
+/** Cap on the files search_project_files reads; applied after filtering to searchable files. */
+export const MAX_SEARCHED_FILES = 2_000;
+export const MAX_SEARCH_MATCHES = 100;
+const MAX_SEARCH_FILE_BYTES = 1_000_000;
+const MAX_MATCH_TEXT_CHARS = 200;
+
+/**
+ * Glob to RegExp: `*` and `?` stay within one path segment, `**` spans segments and
+ * `{a,b}` matches either literal alternative.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      i++;
+      if (glob[i + 1] === "/") {
+        i++;
+        re += "(?:.*/)?";
+      } else {
+        re += ".*";
+      }
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{" && glob.indexOf("}", i) > i) {
+      const end = glob.indexOf("}", i);
+      re +=
+        "(?:" +
+        glob
+          .slice(i + 1, end)
+          .split(",")
+          .map(escapeRegExp)
+          .join("|") +
+        ")";
+      i = end;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Glob filter for listed paths: a pattern without "/" matches the file name in any directory. */
+export function createGlobFilter(glob: string): (path: string) => boolean {
+  const pattern = glob.trim().replace(/^\.\//, "");
+  if (!pattern) return () => true;
+  const regex = globToRegExp(pattern);
+  return pattern.includes("/")
+    ? (path) => regex.test(path)
+    : (path) => regex.test(posix.basename(path));
+}
+
+/** The common subset of .gitignore: globs, "!" negation, trailing "/" for dirs, leading "/" anchors. */
+export function parseGitignore(content: string): (path: string, isDir: boolean) => boolean {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    if (!line) continue;
+    rules.push({ regex: globToRegExp(line), negate, dirOnly, anchored });
+  }
+  return (path, isDir) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.regex.test(rule.anchored ? path : posix.basename(path))) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+}
+
+/**
+ * Files under `dir` (project-relative, "" for the root), sorted by path. Secrets (.env*) are
+ * never listed, nor paths rejected by `include`, which is applied during the walk so that
+ * `limit` (default MAX_LISTED_FILES) counts only included files. `truncated` is set when the
+ * walk or the listing hit its limit.
+ */
+export async function listProjectFiles(
+  projectRoot: string,
+  options: {
+    dir?: string;
+    glob?: string;
+    overlay?: OverlayFiles;
+    include?: (path: string) => boolean | Promise<boolean>;
+    limit?: number;
+  } = {}
+): Promise<{ files: ProjectFileEntry[]; truncated: boolean }> {
+  const dir = (options.dir ?? "").replace(/\\/g, "/").replace(/^\.?\/+|\/+$/g, "");
+  const matchesGlob = createGlobFilter(options.glob ?? "");
+  const isIgnored = parseGitignore(
+    await readFile(join(projectRoot, ".gitignore"), "utf8").catch(() => "")
+  );
+  const inDir = (path: string) => !dir || path === dir || path.startsWith(dir + "/");
+  const { include = () => true, limit = MAX_LISTED_FILES } = options;
+  const isListed = async (path: string) =>
+    inDir(path) &&
+    matchesGlob(path) &&
+    !posix.basename(path).startsWith(".env") &&
+    (await include(path));
+
+  const files = new Map<string, ProjectFileEntry>();
+  let truncated = false;
+  let visited = 0;
+  const pendingDirs = [dir];
+  while (pendingDirs.length > 0) {
+    const current = pendingDirs.shift()!;
+    const entries = await readdir(join(projectRoot, current), { withFileTypes: true }).catch(
+      () => []
+    );
+    for (const entry of entries) {
+      if (++visited > MAX_WALK_ENTRIES) {
+        truncated = true;
+        break;
+      }
+      const path = current ? `${current}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name) && !isIgnored(path, true)) pendingDirs.push(path);
+      } else if (entry.isFile() && !isIgnored(path, false) && (await isListed(path))) {
+        const stats = await lstat(join(projectRoot, path));
+        files.set(path, { path, size: stats.size, modified: stats.mtime.toISOString() });
+      }
+    }
+    if (truncated) break;
+  }
+  for (const [path, content] of options.overlay ?? []) {
+    if (content === null) files.delete(path);
+    else if (await isListed(path)) {
+      files.set(path, { path, size: Buffer.byteLength(content, "utf8"), pending: true });
+    }
+  }
+
+  const sorted = [...files.values()].sort((a, b) => a.path.localeCompare(b.path));
+  if (sorted.length > limit) truncated = true;
+  return { files: sorted.slice(0, limit), truncated };
+}
+
+/**
+ * Lines matching `pattern` in the given files (overlay content first, then disk), in path
+ * order. Files larger than 1 MB are skipped.
+ */
+export async function searchProjectFiles(
+  projectRoot: string,
+  paths: string[],
+  pattern: RegExp,
+  overlay?: OverlayFiles
+): Promise<{ matches: ProjectFileMatch[]; truncated: boolean }> {
+  const matches: ProjectFileMatch[] = [];
+  for (const path of paths) {
+    const content = overlay?.has(path)
+      ? overlay.get(path)!
+      : await readSearchableFile(join(projectRoot, path)).catch(() => null);
+    if (content === null) continue;
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      pattern.lastIndex = 0;
+      if (!pattern.test(lines[i])) continue;
+      if (matches.length >= MAX_SEARCH_MATCHES) return { matches, truncated: true };
+      const text = lines[i].trim();
+      matches.push({
+        path,
+        line: i + 1,
+        text: text.length > MAX_MATCH_TEXT_CHARS ? text.slice(0, MAX_MATCH_TEXT_CHARS) + "…" : text,
+      });
+    }
+  }
+  return { matches, truncated: false };
+}
+
+async function readSearchableFile(absolutePath: string): Promise<string | null> {
+  const stats = await lstat(absolutePath);
+  if (!stats.isFile() || stats.size > MAX_SEARCH_FILE_BYTES) return null;
+  return readFile(absolutePath, "utf8");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
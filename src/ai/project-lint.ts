@@ -0,0 +1,254 @@
+/**
+ * Lint the Harold rules from the system prompt over src/: no <style>, inline style="…" or
+ * inline <script> in .hbs, no absolute href/src without {{relativePath}}, no
+ * {{formatDate date='now'}}, no @import in Sass, no {{> partial}} that does not exist and no
+ * unbalanced {{#block}} / {{/block}}. Used by `potion-kit lint` and the lint_project tool;
+ * dry-run overlay files are checked instead of what is on disk.
+ */
+import { lstat, readFile } from "node:fs/promises";
+import { join, posix } from "node:path";
+import { listProjectFiles } from "./project-files.js";
+
+export type LintRule =
+  | "style-tag"
+  | "inline-style"
+  | "inline-script"
+  | "absolute-url"
+  | "format-date-now"
+  | "scss-import"
+  | "missing-partial"
+  | "unbalanced-block";
+
+export interface LintFinding {
+  /** Path relative to the project root, with forward slashes. */
+  file: string;
+  /** 1-based line number. */
+  line: number;
+  rule: LintRule;
+  message: string;
+}
+
+export interface LintReport {
+  findings: LintFinding[];
+  filesChecked: number;
+  /** Set when the file listing or the findings hit their limit. */
+  truncated: boolean;
+}
+
+/** Pending file contents by project-relative path (forward slashes); null marks a deleted file. */
+type OverlayFiles = ReadonlyMap<string, string | null>;
+
+export const MAX_LINT_FINDINGS = 200;
+/** Cap on the files checked; counts only templates, posts and styles. */
+export const MAX_LINTED_FILES = 2_000;
+const MAX_LINT_FILE_BYTES = 1_000_000;
+const TEMPLATE_EXTENSIONS = new Set([".hbs"]);
+const STYLE_EXTENSIONS = new Set([".scss", ".sass", ".css"]);
+/** @import is valid in plain CSS; only Sass files get the rule. */
+const SASS_EXTENSIONS = new Set([".scss", ".sass"]);
+const PARTIALS_DIR = "src/partials";
+
+/** Regex rules checked line by line in .hbs files. */
+const TEMPLATE_LINE_RULES: Array<{ rule: LintRule; pattern: RegExp; message: string }> = [
+  {
+    rule: "style-tag",
+    pattern: /<style[\s>]/i,
+    message: "<style> in a template; move the CSS to src/styles/*.scss and use class names.",
+  },
+  {
+    rule: "inline-style",
+    pattern: /<[a-z][^>]*\sstyle\s*=\s*["']/i,
+    message: 'Inline style="…"; move the CSS to src/styles/*.scss and use a class name.',
+  },
+  {
+    rule: "inline-script",
+    pattern: /<script(?![^>]*\ssrc\s*=)[^>]*>/i,
+    message:
+      "Inline <script>; move the code to src/assets/js/*.js and link it with {{relativePath 'assets/js/…'}}.",
+  },
+  {
+    rule: "absolute-url",
+    pattern: /\s(?:href|src)\s*=\s*["']\/(?!\/)/i,
+    message:
+      "Absolute path in href/src breaks on subpaths; use {{relativePath 'page.html'}} instead.",
+  },
+];
+
+const FORMAT_DATE_NOW_PATTERN = /\{\{~?\s*formatDate\b[^}]*\bdate\s*=\s*["']now["']/;
+const FORMAT_DATE_NOW_MESSAGE =
+  "{{formatDate date='now'}} changes on every build; use a fixed date, e.g. date='2025-01-01' format='yyyy'.";
+
+/** Lint src/ of the project (overlay content first when given). */
+export async function lintProject(
+  projectRoot: string,
+  overlay?: OverlayFiles
+): Promise<LintReport> {
+  const listed = await listProjectFiles(projectRoot, {
+    dir: "src",
+    overlay,
+    include: (path) => {
+      const ext = posix.extname(path);
+      return TEMPLATE_EXTENSIONS.has(ext) || STYLE_EXTENSIONS.has(ext) || ext === ".md";
+    },
+    limit: MAX_LINTED_FILES,
+  });
+  const partials = await listPartialNames(projectRoot, overlay);
+  const findings: LintFinding[] = [];
+  let filesChecked = 0;
+  for (const { path } of listed.files) {
+    const content = overlay?.has(path)
+      ? overlay.get(path)!
+      : await readLintableFile(join(projectRoot, path)).catch(() => null);
+    if (content === null) continue;
+    filesChecked += 1;
+    findings.push(...lintFile(path, content, partials));
+    if (findings.length > MAX_LINT_FINDINGS) {
+      return { findings: findings.slice(0, MAX_LINT_FINDINGS), filesChecked, truncated: true };
+    }
+  }
+  return { findings, filesChecked, truncated: listed.truncated };
+}
+
+/**
+ * Names templates use for the partials: paths under src/partials/ without ".hbs", so
+ * src/partials/blog/card.hbs is "blog/card".
+ */
+async function listPartialNames(
+  projectRoot: string,
+  overlay: OverlayFiles | undefined
+): Promise<Set<string>> {
+  const listed = await listProjectFiles(projectRoot, {
+    dir: PARTIALS_DIR,
+    glob: "*.hbs",
+    overlay,
+    limit: Infinity,
+  });
+  return new Set(
+    listed.files.map((file) => file.path.slice(PARTIALS_DIR.length + 1, -".hbs".length))
+  );
+}
+
+/**
+ * Findings for one file, by type: templates get every template rule, Markdown only the
+ * formatDate rule, Sass styles only the @import rule. `partials` are the known partial names.
+ */
+export function lintFile(
+  path: string,
+  content: string,
+  partials: ReadonlySet<string>
+): LintFinding[] {
+  const ext = posix.extname(path);
+  const findings: LintFinding[] = [];
+  const lines = content.split(/\r?\n/);
+  const add = (line: number, rule: LintRule, message: string) =>
+    findings.push({ file: path, line, rule, message });
+
+  if (STYLE_EXTENSIONS.has(ext)) {
+    if (!SASS_EXTENSIONS.has(ext)) return findings;
+    lines.forEach((text, i) => {
+      if (/^\s*@import\b/.test(text)) {
+        add(
+          i + 1,
+          "scss-import",
+          "@import in styles; keep the SCSS in one main.scss (no @import/@use) when scaffolding."
+        );
+      }
+    });
+    return findings;
+  }
+
+  const source = TEMPLATE_EXTENSIONS.has(ext) ? blankComments(content) : content;
+  source.split(/\r?\n/).forEach((text, i) => {
+    if (FORMAT_DATE_NOW_PATTERN.test(text)) add(i + 1, "format-date-now", FORMAT_DATE_NOW_MESSAGE);
+    if (!TEMPLATE_EXTENSIONS.has(ext)) return;
+    for (const { rule, pattern, message } of TEMPLATE_LINE_RULES) {
+      if (pattern.test(text)) add(i + 1, rule, message);
+    }
+  });
+  if (!TEMPLATE_EXTENSIONS.has(ext)) return findings;
+
+  const lineAt = createLineLookup(source);
+  // Inline partials ({{#*inline "name"}}) are defined in the template itself.
+  const inlinePartials = new Set(
+    [...source.matchAll(/\{\{~?\s*#\*inline\s+["']([^"']+)["']/g)].map((match) => match[1])
+  );
+  for (const match of source.matchAll(/\{\{~?\s*#?>\s*("[^"]+"|'[^']+'|[^\s}~()]+)/g)) {
+    const name = match[1].replace(/^["']|["']$/g, "");
+    if (name.startsWith("@") || partials.has(name) || inlinePartials.has(name)) continue;
+    add(
+      lineAt(match.index),
+      "missing-partial",
+      `Partial "${name}" does not exist; create src/partials/${name}.hbs or fix the name.`
+    );
+  }
+  for (const problem of findUnbalancedBlocks(source)) {
+    add(lineAt(problem.index), "unbalanced-block", problem.message);
+  }
+  return findings.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Match {{#name}} / {{^name}} / {{#> name}} openers with {{/name}} closers. Reports closers
+ * without an opener, closers that skip over open blocks, and blocks never closed.
+ */
+function findUnbalancedBlocks(source: string): Array<{ index: number; message: string }> {
+  const problems: Array<{ index: number; message: string }> = [];
+  const open: Array<{ name: string; index: number }> = [];
+  for (const match of source.matchAll(/\{\{~?\s*([#^/])\s*>?\s*\*?([^\s}~()]+)/g)) {
+    const [, kind, name] = match;
+    if (kind !== "/") {
+      open.push({ name, index: match.index });
+      continue;
+    }
+    const depth = open.map((block) => block.name).lastIndexOf(name);
+    if (depth === -1) {
+      problems.push({
+        index: match.index,
+        message: `{{/${name}}} closes a block that is not open.`,
+      });
+      continue;
+    }
+    for (const unclosed of open.splice(depth).slice(1)) {
+      problems.push({
+        index: unclosed.index,
+        message: `{{#${unclosed.name}}} is not closed before {{/${name}}}.`,
+      });
+    }
+  }
+  for (const unclosed of open) {
+    problems.push({
+      index: unclosed.index,
+      message: `{{#${unclosed.name}}} is never closed; add {{/${unclosed.name}}}.`,
+    });
+  }
+  return problems;
+}
+
+/** Replace Handlebars comments with spaces (keeping newlines) so their content is not linted. */
+function blankComments(content: string): string {
+  return content.replace(/\{\{!--[\s\S]*?--\}\}|\{\{![\s\S]*?\}\}/g, (comment) =>
+    comment.replace(/[^\n]/g, " ")
+  );
+}
+
+/** 1-based line number of a character index. */
+function createLineLookup(content: string): (index: number) => number {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) if (content[i] === "\n") starts.push(i + 1);
+  return (index) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= index) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
+
+async function readLintableFile(absolutePath: string): Promise<string | null> {
+  const stats = await lstat(absolutePath);
+  if (!stats.isFile() || stats.size > MAX_LINT_FILE_BYTES) return null;
+  return readFile(absolutePath, "utf8");
+}
@@ -0,0 +1,175 @@
+/**
+ * Project memory: durable, structured facts about the site (purpose, brand colors, chosen
+ * potions, pages, decisions, open TODOs). Unlike the rolling conversation summary it is never
+ * rewritten from prose; the model changes it item by item through update_project_memory, and
+ * it is shown to the model on every turn.
+ */
+
+export interface ProjectMemory {
+  /** One or two sentences: what the site is for and who it is for. */
+  sitePurpose: string;
+  /** e.g. "primary #1a73e8" */
+  brandColors: string[];
+  /** UIPotion guides in use, e.g. "layouts/dashboard" */
+  potions: string[];
+  /** e.g. "src/pages/index.hbs — home" */
+  pages: string[];
+  decisions: string[];
+  todos: string[];
+  /** ISO time of the last change. */
+  updatedAt?: string;
+}
+
+export const PROJECT_MEMORY_LIST_FIELDS = [
+  "brandColors",
+  "potions",
+  "pages",
+  "decisions",
+  "todos",
+] as const;
+
+export type ProjectMemoryListField = (typeof PROJECT_MEMORY_LIST_FIELDS)[number];
+
+export interface ProjectMemoryItem {
+  field: ProjectMemoryListField;
+  value: string;
+}
+
+export interface ProjectMemoryUpdate {
+  /** New site purpose; empty or missing keeps the current one. */
+  sitePurpose?: string;
+  add?: ProjectMemoryItem[];
+  /** Items to drop, matched on their text (case-insensitive). */
+  remove?: ProjectMemoryItem[];
+}
+
+/** Saved memory, or why it could not be read (e.g. a hand-edited file that no longer parses). */
+export type ProjectMemoryReadResult =
+  { ok: true; memory: ProjectMemory } | { ok: false; error: string };
+
+/** Where update_project_memory reads and writes the memory (a file, or memory only in dry runs). */
+export interface ProjectMemoryStore {
+  read: () => ProjectMemoryReadResult;
+  write: (memory: ProjectMemory) => void;
+}
+
+/** Keeps the memory small enough to send with every request. */
+export const MAX_PROJECT_MEMORY_ITEMS = 40;
+export const MAX_PROJECT_MEMORY_TEXT = 300;
+
+const FIELD_TITLES: Record<ProjectMemoryListField, string> = {
+  brandColors: "Brand colors",
+  potions: "Potions",
+  pages: "Pages",
+  decisions: "Decisions",
+  todos: "Open TODOs",
+};
+
+export function emptyProjectMemory(): ProjectMemory {
+  return { sitePurpose: "", brandColors: [], potions: [], pages: [], decisions: [], todos: [] };
+}
+
+export function isProjectMemoryEmpty(memory: ProjectMemory): boolean {
+  return (
+    !memory.sitePurpose && PROJECT_MEMORY_LIST_FIELDS.every((field) => memory[field].length === 0)
+  );
+}
+
+/**
+ * Read memory from parsed JSON. Missing fields default to empty; returns null when the value
+ * is not an object or a field has the wrong type, so a hand-edited file is never half-read.
+ */
+export function parseProjectMemory(data: unknown): ProjectMemory | null {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+  const raw = data as Record<string, unknown>;
+  const memory = emptyProjectMemory();
+  if (raw.sitePurpose !== undefined) {
+    if (typeof raw.sitePurpose !== "string") return null;
+    memory.sitePurpose = raw.sitePurpose.trim();
+  }
+  for (const field of PROJECT_MEMORY_LIST_FIELDS) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) return null;
+    memory[field] = dedupe(value.map((item: string) => item.trim()).filter(Boolean));
+  }
+  if (typeof raw.updatedAt === "string") memory.updatedAt = raw.updatedAt;
+  return memory;
+}
+
+/**
+ * Apply one update: set the purpose, then remove, then add items (existing items are not
+ * added twice). Fails without changing anything if an item is too long or a list would
+ * exceed MAX_PROJECT_MEMORY_ITEMS.
+ */
+export function applyProjectMemoryUpdate(
+  memory: ProjectMemory,
+  update: ProjectMemoryUpdate,
+  now = new Date()
+):
+  | { ok: true; memory: ProjectMemory; notFound: ProjectMemoryItem[] }
+  | { ok: false; error: string } {
+  const next: ProjectMemory = {
+    ...memory,
+    ...Object.fromEntries(PROJECT_MEMORY_LIST_FIELDS.map((field) => [field, [...memory[field]]])),
+  };
+  const sitePurpose = update.sitePurpose?.trim();
+  if (sitePurpose) {
+    if (sitePurpose.length > MAX_PROJECT_MEMORY_TEXT) {
+      return {
+        ok: false,
+        error: `sitePurpose is longer than ${MAX_PROJECT_MEMORY_TEXT} characters`,
+      };
+    }
+    next.sitePurpose = sitePurpose;
+  }
+
+  const notFound: ProjectMemoryItem[] = [];
+  for (const item of update.remove ?? []) {
+    const index = findItem(next[item.field], item.value);
+    if (index === -1) notFound.push(item);
+    else next[item.field].splice(index, 1);
+  }
+
+  for (const item of update.add ?? []) {
+    const value = item.value.trim();
+    if (!value) continue;
+    if (value.length > MAX_PROJECT_MEMORY_TEXT) {
+      return {
+        ok: false,
+        error: `${item.field} item is longer than ${MAX_PROJECT_MEMORY_TEXT} characters; shorten it`,
+      };
+    }
+    if (findItem(next[item.field], value) !== -1) continue;
+    if (next[item.field].length >= MAX_PROJECT_MEMORY_ITEMS) {
+      return {
+        ok: false,
+        error: `${item.field} already has ${MAX_PROJECT_MEMORY_ITEMS} items; remove outdated ones first`,
+      };
+    }
+    next[item.field].push(value);
+  }
+
+  next.updatedAt = now.toISOString();
+  return { ok: true, memory: next, notFound };
+}
+
+/** Markdown-style listing for the system prompt and `potion-kit memory`. Empty sections are left out. */
+export function formatProjectMemory(memory: ProjectMemory): string {
+  const lines: string[] = [];
+  if (memory.sitePurpose) lines.push(`Site purpose: ${memory.sitePurpose}`);
+  for (const field of PROJECT_MEMORY_LIST_FIELDS) {
+    if (memory[field].length === 0) continue;
+    lines.push(`${FIELD_TITLES[field]}:`, ...memory[field].map((item) => `- ${item}`));
+  }
+  return lines.join("\n");
+}
+
+function findItem(items: string[], value: string): number {
+  const wanted = value.trim().toLowerCase();
+  return items.findIndex((item) => item.toLowerCase() === wanted);
+}
+
+function dedupe(items: string[]): string[] {
+  return items.filter((item, index) => findItem(items, item) === index);
+}
@@ -0,0 +1,44 @@
+/**
+ * In-memory overlay of project files for dry runs. Writes (and deletions, recorded as null
+ * content) land here instead of on disk; reads and project info check the overlay first so a
+ * multi-step tool flow stays consistent with what the model believes it wrote.
+ */
+
+export interface OverlayChange {
+  /** Path relative to the project root, with forward slashes. */
+  path: string;
+  /** Content on disk when the file was first written in the overlay, or null if new. */
+  before: string | null;
+  /** Latest content written in the overlay, or null if the file was deleted. */
+  after: string | null;
+}
+
+export interface ProjectOverlay {
+  /** Overlay content for a path: null if deleted, undefined if the overlay has not touched it. */
+  read: (path: string) => string | null | undefined;
+  /**
+   * Record a write, or a deletion when content is null. `diskContent` is the on-disk content,
+   * used only for the first change of the path.
+   */
+  write: (path: string, content: string | null, diskContent: string | null) => void;
+  /** All overlay files by path (latest content; null for deleted files). */
+  files: () => ReadonlyMap<string, string | null>;
+  /** Changes in the order files were first written; unchanged rewrites are left out. */
+  changes: () => OverlayChange[];
+}
+
+export function createProjectOverlay(): ProjectOverlay {
+  const entries = new Map<string, { before: string | null; after: string | null }>();
+  return {
+    read: (path) => entries.get(path)?.after,
+    write: (path, content, diskContent) => {
+      const existing = entries.get(path);
+      entries.set(path, { before: existing ? existing.before : diskContent, after: content });
+    },
+    files: () => new Map([...entries].map(([path, entry]) => [path, entry.after])),
+    changes: () =>
+      [...entries]
+        .filter(([, entry]) => entry.before !== entry.after)
+        .map(([path, entry]) => ({ path, before: entry.before, after: entry.after })),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Retry policy for model calls (chat turns and summarization). Rate limits, transient network
+ * failures and 5xx responses are retried with exponential backoff, or after the delay the
+ * provider asks for (retry-after, anthropic-ratelimit-*-reset). The total wait per call is
+ * capped so a turn never hangs for long; the caller can show a countdown while waiting.
+ */
+import { APICallError } from "ai";
+import type { LlmConfig } from "../config/index.js";
+
+export interface RetryPolicy {
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  /** Upper bound on the summed waits of one call; a retry that would exceed it is not made. */
+  maxRetryWaitMs: number;
+}
+
+export interface RetryWait {
+  /** 1-based number of the retry being waited for. */
+  attempt: number;
+  maxRetries: number;
+  secondsLeft: number;
+  error: unknown;
+}
+
+export interface RetryOptions {
+  policy: RetryPolicy;
+  /** Stops waiting (and retrying) when aborted; the wait rejects with the abort reason. */
+  abortSignal?: AbortSignal;
+  /** Return false to give up on an otherwise retryable error (e.g. output was already streamed). */
+  canRetry?: (err: unknown) => boolean;
+  /** Called when a wait starts and then once per second until it ends. */
+  onWait?: (wait: RetryWait) => void;
+  /** Injectable for tests. */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_RETRY_WAIT_MS = 120_000;
+const BASE_BACKOFF_MS = 2_000; // 5xx and network errors: 2s, 4s, 8s, …
+const RATE_LIMIT_BACKOFF_MS = 15_000; // 429 without a hint: 15s, 30s, … (limits are per minute)
+const MAX_BACKOFF_MS = 60_000;
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+]);
+
+const ANTHROPIC_LIMITS = ["requests", "tokens", "input-tokens", "output-tokens"];
+
+/**
+ * Rate-limit wording, or 429 given as a status ("HTTP 429", "status code: 429"), for errors
+ * without a status code. A bare "429" (a port, an id, a byte count) does not count.
+ */
+const RATE_LIMIT_MESSAGE_PATTERN =
+  /rate[ _-]?limit|too many requests|30,000 input tokens per minute|\b(?:status(?: code)?|http|code)[\s:=]*429\b/i;
+
+export function getRetryPolicy(
+  config: Pick<LlmConfig, "maxRetries" | "maxRetryWaitMs">
+): RetryPolicy {
+  return {
+    maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+    maxRetryWaitMs: config.maxRetryWaitMs ?? DEFAULT_MAX_RETRY_WAIT_MS,
+  };
+}
+
+export function isRateLimitError(err: unknown): boolean {
+  if (APICallError.isInstance(err) && err.statusCode !== undefined) return err.statusCode === 429;
+  const msg = err instanceof Error ? err.message : String(err);
+  return RATE_LIMIT_MESSAGE_PATTERN.test(msg);
+}
+
+/** Server-side and connection failures that may succeed on a second try. */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof Error && err.name === "AbortError") return false;
+  if (APICallError.isInstance(err)) {
+    const status = err.statusCode;
+    if (status === undefined) return err.isRetryable;
+    return status === 408 || status === 409 || status >= 500;
+  }
+  if (hasNetworkErrorCode(err)) return true;
+  const msg = err instanceof Error ? err.message : String(err);
+  return /fetch failed|socket hang up|other side closed|overloaded|service unavailable|bad gateway/i.test(
+    msg
+  );
+}
+
+export function isRetryableError(err: unknown): boolean {
+  return isRateLimitError(err) || isTransientError(err);
+}
+
+/**
+ * Delay the provider asked for, from retry-after-ms, retry-after (seconds or HTTP date) or,
+ * for Anthropic, the reset time of the exhausted anthropic-ratelimit-* limit. Undefined if none.
+ */
+export function getRetryAfterMs(err: unknown, now = Date.now()): number | undefined {
+  if (!APICallError.isInstance(err) || !err.responseHeaders) return undefined;
+  const headers = Object.fromEntries(
+    Object.entries(err.responseHeaders).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  const retryAfterMs = Number(headers["retry-after-ms"]);
+  if (headers["retry-after-ms"] && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+  const retryAfter = headers["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (Number.isFinite(date)) return Math.max(0, date - now);
+  }
+
+  const resets = ANTHROPIC_LIMITS.filter(
+    (limit) => headers[`anthropic-ratelimit-${limit}-remaining`] === "0"
+  )
+    .map((limit) => Date.parse(headers[`anthropic-ratelimit-${limit}-reset`] ?? ""))
+    .filter(Number.isFinite);
+  if (resets.length > 0) return Math.max(0, Math.max(...resets) - now);
+  return undefined;
+}
+
+/** Wait before retry number attempt + 1: the provider's hint, else exponential backoff. */
+export function getRetryDelayMs(err: unknown, attempt: number, now = Date.now()): number {
+  const hinted = getRetryAfterMs(err, now);
+  if (hinted !== undefined) return hinted;
+  const base = isRateLimitError(err) ? RATE_LIMIT_BACKOFF_MS : BASE_BACKOFF_MS;
+  return Math.min(base * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
+/**
+ * Run `call`, retrying retryable errors per the policy. The last error is rethrown when
+ * retries run out, the error is not retryable, or the next wait would pass maxRetryWaitMs.
+ */
+export async function withRetry<T>(call: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { policy, abortSignal, canRetry, onWait } = options;
+  const sleep = options.sleep ?? abortableSleep;
+  let waitedMs = 0;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      if (
+        attempt >= policy.maxRetries ||
+        abortSignal?.aborted ||
+        !isRetryableError(err) ||
+        (canRetry && !canRetry(err))
+      ) {
+        throw err;
+      }
+      const delay = getRetryDelayMs(err, attempt);
+      if (waitedMs + delay > policy.maxRetryWaitMs) throw err;
+      waitedMs += delay;
+      for (let left = delay; left > 0; left -= 1000) {
+        onWait?.({
+          attempt: attempt + 1,
+          maxRetries: policy.maxRetries,
+          secondsLeft: Math.ceil(left / 1000),
+          error: err,
+        });
+        await sleep(Math.min(1000, left), abortSignal);
+      }
+    }
+  }
+}
+
+/** Spinner text while waiting, e.g. "Rate limited by openai/gpt-5.2. Retrying in 12s (1/3)…" */
+export function formatRetryWait(wait: RetryWait, modelLabel: string): string {
+  const status = APICallError.isInstance(wait.error) ? wait.error.statusCode : undefined;
+  const reason = isRateLimitError(wait.error)
+    ? `Rate limited by ${modelLabel}`
+    : status !== undefined
+      ? `${modelLabel} returned ${status}`
+      : `Request to ${modelLabel} failed`;
+  return `${reason}. Retrying in ${wait.secondsLeft}s (${wait.attempt}/${wait.maxRetries})…`;
+}
+
+function hasNetworkErrorCode(err: unknown): boolean {
+  for (let e: unknown = err, depth = 0; e && typeof e === "object" && depth < 3; depth++) {
+    const code = (e as { code?: unknown }).code;
+    if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) return true;
+    e = (e as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
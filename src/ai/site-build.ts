@@ -0,0 +1,312 @@
+/**
+ * Run the HaroldJS build of the user's project for run_site_build and turn its output into
+ * structured errors. The package.json build script is never run (the model can edit it):
+ * the bin of the installed harold-scripts package is started with node and the fixed argument
+ * "build", without a shell. The build is stopped on abort or after a timeout, escalating from
+ * SIGTERM to SIGKILL.
+ */
+import { spawn } from "node:child_process";
+import { existsSync, readFileSync, realpathSync } from "node:fs";
+import { extname, join, relative, resolve, sep } from "node:path";
+import { stripVTControlCharacters } from "node:util";
+
+export interface SiteBuildError {
+  /** Project-relative path, or null when the output does not name the file. */
+  file: string | null;
+  /** 1-based line in the file, or null when unknown. */
+  line: number | null;
+  message: string;
+}
+
+export interface SiteBuildResult {
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  errors: SiteBuildError[];
+  /** Last lines of the build output, for failures the parser did not recognize. */
+  outputTail: string;
+}
+
+/** Shown in the approval prompt and tool errors. */
+export const SITE_BUILD_COMMAND = "harold-scripts build";
+export const DEFAULT_BUILD_TIMEOUT_MS = 120_000;
+/** Time between SIGTERM and SIGKILL when stopping a build. */
+const KILL_GRACE_MS = 5_000;
+const MAX_CAPTURED_CHARS = 200_000;
+const MAX_TAIL_LINES = 40;
+const MAX_TAIL_CHARS = 4_000;
+const MAX_BUILD_ERRORS = 20;
+const SCRIPT_EXTENSIONS = new Set(["", ".js", ".cjs", ".mjs"]);
+
+const SOURCE_FILE_PATTERN = /([\w@.:/\\-]+\.(?:hbs|md|scss|sass|css|html|json|js))\b/;
+const SASS_LOCATION_PATTERN = /^\s*(\S+\.s[ac]ss) (\d+):\d+\s/;
+const FILE_LINE_PATTERN = /([\w@.:/\\-]+\.(?:hbs|md|scss|sass|css|html|json|js)):(\d+)(?::\d+)?/;
+
+type BinResult = { ok: true; path: string } | { ok: false; error: string };
+
+/**
+ * Entry script of the installed harold-scripts package (its "bin"), which must stay inside
+ * node_modules/harold-scripts and be a script file (not e.g. a .json or .md file).
+ */
+function resolveHaroldScriptsBin(projectRoot: string): BinResult {
+  const packageDir = join(projectRoot, "node_modules", "harold-scripts");
+  const notInstalled: BinResult = {
+    ok: false,
+    error: "harold-scripts is not installed. Ask the user to run npm install first.",
+  };
+  if (!existsSync(join(packageDir, "package.json"))) return notInstalled;
+  let bin: unknown;
+  try {
+    bin = JSON.parse(readFileSync(join(packageDir, "package.json"), "utf-8"))?.bin;
+  } catch {
+    return notInstalled;
+  }
+  const entry =
+    typeof bin === "string"
+      ? bin
+      : bin && typeof bin === "object"
+        ? (bin as Record<string, unknown>)["harold-scripts"]
+        : undefined;
+  if (typeof entry !== "string") {
+    return { ok: false, error: "The installed harold-scripts package has no harold-scripts bin." };
+  }
+  try {
+    const canonicalDir = realpathSync(packageDir);
+    const path = realpathSync(resolve(packageDir, entry));
+    if (relative(canonicalDir, path).startsWith("..") || !SCRIPT_EXTENSIONS.has(extname(path))) {
+      return { ok: false, error: "The harold-scripts bin is not a script inside its package." };
+    }
+    return { ok: true, path };
+  } catch {
+    return notInstalled;
+  }
+}
+
+/** Whether run_site_build may run here: package.json depends on an installed harold-scripts. */
+export function checkSiteBuild(projectRoot: string): { ok: true } | { ok: false; error: string } {
+  const packagePath = join(projectRoot, "package.json");
+  if (!existsSync(packagePath)) {
+    return { ok: false, error: "No package.json in the project root; there is no build to run." };
+  }
+  let pkg: {
+    dependencies?: Record<string, unknown>;
+    devDependencies?: Record<string, unknown>;
+  };
+  try {
+    pkg = JSON.parse(readFileSync(packagePath, "utf-8"));
+  } catch {
+    return { ok: false, error: "package.json is not valid JSON." };
+  }
+  if (!pkg?.dependencies?.["harold-scripts"] && !pkg?.devDependencies?.["harold-scripts"]) {
+    return {
+      ok: false,
+      error: "package.json does not use harold-scripts; only HaroldJS builds can be run.",
+    };
+  }
+  const bin = resolveHaroldScriptsBin(projectRoot);
+  return bin.ok ? { ok: true } : bin;
+}
+
+/**
+ * Run `harold-scripts build` in the project and parse its output. Resolves for failed and
+ * timed-out builds; rejects when the build cannot start or `abortSignal` fires.
+ */
+export function runSiteBuild(
+  projectRoot: string,
+  options: { timeoutMs?: number; abortSignal?: AbortSignal } = {}
+): Promise<SiteBuildResult> {
+  const { timeoutMs = DEFAULT_BUILD_TIMEOUT_MS, abortSignal } = options;
+  const bin = resolveHaroldScriptsBin(projectRoot);
+  if (!bin.ok) return Promise.reject(new Error(bin.error));
+  if (abortSignal?.aborted) return Promise.reject(abortSignal.reason);
+  const isWindows = process.platform === "win32";
+  const started = Date.now();
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(process.execPath, [bin.path, "build"], {
+      cwd: projectRoot,
+      // Own process group so stopping the build also stops the processes it started.
+      detached: !isWindows,
+      env: { ...process.env, FORCE_COLOR: "0", NO_COLOR: "1", CI: "1" },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let output = "";
+    const capture = (chunk: Buffer) => {
+      output += chunk.toString("utf8");
+      if (output.length > MAX_CAPTURED_CHARS) output = output.slice(-MAX_CAPTURED_CHARS);
+    };
+    child.stdout?.on("data", capture);
+    child.stderr?.on("data", capture);
+
+    const signalGroup = (signal: NodeJS.Signals) => {
+      try {
+        if (!isWindows && child.pid) process.kill(-child.pid, signal);
+        else child.kill(signal);
+      } catch {
+        // Already exited.
+      }
+    };
+    let killTimer: NodeJS.Timeout | undefined;
+    const stop = () => {
+      if (killTimer) return;
+      signalGroup("SIGTERM");
+      killTimer = setTimeout(() => signalGroup("SIGKILL"), KILL_GRACE_MS);
+    };
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, timeoutMs);
+    abortSignal?.addEventListener("abort", stop, { once: true });
+    const cleanUp = () => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      abortSignal?.removeEventListener("abort", stop);
+    };
+
+    child.on("error", (err) => {
+      cleanUp();
+      reject(err);
+    });
+    child.on("close", (code) => {
+      cleanUp();
+      if (abortSignal?.aborted) {
+        reject(abortSignal.reason);
+        return;
+      }
+      const passed = code === 0 && !timedOut;
+      const text = stripVTControlCharacters(output);
+      const errors = passed ? [] : parseBuildErrors(text, projectRoot);
+      if (timedOut) {
+        errors.unshift({
+          file: null,
+          line: null,
+          message: `Build did not finish within ${Math.round(timeoutMs / 1000)} seconds and was stopped.`,
+        });
+      }
+      resolvePromise({
+        passed,
+        exitCode: code,
+        timedOut,
+        durationMs: Date.now() - started,
+        errors: errors.slice(0, MAX_BUILD_ERRORS),
+        outputTail: tail(text),
+      });
+    });
+  });
+}
+
+/**
+ * Pull Handlebars, SCSS and front-matter errors out of build output. Recognizes Sass
+ * locations ("src/styles/main.scss 3:10  root stylesheet"), Handlebars parse errors and
+ * missing partials, YAML front-matter errors and generic "file:line" mentions; the file of a
+ * message without its own path is the last project file named before it. When the build
+ * failed but nothing matched, the last "Error:" line (or last output line) is returned.
+ */
+export function parseBuildErrors(output: string, projectRoot: string): SiteBuildError[] {
+  const errors: SiteBuildError[] = [];
+  const seen = new Set<string>();
+  const push = (error: SiteBuildError) => {
+    const key = `${error.file}:${error.line}:${error.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    errors.push(error);
+  };
+  const lines = output.split(/\r?\n/);
+  let lastFile: string | null = null;
+  let lastErrorMessage: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i].trim();
+    if (!text) continue;
+    const mentioned = text.match(SOURCE_FILE_PATTERN)?.[1];
+    if (mentioned && !mentioned.includes("node_modules")) {
+      lastFile = toProjectPath(mentioned, projectRoot);
+    }
+
+    const sass = lines[i].match(SASS_LOCATION_PATTERN);
+    if (sass) {
+      push({
+        file: toProjectPath(sass[1], projectRoot),
+        line: Number(sass[2]),
+        message: lastErrorMessage ?? "SCSS error",
+      });
+      lastErrorMessage = null;
+      continue;
+    }
+
+    const parse = text.match(/Parse error on line (\d+):/);
+    if (parse) {
+      const expecting = lines
+        .slice(i + 1, i + 5)
+        .map((line) => line.trim())
+        .find((line) => line.startsWith("Expecting"));
+      push({
+        file: lastFile,
+        line: Number(parse[1]),
+        message: expecting ? `Handlebars parse error: ${expecting}` : "Handlebars parse error",
+      });
+      lastErrorMessage = null;
+      continue;
+    }
+
+    const partial = text.match(/The partial (\S+) could not be found/);
+    if (partial) {
+      push({ file: lastFile, line: null, message: partial[0] });
+      lastErrorMessage = null;
+      continue;
+    }
+
+    const yaml = /YAML/.test(text) ? text.match(/:\s*(.+?) \((\d+):\d+\)/) : null;
+    if (yaml) {
+      // YAML lines count from the first line inside the opening "---" of the front matter.
+      push({
+        file: lastFile,
+        line: Number(yaml[2]) + 1,
+        message: `Front matter: ${yaml[1]}`,
+      });
+      lastErrorMessage = null;
+      continue;
+    }
+
+    const located = /error/i.test(text) ? text.match(FILE_LINE_PATTERN) : null;
+    if (located && !located[1].includes("node_modules")) {
+      const rest = text
+        .replace(located[0], "")
+        .replace(/^[\s:-]+|[\s:-]+$/g, "")
+        .replace(/^Error:\s*/i, "");
+      push({
+        file: toProjectPath(located[1], projectRoot),
+        line: Number(located[2]),
+        message: rest || lastErrorMessage || "Build error",
+      });
+      lastErrorMessage = null;
+      continue;
+    }
+
+    const errorLine = text.match(/^(?:\w*Error|error):\s*(.+)$/);
+    if (errorLine) lastErrorMessage = errorLine[1];
+  }
+
+  if (errors.length === 0) {
+    const lastLine = lines
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("npm "))
+      .pop();
+    const message = lastErrorMessage ?? lastLine;
+    if (message) push({ file: null, line: null, message });
+  }
+  return errors;
+}
+
+/** Absolute or "./" paths inside the project become project-relative with forward slashes. */
+function toProjectPath(path: string, projectRoot: string): string {
+  const normalized = path.startsWith(projectRoot + sep) ? relative(projectRoot, path) : path;
+  return normalized.split(sep).join("/").replace(/^\.\//, "");
+}
+
+function tail(text: string): string {
+  const lines = text.trimEnd().split(/\r?\n/).slice(-MAX_TAIL_LINES).join("\n");
+  return lines.length > MAX_TAIL_CHARS ? "…" + lines.slice(-MAX_TAIL_CHARS) : lines;
+}
@@ -1,10 +1,13 @@
 /**
  * Summarize conversation turns for context compression.
- * Uses the same model as chat but with no tools; output kept minimal.
+ * Uses the summary model when configured (otherwise the chat model), with no tools; output kept minimal.
  */
 import { generateText } from "ai";
 import type { LlmConfig } from "../config/index.js";
+import { formatModelLabel } from "./fallback.js";
 import { createModel } from "./model.js";
+import { formatRetryWait, getRetryPolicy, withRetry, type RetryWait } from "./retry.js";
+import { addUsage, emptyUsage, toTokenUsage, type TokenUsage } from "./usage.js";
 
 type Message = { role: "user" | "assistant"; content: string };
 
@@ -34,6 +37,8 @@ Include:
 
 Use 3-6 short lines (at least 3 lines). No markdown. Do not include the phrase "Previous condensed summary" in your output.`;
 
+const DEFAULT_SUMMARY_MAX_OUTPUT_TOKENS = 512;
+const DEFAULT_RETRY_MAX_OUTPUT_TOKENS = 320;
 const MAX_PROMPT_CHARS = 5500;
 const PREVIOUS_SUMMARY_MAX_CHARS = 1000;
 /** Reject model summaries shorter than this; caller will use fallback condensing. */
@@ -71,43 +76,104 @@ function trimMessagesForPrompt(messages: Message[]): Message[] {
   return messages;
 }
 
+/**
+ * Config for summarization calls: the summary provider/model when set, else the chat model.
+ * summaryBaseUrl and summaryApiKey apply whenever they are set, also for the chat provider.
+ */
+export function getSummaryModelConfig(config: LlmConfig): LlmConfig {
+  const provider = config.summaryProvider ?? config.provider;
+  if (provider === config.provider) {
+    return {
+      ...config,
+      model: config.summaryModel ?? config.model,
+      ...(config.summaryApiKey ? { apiKey: config.summaryApiKey } : {}),
+      ...(config.summaryBaseUrl ? { baseUrl: config.summaryBaseUrl } : {}),
+    };
+  }
+  return {
+    ...config,
+    provider,
+    model: config.summaryModel ?? config.model,
+    apiKey: config.summaryApiKey,
+    baseUrl: config.summaryBaseUrl,
+    supportsTools: undefined,
+  };
+}
+
+/**
+ * Summarize messages with the summary model, retrying once with a simpler prompt; usage covers
+ * both calls and `model` is the model that produced them. Failed calls are retried per the
+ * retry policy, with the countdown reported through onProgress. Rejects when abortSignal fires.
+ */
 export async function summarizeConversationWithRetry(
   config: LlmConfig,
-  messages: Message[]
-): Promise<{ summary: string; source: SummarySource | null }> {
-  if (messages.length === 0) return { summary: "", source: null };
-  const model = createModel(config);
+  messages: Message[],
+  options: { onProgress?: (message: string) => void; abortSignal?: AbortSignal } = {}
+): Promise<{ summary: string; source: SummarySource | null; usage: TokenUsage; model: string }> {
+  const summaryConfig = getSummaryModelConfig(config);
+  const modelId = summaryConfig.model;
+  if (messages.length === 0) {
+    return { summary: "", source: null, usage: emptyUsage(), model: modelId };
+  }
+  const model = createModel(summaryConfig);
   const trimmed = trimMessagesForPrompt(messages);
   const prompt = formatMessagesForSummary(trimmed);
 
   const summarizerMessages = [{ role: "user" as const, content: prompt }];
-  const { text, finishReason } = await generateText({
-    model,
-    system: SUMMARIZE_SYSTEM,
-    messages: summarizerMessages,
-    maxOutputTokens: 512,
-  });
+  const { abortSignal } = options;
+  const retryOptions = {
+    policy: getRetryPolicy(config),
+    abortSignal,
+    onWait: options.onProgress
+      ? (wait: RetryWait) =>
+          options.onProgress?.(formatRetryWait(wait, formatModelLabel(summaryConfig)))
+      : undefined,
+  };
+  const { text, finishReason, usage } = await withRetry(
+    () =>
+      generateText({
+        model,
+        system: SUMMARIZE_SYSTEM,
+        messages: summarizerMessages,
+        maxOutputTokens: config.summaryMaxOutputTokens ?? DEFAULT_SUMMARY_MAX_OUTPUT_TOKENS,
+        maxRetries: 0,
+        abortSignal,
+      }),
+    retryOptions
+  );
+  let totalUsage = toTokenUsage(usage);
   const primary = stripPreviousSummaryPrefix(
     normalizeSummary(text ?? "", finishReason === "length")
   );
   if (primary && primary.length >= MIN_SUMMARY_CHARS) {
-    return { summary: primary, source: "model-primary" };
+    return { summary: primary, source: "model-primary", usage: totalUsage, model: modelId };
   }
 
-  const retry = await generateText({
-    model,
-    system: SUMMARIZE_RETRY_SYSTEM,
-    messages: summarizerMessages,
-    maxOutputTokens: 320,
-  });
+  const retry = await withRetry(
+    () =>
+      generateText({
+        model,
+        system: SUMMARIZE_RETRY_SYSTEM,
+        messages: summarizerMessages,
+        // The simpler retry prompt keeps its smaller limit under a larger configured one.
+        maxOutputTokens: Math.min(
+          config.summaryMaxOutputTokens ?? DEFAULT_RETRY_MAX_OUTPUT_TOKENS,
+          DEFAULT_RETRY_MAX_OUTPUT_TOKENS
+        ),
+        maxRetries: 0,
+        abortSignal,
+      }),
+    retryOptions
+  );
+  totalUsage = addUsage(totalUsage, toTokenUsage(retry.usage));
   const retrySummary = stripPreviousSummaryPrefix(
     normalizeSummary(retry.text ?? "", retry.finishReason === "length")
   );
   if (retrySummary && retrySummary.length >= MIN_SUMMARY_CHARS) {
-    return { summary: retrySummary, source: "model-retry" };
+    return { summary: retrySummary, source: "model-retry", usage: totalUsage, model: modelId };
   }
 
-  return { summary: "", source: null };
+  return { summary: "", source: null, usage: totalUsage, model: modelId };
 }
 
 /**
@@ -2,12 +2,33 @@
  * Potion-kit tools for the Vercel AI SDK. The model can only get component/layout
  * specs or project info by calling these. See https://ai-sdk.dev/docs/ai-sdk-core/tools-and-tool-calling
  */
-import { mkdir, writeFile, readFile, realpath } from "node:fs/promises";
-import { resolve, relative } from "node:path";
+import { mkdir, writeFile, readFile, realpath, rename, unlink } from "node:fs/promises";
+import { resolve, relative, sep } from "node:path";
 import { tool } from "ai";
 import { z } from "zod";
 import { fetchDocPage } from "./fetch-doc.js";
-import { getHaroldProjectInfo } from "./harold-project.js";
+import { DEFAULT_HAROLD_CONFIG, getHaroldProjectInfo } from "./harold-project.js";
+import {
+  listProjectFiles,
+  MAX_SEARCHED_FILES,
+  searchProjectFiles,
+  SKIPPED_DIRS,
+} from "./project-files.js";
+import type { ProjectOverlay } from "./project-overlay.js";
+import {
+  checkSiteBuild,
+  runSiteBuild,
+  SITE_BUILD_COMMAND,
+  type SiteBuildResult,
+} from "./site-build.js";
+import { lintProject } from "./project-lint.js";
+import { normalizeLineEndings, validatePostFrontMatter } from "./front-matter.js";
+import {
+  PROJECT_MEMORY_LIST_FIELDS,
+  applyProjectMemoryUpdate,
+  type ProjectMemoryItem,
+  type ProjectMemoryStore,
+} from "./project-memory.js";
 import { fetchPotionsIndex } from "./context/potions-catalog.js";
 import { potionSpecUrl } from "./endpoints.js";
 import { getJson } from "./remote.js";
@@ -16,6 +37,23 @@ const ALLOWED_EXTENSIONS = new Set([".hbs", ".md", ".scss", ".css", ".html", ".j
 /** .js only allowed under src/assets/js/ for browser scripts (Harold.js, interactions, client-side). Node.js scripts are not allowed. */
 const FORBIDDEN_SUBSTRINGS = [".env", ".."];
 
+const ALLOWED_ROOT_DOTFILES = [".gitignore"];
+
+/** Error for a file type the tools may not read or write, or null if allowed. */
+function checkFileType(normalized: string): string | null {
+  const ext = normalized.includes(".") ? "." + normalized.split(".").pop()! : "";
+  const isAllowedRootDotfile = ALLOWED_ROOT_DOTFILES.some(
+    (f) => normalized === f || normalized.endsWith("/" + f)
+  );
+  const allowedExtensions = ALLOWED_EXTENSIONS.has(ext);
+  const jsUnderAssetsJs = ext === ".js" && normalized.startsWith("src/assets/js/");
+  if (allowedExtensions || jsUnderAssetsJs || isAllowedRootDotfile) return null;
+  if (ext === ".js") {
+    return "Only browser/client-side .js under src/assets/js/ is allowed (e.g. src/assets/js/search.js). Node.js scripts are not allowed.";
+  }
+  return `Allowed extensions: ${[...ALLOWED_EXTENSIONS].join(", ")}, or .js under src/assets/js/, or ${ALLOWED_ROOT_DOTFILES.join(", ")} in project root`;
+}
+
 async function isPathAllowed(
   projectRoot: string,
   relativePath: string
@@ -29,25 +67,13 @@ async function isPathAllowed(
       return { ok: false, error: `Path must not contain ${sub}` };
     }
   }
-  const ext = normalized.includes(".") ? "." + normalized.split(".").pop()! : "";
-  const allowedRootDotfiles = [".gitignore"];
-  const isAllowedRootDotfile =
-    allowedRootDotfiles.includes(normalized) ||
-    allowedRootDotfiles.some((f) => normalized === f || normalized.endsWith("/" + f));
-  const allowedExtensions = ALLOWED_EXTENSIONS.has(ext);
-  const jsUnderAssetsJs = ext === ".js" && normalized.startsWith("src/assets/js/");
-  if (!allowedExtensions && !jsUnderAssetsJs && !isAllowedRootDotfile) {
-    if (ext === ".js") {
-      return {
-        ok: false,
-        error:
-          "Only browser/client-side .js under src/assets/js/ is allowed (e.g. src/assets/js/search.js). Node.js scripts are not allowed.",
-      };
-    }
-    return {
-      ok: false,
-      error: `Allowed extensions: ${[...ALLOWED_EXTENSIONS].join(", ")}, or .js under src/assets/js/, or ${allowedRootDotfiles.join(", ")} in project root`,
-    };
+  // Installed packages (e.g. harold-scripts, which run_site_build starts) are off limits.
+  if (normalized.split("/").includes("node_modules")) {
+    return { ok: false, error: "Path must not be inside node_modules/" };
+  }
+  const fileTypeError = checkFileType(normalized);
+  if (fileTypeError) {
+    return { ok: false, error: fileTypeError };
   }
   const absolute = resolve(projectRoot, normalized);
   const relFromRoot = relative(projectRoot, absolute);
@@ -114,10 +140,260 @@ async function ensureInsideProjectRoot(
 }
 
 /**
- * AI SDK tools: search_potions, get_potion_spec, get_harold_project_info, fetch_doc_page, write_project_file.
+ * Deleting and moving is limited to files under src/: root config (package.json,
+ * .haroldrc.json, .gitignore) and anything outside src/ stay put. Error, or null if allowed.
+ */
+function checkRemovablePath(relativePath: string): string | null {
+  const normalized = relativePath.replace(/\\/g, "/").trim().replace(/^\.\//, "");
+  if (normalized.startsWith("src/")) return null;
+  return "Only files under src/ can be deleted or moved; root config files and other directories are left alone.";
+}
+
+/** Validate a project-relative directory ("" for the root) for listing or searching. */
+async function checkProjectDir(
+  projectRoot: string,
+  dir: string
+): Promise<{ ok: true; dir: string } | { ok: false; error: string }> {
+  const normalized = dir
+    .replace(/\\/g, "/")
+    .trim()
+    .replace(/^\.?\/+|\/+$/g, "")
+    .replace(/^\.$/, "");
+  if (dir.trim().startsWith("/") || normalized.split("/").includes("..")) {
+    return { ok: false, error: "Directory must be relative and must not contain .." };
+  }
+  if (normalized.split("/").some((segment) => SKIPPED_DIRS.has(segment))) {
+    return {
+      ok: false,
+      error: `Directory ${normalized}/ is not listed: build/, node_modules/, .git/ and .potion-kit/ are skipped.`,
+    };
+  }
+  const inside = await ensureInsideProjectRoot(projectRoot, resolve(projectRoot, normalized));
+  if (!inside.ok) return inside;
+  return { ok: true, dir: normalized };
+}
+
+type TextEdit = { oldText: string; newText: string };
+
+const memoryItemSchema = z.object({
+  field: z.enum(PROJECT_MEMORY_LIST_FIELDS).describe("List to change"),
+  value: z
+    .string()
+    .describe('Item text, e.g. "primary #1a73e8" or "src/pages/about.hbs — about page"'),
+});
+
+/** A project file about to be changed by a tool, with its content before the change. */
+export interface ProjectFileChange {
+  /** Path relative to the project root, with forward slashes. */
+  path: string;
+  /** Content before the change, or null if the file did not exist. */
+  previousContent: string | null;
+}
+
+/** A pending write shown to the user for review before it touches the disk. */
+export interface WriteApprovalRequest extends ProjectFileChange {
+  /** Content after the change, or null when the file is deleted. */
+  nextContent: string | null;
+  /** Set when the file is moved: its current path (`path` is the destination). */
+  movedFrom?: string;
+}
+
+export interface PotionKitToolsOptions {
+  /** Called before a tool changes a project file (e.g. to checkpoint it for undo). */
+  onBeforeWrite?: (change: ProjectFileChange) => void | Promise<void>;
+  /**
+   * Optional review step: resolve false to reject the write. Rejections are returned to
+   * the model as a tool error so it can adjust instead of claiming success.
+   */
+  approveWrite?: (request: WriteApprovalRequest) => Promise<boolean>;
+  /** Same review step for commands a tool wants to run (run_site_build); false skips the run. */
+  approveCommand?: (command: string) => Promise<boolean>;
+  /**
+   * Dry run: writes go to this in-memory overlay instead of disk, and reads / project info
+   * see overlay content first. No checkpoints are recorded.
+   */
+  overlay?: ProjectOverlay;
+  /** Where update_project_memory keeps the project memory; without it the tool reports an error. */
+  memory?: ProjectMemoryStore;
+  /** Called after each run_site_build that ran (passed or failed). */
+  onBuild?: (result: SiteBuildResult) => void;
+}
+
+const WRITE_REJECTED_ERROR =
+  "The user reviewed this change and rejected it; the file was not modified. Do not claim it was applied. Ask what they want changed or propose a different edit.";
+
+const BUILD_REJECTED_ERROR =
+  "The user declined to run the build; it did not run. Do not claim the build passed. Ask them to run npm run build and share the errors.";
+
+async function readExistingFile(absolutePath: string): Promise<string | null> {
+  try {
+    return await readFile(absolutePath, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+function toProjectRelative(projectRoot: string, absolutePath: string): string {
+  return relative(projectRoot, absolutePath).split(sep).join("/");
+}
+
+/**
+ * Apply exact search/replace edits in order. Each oldText must match exactly once in the
+ * content as it stands after the previous edits; otherwise nothing is applied.
+ */
+function applyTextEdits(
+  content: string,
+  edits: TextEdit[]
+): { ok: true; content: string } | { ok: false; error: string } {
+  let next = content;
+  for (let i = 0; i < edits.length; i += 1) {
+    const { oldText, newText } = edits[i];
+    const label = edits.length > 1 ? `Edit ${i + 1}: ` : "";
+    if (!oldText) {
+      return { ok: false, error: `${label}oldText must not be empty` };
+    }
+    const first = next.indexOf(oldText);
+    if (first === -1) {
+      return {
+        ok: false,
+        error: `${label}oldText not found in file. Call read_project_file and copy the exact snippet (including whitespace).`,
+      };
+    }
+    if (next.indexOf(oldText, first + 1) !== -1) {
+      const count = next.split(oldText).length - 1;
+      return {
+        ok: false,
+        error: `${label}oldText matches ${count} places; include more surrounding lines so it matches exactly once.`,
+      };
+    }
+    next = next.slice(0, first) + newText + next.slice(first + oldText.length);
+  }
+  return { ok: true, content: next };
+}
+
+/**
+ * AI SDK tools: search_potions, get_potion_spec, get_harold_project_info, read_project_file, list_project_files, search_project_files, fetch_doc_page, write_project_file, edit_project_file, delete_project_file, move_project_file, run_site_build, lint_project, update_project_memory.
  * Use with generateText({ tools: createPotionKitTools() }).
  */
-export function createPotionKitTools() {
+export function createPotionKitTools(options: PotionKitToolsOptions = {}) {
+  const { onBeforeWrite, approveWrite, approveCommand, overlay, memory, onBuild } = options;
+
+  /** Current content as the model should see it: overlay first (dry run), then disk. */
+  async function readProjectFile(projectRoot: string, absolutePath: string) {
+    const pending = overlay?.read(toProjectRelative(projectRoot, absolutePath));
+    return pending !== undefined ? pending : readExistingFile(absolutePath);
+  }
+
+  /**
+   * Posts (.md under the configured mdFilesDirName) get LF line endings and must have valid
+   * front matter; other files pass through unchanged.
+   */
+  function preparePostContent(
+    projectRoot: string,
+    absolutePath: string,
+    content: string
+  ): { ok: true; content: string } | { ok: false; error: string } {
+    const path = toProjectRelative(projectRoot, absolutePath);
+    if (!path.endsWith(".md")) return { ok: true, content };
+    // A new project (no src/ yet) is checked against Harold's default posts directory.
+    const info = getHaroldProjectInfo(projectRoot, overlay?.files());
+    const postsDirName = info.found
+      ? info.config?.mdFilesDirName
+      : DEFAULT_HAROLD_CONFIG.mdFilesDirName;
+    if (typeof postsDirName !== "string") return { ok: true, content };
+    if (!path.startsWith(`src/${postsDirName}/`)) return { ok: true, content };
+
+    const normalized = normalizeLineEndings(content);
+    const problems = validatePostFrontMatter(normalized, info.blogLayouts ?? []);
+    if (problems.length === 0) return { ok: true, content: normalized };
+    const layoutsDir = `src/${info.config?.mdFilesLayoutsDirName ?? "blog-layouts"}/`;
+    return {
+      ok: false,
+      error: `Invalid front matter for a post in src/${postsDirName}/: ${problems.join(" ")} Posts need front matter with layout (a file name without .hbs from ${layoutsDir}), title and publicationDate (YYYY-MM-DD), e.g. "---\nlayout: 'blog-post'\ntitle: 'Hello'\npublicationDate: '2025-01-15'\n---". The file was not written.`,
+    };
+  }
+
+  /**
+   * Review (if enabled), checkpoint, then write, or delete when nextContent is null. Shared by
+   * write_project_file, edit_project_file and delete_project_file.
+   */
+  async function commitProjectFile(
+    projectRoot: string,
+    absolutePath: string,
+    previousContent: string | null,
+    nextContent: string | null
+  ): Promise<{ ok: true } | { ok: false; error: string }> {
+    const path = toProjectRelative(projectRoot, absolutePath);
+    if (approveWrite && !(await approveWrite({ path, previousContent, nextContent }))) {
+      return { ok: false, error: WRITE_REJECTED_ERROR };
+    }
+    if (overlay) {
+      overlay.write(path, nextContent, await readExistingFile(absolutePath));
+      return { ok: true };
+    }
+    await onBeforeWrite?.({ path, previousContent });
+    if (nextContent === null) {
+      await unlink(absolutePath);
+      return { ok: true };
+    }
+    await mkdir(resolve(absolutePath, ".."), { recursive: true });
+    await writeFile(absolutePath, nextContent, "utf8");
+    return { ok: true };
+  }
+
+  /**
+   * Review (if enabled), checkpoint both paths, then rename. Undo restores the source and
+   * removes the destination.
+   */
+  async function moveProjectFile(
+    projectRoot: string,
+    fromAbsolute: string,
+    toAbsolute: string,
+    content: string,
+    /** Content for the destination when it differs, e.g. a moved post with normalized endings. */
+    nextContent: string = content
+  ): Promise<{ ok: true } | { ok: false; error: string }> {
+    const from = toProjectRelative(projectRoot, fromAbsolute);
+    const to = toProjectRelative(projectRoot, toAbsolute);
+    if (
+      approveWrite &&
+      !(await approveWrite({
+        path: to,
+        previousContent: null,
+        nextContent,
+        movedFrom: from,
+      }))
+    ) {
+      return { ok: false, error: WRITE_REJECTED_ERROR };
+    }
+    if (overlay) {
+      overlay.write(to, nextContent, await readExistingFile(toAbsolute));
+      overlay.write(from, null, await readExistingFile(fromAbsolute));
+      return { ok: true };
+    }
+    await onBeforeWrite?.({ path: from, previousContent: content });
+    await onBeforeWrite?.({ path: to, previousContent: null });
+    await mkdir(resolve(toAbsolute, ".."), { recursive: true });
+    await rename(fromAbsolute, toAbsolute);
+    if (nextContent !== content) await writeFile(toAbsolute, nextContent, "utf8");
+    return { ok: true };
+  }
+
+  /** isPathAllowed, ensureInsideProjectRoot and the src/-only rule for delete and move. */
+  async function checkRemovableFile(
+    projectRoot: string,
+    relativePath: string
+  ): Promise<{ ok: true; absolute: string } | { ok: false; error: string }> {
+    const allowed = await isPathAllowed(projectRoot, relativePath);
+    if (!allowed.ok) return allowed;
+    const inside = await ensureInsideProjectRoot(projectRoot, allowed.absolute);
+    if (!inside.ok) return inside;
+    const removableError = checkRemovablePath(relativePath);
+    if (removableError) return { ok: false, error: removableError };
+    return allowed;
+  }
+
   return {
     search_potions: tool({
       description:
@@ -185,7 +461,7 @@ export function createPotionKitTools() {
       inputSchema: z.object({}),
       execute: async () => {
         try {
-          return getHaroldProjectInfo(process.cwd());
+          return getHaroldProjectInfo(process.cwd(), overlay?.files());
         } catch (e) {
           return { found: false, message: e instanceof Error ? e.message : String(e) };
         }
@@ -213,7 +489,10 @@ export function createPotionKitTools() {
           return { ok: false, error: inside.error, content: null };
         }
         try {
-          const content = await readFile(allowed.absolute, "utf8");
+          const content = await readProjectFile(projectRoot, allowed.absolute);
+          if (content === null) {
+            return { ok: false, error: "File not found", content: null };
+          }
           return { ok: true, path: relativePath, content };
         } catch (e) {
           const err = e instanceof Error ? e.message : String(e);
@@ -225,6 +504,106 @@ export function createPotionKitTools() {
       },
     }),
 
+    list_project_files: tool({
+      description:
+        'List files in the user\'s project recursively, with size and last modified time. Use it to find nested pages, posts, partials, scripts (src/assets/js/) or data files (jsonData/) before calling read_project_file, instead of guessing paths. Skips build/, node_modules/ and files ignored by .gitignore. Filter with a glob: "*.hbs" matches file names in any directory, "src/pages/**/*.md" matches paths.',
+      inputSchema: z.object({
+        dir: z
+          .string()
+          .describe(
+            'Directory relative to the project root, e.g. "src"; empty string for the root'
+          ),
+        glob: z
+          .string()
+          .describe(
+            'Glob filter, e.g. "*.scss" or "src/**/*.{hbs,md}"; empty string for all files'
+          ),
+      }),
+      execute: async ({ dir, glob }: { dir: string; glob: string }) => {
+        const projectRoot = resolve(process.cwd());
+        const checked = await checkProjectDir(projectRoot, dir);
+        if (!checked.ok) {
+          return { ok: false, error: checked.error, files: [] };
+        }
+        try {
+          const listed = await listProjectFiles(projectRoot, {
+            dir: checked.dir,
+            glob,
+            overlay: overlay?.files(),
+          });
+          return {
+            ok: true,
+            files: listed.files,
+            ...(listed.truncated ? { truncated: true } : {}),
+          };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e), files: [] };
+        }
+      },
+    }),
+
+    search_project_files: tool({
+      description:
+        "Search the user's project files for a string or regular expression and return matching lines as path, line number and text. Searches the file types read_project_file can open (.hbs, .md, .scss, .css, .html, .json, .js under src/assets/js/, .gitignore) and skips the same directories as list_project_files. Use it to find where a class, partial, helper or text is used before editing.",
+      inputSchema: z.object({
+        query: z.string().describe('Text to find, e.g. "navbar" or "{{> footer"'),
+        isRegex: z
+          .boolean()
+          .describe("true to treat query as a JavaScript regular expression (case-sensitive)"),
+        glob: z
+          .string()
+          .describe('Glob filter for files, e.g. "*.hbs"; empty string for all searchable files'),
+      }),
+      execute: async ({
+        query,
+        isRegex,
+        glob,
+      }: {
+        query: string;
+        isRegex: boolean;
+        glob: string;
+      }) => {
+        const projectRoot = resolve(process.cwd());
+        if (!query) {
+          return { ok: false, error: "query must not be empty", matches: [] };
+        }
+        let pattern: RegExp;
+        try {
+          pattern = isRegex
+            ? new RegExp(query)
+            : new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+        } catch (e) {
+          return {
+            ok: false,
+            error: `Invalid regular expression: ${e instanceof Error ? e.message : String(e)}`,
+            matches: [],
+          };
+        }
+        try {
+          const listed = await listProjectFiles(projectRoot, {
+            glob,
+            overlay: overlay?.files(),
+            // Same checks as read_project_file, so e.g. config.env.json is never searched.
+            include: async (path) => (await isPathAllowed(projectRoot, path)).ok,
+            limit: MAX_SEARCHED_FILES,
+          });
+          const found = await searchProjectFiles(
+            projectRoot,
+            listed.files.map((file) => file.path),
+            pattern,
+            overlay?.files()
+          );
+          return {
+            ok: true,
+            matches: found.matches,
+            ...(found.truncated || listed.truncated ? { truncated: true } : {}),
+          };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e), matches: [] };
+        }
+      },
+    }),
+
     fetch_doc_page: tool({
       description:
         "Fallback only: fetch the text content of a page from haroldjs.com or uipotion.com. You can fetch jsonData/posts.json first (e.g. https://www.haroldjs.com/jsonData/posts.json or https://uipotion.com/jsonData/posts.json) to get the doc index, then open specific pages. Use only when the information is not in the HaroldJS context or Potion specs (search_potions / get_potion_spec). Only for these two domains.",
@@ -244,7 +623,7 @@ export function createPotionKitTools() {
 
     write_project_file: tool({
       description:
-        'Create or overwrite a file in the user\'s project. Path must be relative to the project root; you cannot write outside this directory. Allowed: .hbs, .md, .scss, .css, .html, .json anywhere (including package.json, .haroldrc.json at root); .js only under src/assets/js/ for browser/Harold scripts; .gitignore at root. When the project is new or missing root setup, create package.json with scripts "build": "harold-scripts build", "start": "harold-scripts start", devDependencies harold-scripts, and a "harold" config object (see system prompt scaffold). Do NOT write Node.js scripts (no .js at project root). Do not write .env or paths containing "..".',
+        'Create or overwrite a file in the user\'s project. Path must be relative to the project root; you cannot write outside this directory. Allowed: .hbs, .md, .scss, .css, .html, .json anywhere (including package.json, .haroldrc.json at root); .js only under src/assets/js/ for browser/Harold scripts; .gitignore at root. When the project is new or missing root setup, create package.json with scripts "build": "harold-scripts build", "start": "harold-scripts start", devDependencies harold-scripts, and a "harold" config object (see system prompt scaffold). Do NOT write Node.js scripts (no .js at project root). Markdown posts under src/posts/ (the configured mdFilesDirName) must start with front matter that has layout (an existing blog layout), title and publicationDate (YYYY-MM-DD); invalid front matter is rejected and CRLF line endings are converted to LF. Do not write .env or paths containing "..".',
       inputSchema: z.object({
         path: z
           .string()
@@ -264,14 +643,263 @@ export function createPotionKitTools() {
           return { ok: false, error: inside.error };
         }
         try {
-          const dir = resolve(allowed.absolute, "..");
-          await mkdir(dir, { recursive: true });
-          await writeFile(allowed.absolute, content, "utf8");
+          const post = preparePostContent(projectRoot, allowed.absolute, content);
+          if (!post.ok) {
+            return { ok: false, error: post.error };
+          }
+          const previous =
+            onBeforeWrite || approveWrite
+              ? await readProjectFile(projectRoot, allowed.absolute)
+              : null;
+          const written = await commitProjectFile(
+            projectRoot,
+            allowed.absolute,
+            previous,
+            post.content
+          );
+          if (!written.ok) {
+            return { ok: false, error: written.error };
+          }
+          return { ok: true, path: relativePath };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e) };
+        }
+      },
+    }),
+
+    edit_project_file: tool({
+      description:
+        "Apply targeted edits to an existing file in the user's project instead of rewriting it. Prefer this over write_project_file for fixes and small changes. Each edit replaces an exact oldText snippet with newText; oldText must match the current file exactly once (copy it from read_project_file, including whitespace and enough surrounding lines to be unique). Edits apply in order; if any edit fails, the file is left unchanged. Same path rules as write_project_file.",
+      inputSchema: z.object({
+        path: z.string().describe("Relative path from project root, e.g. src/styles/main.scss"),
+        edits: z
+          .array(
+            z.object({
+              oldText: z.string().describe("Exact snippet currently in the file"),
+              newText: z.string().describe("Replacement snippet (empty string to delete)"),
+            })
+          )
+          .min(1)
+          .describe("One or more search/replace pairs, applied in order"),
+      }),
+      execute: async ({ path: relativePath, edits }: { path: string; edits: TextEdit[] }) => {
+        const projectRoot = resolve(process.cwd());
+        const allowed = await isPathAllowed(projectRoot, relativePath);
+        if (!allowed.ok) {
+          return { ok: false, error: allowed.error };
+        }
+        const inside = await ensureInsideProjectRoot(projectRoot, allowed.absolute);
+        if (!inside.ok) {
+          return { ok: false, error: inside.error };
+        }
+        try {
+          const current = await readProjectFile(projectRoot, allowed.absolute);
+          if (current === null) {
+            return {
+              ok: false,
+              error: "File not found. Use write_project_file to create new files.",
+            };
+          }
+          const edited = applyTextEdits(current, edits);
+          if (!edited.ok) {
+            return { ok: false, error: edited.error };
+          }
+          const post = preparePostContent(projectRoot, allowed.absolute, edited.content);
+          if (!post.ok) {
+            return { ok: false, error: post.error };
+          }
+          const written = await commitProjectFile(
+            projectRoot,
+            allowed.absolute,
+            current,
+            post.content
+          );
+          if (!written.ok) {
+            return { ok: false, error: written.error };
+          }
+          return { ok: true, path: relativePath, editsApplied: edits.length };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e) };
+        }
+      },
+    }),
+
+    delete_project_file: tool({
+      description:
+        "Delete a file in the user's project, e.g. an unused partial or a draft post. Only files under src/ can be deleted (never package.json, .haroldrc.json or other root config). Before deleting a partial or layout, use search_project_files to check nothing still references it. Same path rules as write_project_file.",
+      inputSchema: z.object({
+        path: z
+          .string()
+          .describe("Relative path from project root, e.g. src/partials/old-hero.hbs"),
+      }),
+      execute: async ({ path: relativePath }: { path: string }) => {
+        const projectRoot = resolve(process.cwd());
+        const checked = await checkRemovableFile(projectRoot, relativePath);
+        if (!checked.ok) {
+          return { ok: false, error: checked.error };
+        }
+        try {
+          const current = await readProjectFile(projectRoot, checked.absolute);
+          if (current === null) {
+            return { ok: false, error: "File not found" };
+          }
+          const deleted = await commitProjectFile(projectRoot, checked.absolute, current, null);
+          if (!deleted.ok) {
+            return { ok: false, error: deleted.error };
+          }
           return { ok: true, path: relativePath };
         } catch (e) {
           return { ok: false, error: e instanceof Error ? e.message : String(e) };
         }
       },
     }),
+
+    move_project_file: tool({
+      description:
+        "Move or rename a file in the user's project, e.g. src/partials/nav.hbs to src/partials/navbar.hbs. Both paths must be under src/ and the destination must not exist yet. Moving does not update references: afterwards use search_project_files for the old name (partials, links, imports) and fix them with edit_project_file. Same path rules as write_project_file.",
+      inputSchema: z.object({
+        from: z.string().describe("Current relative path, e.g. src/partials/nav.hbs"),
+        to: z.string().describe("New relative path, e.g. src/partials/navbar.hbs"),
+      }),
+      execute: async ({ from, to }: { from: string; to: string }) => {
+        const projectRoot = resolve(process.cwd());
+        const source = await checkRemovableFile(projectRoot, from);
+        if (!source.ok) {
+          return { ok: false, error: `from: ${source.error}` };
+        }
+        const destination = await checkRemovableFile(projectRoot, to);
+        if (!destination.ok) {
+          return { ok: false, error: `to: ${destination.error}` };
+        }
+        if (source.absolute === destination.absolute) {
+          return { ok: false, error: "from and to are the same file" };
+        }
+        try {
+          const current = await readProjectFile(projectRoot, source.absolute);
+          if (current === null) {
+            return { ok: false, error: "File not found" };
+          }
+          if ((await readProjectFile(projectRoot, destination.absolute)) !== null) {
+            return {
+              ok: false,
+              error: `${to} already exists. Delete it first or choose another name.`,
+            };
+          }
+          // Moving a file into the posts directory makes it a post: same check as a write.
+          const post = preparePostContent(projectRoot, destination.absolute, current);
+          if (!post.ok) {
+            return { ok: false, error: post.error };
+          }
+          const moved = await moveProjectFile(
+            projectRoot,
+            source.absolute,
+            destination.absolute,
+            current,
+            post.content
+          );
+          if (!moved.ok) {
+            return { ok: false, error: moved.error };
+          }
+          return { ok: true, path: to, from };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e) };
+        }
+      },
+    }),
+
+    run_site_build: tool({
+      description:
+        "Run the project's build (harold-scripts build) and get back whether it passed plus the errors as { file, line, message } (Handlebars parse errors, missing partials, SCSS and front-matter errors). Call it after changing templates, styles or posts, then fix the reported errors in the same turn and build again. Only works when package.json uses harold-scripts and it is installed; a build is stopped after two minutes.",
+      inputSchema: z.object({}),
+      execute: async (_input, { abortSignal }) => {
+        if (overlay) {
+          return {
+            ok: false,
+            error: "Dry run: changes are not on disk, so the build was not run.",
+          };
+        }
+        const projectRoot = resolve(process.cwd());
+        const check = checkSiteBuild(projectRoot);
+        if (!check.ok) {
+          return { ok: false, error: check.error };
+        }
+        try {
+          if (approveCommand && !(await approveCommand(SITE_BUILD_COMMAND))) {
+            return { ok: false, error: BUILD_REJECTED_ERROR };
+          }
+          const result = await runSiteBuild(projectRoot, { abortSignal });
+          onBuild?.(result);
+          return { ok: true, ...result };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e) };
+        }
+      },
+    }),
+
+    lint_project: tool({
+      description:
+        "Check src/ against the HaroldJS rules: <style>, inline style=\"…\" and inline <script> in .hbs, absolute href/src without {{relativePath}}, {{formatDate date='now'}}, @import in .scss/.sass, {{> partials}} that do not exist, and unbalanced {{#block}}/{{/block}}. Returns findings with file, line, rule and message. Run it after generating or editing templates and fix what it reports.",
+      inputSchema: z.object({}),
+      execute: async () => {
+        try {
+          const report = await lintProject(resolve(process.cwd()), overlay?.files());
+          return { ok: true, ...report };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e) };
+        }
+      },
+    }),
+
+    update_project_memory: tool({
+      description:
+        "Update the project memory shown to you every turn (site purpose, brand colors, potions in use, pages, decisions, open TODOs). Call it when the user states or changes something durable about the site, when you add or remove a page or potion, and when a TODO is done (remove it). Record short facts, not conversation. To change an item, remove the old text and add the new one.",
+      inputSchema: z.object({
+        sitePurpose: z
+          .string()
+          .describe(
+            "New site purpose in one or two sentences; empty string to keep the current one"
+          ),
+        add: z.array(memoryItemSchema).describe("Items to add (empty array for none)"),
+        remove: z
+          .array(memoryItemSchema)
+          .describe(
+            "Items to remove, with their text exactly as in the project memory (empty array for none)"
+          ),
+      }),
+      execute: async ({
+        sitePurpose,
+        add,
+        remove,
+      }: {
+        sitePurpose: string;
+        add: ProjectMemoryItem[];
+        remove: ProjectMemoryItem[];
+      }) => {
+        if (!memory) {
+          return { ok: false, error: "Project memory is not available in this session." };
+        }
+        try {
+          const current = memory.read();
+          if (!current.ok) {
+            return {
+              ok: false,
+              error: `${current.error} It was left unchanged; ask the user to fix it with potion-kit memory edit.`,
+            };
+          }
+          const updated = applyProjectMemoryUpdate(current.memory, { sitePurpose, add, remove });
+          if (!updated.ok) {
+            return { ok: false, error: updated.error };
+          }
+          memory.write(updated.memory);
+          return {
+            ok: true,
+            memory: updated.memory,
+            ...(updated.notFound.length > 0 ? { notFound: updated.notFound } : {}),
+          };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e) };
+        }
+      },
+    }),
   };
 }
@@ -0,0 +1,117 @@
+/**
+ * Token usage accounting: normalize what the AI SDK reports per step, add it up per turn,
+ * and price it with the optional user-supplied table from config.json.
+ */
+import type { ModelPrice, PriceTable } from "../config/index.js";
+
+export interface TokenUsage {
+  /** All input tokens, including cached ones. */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens read from the provider's prompt cache (subset of inputTokens). */
+  cachedInputTokens: number;
+  /** Reasoning tokens (subset of outputTokens). */
+  reasoningTokens: number;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, reasoningTokens: 0 };
+}
+
+/** Convert AI SDK usage (v6 shape, with the older flat fields as fallback) to TokenUsage. */
+export function toTokenUsage(raw: unknown): TokenUsage {
+  if (!raw || typeof raw !== "object") return emptyUsage();
+  const usage = raw as {
+    inputTokens?: number;
+    outputTokens?: number;
+    inputTokenDetails?: { cacheReadTokens?: number };
+    outputTokenDetails?: { reasoningTokens?: number };
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
+  };
+  return {
+    inputTokens: count(usage.inputTokens),
+    outputTokens: count(usage.outputTokens),
+    cachedInputTokens: count(usage.inputTokenDetails?.cacheReadTokens ?? usage.cachedInputTokens),
+    reasoningTokens: count(usage.outputTokenDetails?.reasoningTokens ?? usage.reasoningTokens),
+  };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+  };
+}
+
+export function sumUsage(items: TokenUsage[]): TokenUsage {
+  return items.reduce(addUsage, emptyUsage());
+}
+
+/** Cost in USD, or undefined when there is no price for the model. */
+export function estimateCost(usage: TokenUsage, price: ModelPrice | undefined): number | undefined {
+  if (!price) return undefined;
+  const cached = Math.min(usage.cachedInputTokens, usage.inputTokens);
+  const cachedPrice = price.cachedInput ?? price.input;
+  return (
+    ((usage.inputTokens - cached) * price.input +
+      cached * cachedPrice +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Cost of a turn whose chat and summarization calls may use different models. Undefined when
+ * a part with tokens has no price (summary tokens default to the chat model's price).
+ */
+export function estimateTurnCost(
+  prices: PriceTable,
+  turn: { model?: string; usage?: TokenUsage; summaryModel?: string; summaryUsage?: TokenUsage }
+): number | undefined {
+  const parts = [
+    { model: turn.model, usage: turn.usage },
+    { model: turn.summaryModel ?? turn.model, usage: turn.summaryUsage },
+  ];
+  let total = 0;
+  for (const part of parts) {
+    if (!part.usage) continue;
+    const cost = part.model ? estimateCost(part.usage, prices[part.model]) : undefined;
+    if (cost === undefined) return undefined;
+    total += cost;
+  }
+  return total;
+}
+
+/** e.g. "12,345 in (8,000 cached) · 1,234 out (512 reasoning) · $0.0421" */
+export function formatUsage(usage: TokenUsage, cost?: number): string {
+  const input =
+    `${formatCount(usage.inputTokens)} in` +
+    (usage.cachedInputTokens > 0 ? ` (${formatCount(usage.cachedInputTokens)} cached)` : "");
+  const output =
+    `${formatCount(usage.outputTokens)} out` +
+    (usage.reasoningTokens > 0 ? ` (${formatCount(usage.reasoningTokens)} reasoning)` : "");
+  return [input, output, ...(cost === undefined ? [] : [formatCost(cost)])].join(" · ");
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+export function isTokenUsage(value: unknown): value is TokenUsage {
+  if (!value || typeof value !== "object") return false;
+  const usage = value as Record<string, unknown>;
+  return ["inputTokens", "outputTokens", "cachedInputTokens", "reasoningTokens"].every(
+    (key) => typeof usage[key] === "number" && Number.isFinite(usage[key])
+  );
+}
+
+function count(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString("en-US");
+}
@@ -0,0 +1,168 @@
+/**
+ * Line-based unified diff for showing file changes in the terminal (and saving patches).
+ * Small and dependency-free: trims the common prefix/suffix, then runs an LCS on the
+ * changed middle. Very large rewrites fall back to "remove all, add all" for that middle.
+ */
+import { cli } from "./formatting.js";
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+type PositionedOp = DiffOp & { oldIndex: number; newIndex: number };
+
+const DEFAULT_CONTEXT_LINES = 3;
+/** Upper bound on LCS table cells (~16 MB) before falling back to a coarse diff. */
+const MAX_LCS_CELLS = 4_000_000;
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+/** Split into lines, keeping each line's "\n" so end-of-file newline changes show up. */
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  return text.split(/(?<=\n)/);
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const ops: DiffOp[] = oldLines.slice(0, prefix).map((line) => ({ type: " ", line }));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    ops.push(...a.map((line): DiffOp => ({ type: "-", line })));
+    ops.push(...b.map((line): DiffOp => ({ type: "+", line })));
+  } else {
+    // lcs[i][j] = LCS length of a[i..] and b[j..], stored row-major.
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i -= 1) {
+      for (let j = b.length - 1; j >= 0; j -= 1) {
+        lcs[i * width + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        ops.push({ type: " ", line: a[i] });
+        i += 1;
+        j += 1;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        ops.push({ type: "-", line: a[i] });
+        i += 1;
+      } else {
+        ops.push({ type: "+", line: b[j] });
+        j += 1;
+      }
+    }
+    while (i < a.length) ops.push({ type: "-", line: a[i++] });
+    while (j < b.length) ops.push({ type: "+", line: b[j++] });
+  }
+
+  ops.push(
+    ...oldLines.slice(oldLines.length - suffix).map((line): DiffOp => ({ type: " ", line }))
+  );
+  return ops;
+}
+
+function formatOp(op: DiffOp): string[] {
+  if (op.line.endsWith("\n")) return [op.type + op.line.slice(0, -1)];
+  return [op.type + op.line, NO_NEWLINE_MARKER];
+}
+
+/**
+ * Unified diff of one file. `before` / `after` are null when the file does not exist
+ * on that side (created or deleted). Returns "" when there is no change.
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | null,
+  after: string | null,
+  context = DEFAULT_CONTEXT_LINES
+): string {
+  const ops = diffLines(splitLines(before ?? ""), splitLines(after ?? ""));
+  if (!ops.some((op) => op.type !== " ") && (before === null) === (after === null)) return "";
+
+  let oldIndex = 0;
+  let newIndex = 0;
+  const positioned: PositionedOp[] = ops.map((op) => {
+    const p = { ...op, oldIndex, newIndex };
+    if (op.type !== "+") oldIndex += 1;
+    if (op.type !== "-") newIndex += 1;
+    return p;
+  });
+
+  const out = [
+    `--- ${before === null ? "/dev/null" : "a/" + path}`,
+    `+++ ${after === null ? "/dev/null" : "b/" + path}`,
+  ];
+
+  let i = 0;
+  while (i < positioned.length) {
+    if (positioned[i].type === " ") {
+      i += 1;
+      continue;
+    }
+    // Extend the hunk while the gap of unchanged lines to the next change is small.
+    let lastChange = i;
+    let j = i + 1;
+    while (j < positioned.length) {
+      if (positioned[j].type !== " ") {
+        lastChange = j;
+        j += 1;
+        continue;
+      }
+      let k = j;
+      while (k < positioned.length && positioned[k].type === " ") k += 1;
+      if (k < positioned.length && k - j <= context * 2) {
+        j = k;
+        continue;
+      }
+      break;
+    }
+    const start = Math.max(0, i - context);
+    const stop = Math.min(positioned.length, lastChange + 1 + context);
+    const hunk = positioned.slice(start, stop);
+    const oldCount = hunk.filter((p) => p.type !== "+").length;
+    const newCount = hunk.filter((p) => p.type !== "-").length;
+    const oldStart = oldCount === 0 ? hunk[0].oldIndex : hunk[0].oldIndex + 1;
+    const newStart = newCount === 0 ? hunk[0].newIndex : hunk[0].newIndex + 1;
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) out.push(...formatOp(op));
+    i = stop;
+  }
+
+  return out.join("\n") + "\n";
+}
+
+/** Color a unified diff for the terminal; long diffs are cut after `maxLines`. */
+export function formatDiffForTerminal(diff: string, maxLines = 200): string {
+  const lines = diff.replace(/\n$/, "").split("\n");
+  const shown = lines.slice(0, maxLines).map((line) => {
+    if (line.startsWith("---") || line.startsWith("+++")) return cli.diffHeader(line);
+    if (line.startsWith("@@")) return cli.diffHunk(line);
+    if (line.startsWith("+")) return cli.diffAdded(line);
+    if (line.startsWith("-")) return cli.diffRemoved(line);
+    return line;
+  });
+  if (lines.length > maxLines) {
+    shown.push(cli.progress(`… ${lines.length - maxLines} more diff lines not shown`));
+  }
+  return shown.join("\n");
+}
@@ -0,0 +1,39 @@
+/**
+ * Edit text in the user's editor ($VISUAL, then $EDITOR, else vi), like `git commit` does:
+ * the text goes to a temporary file, the editor runs in the terminal, and the saved file is
+ * read back.
+ */
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+export type EditResult = { ok: true; text: string } | { ok: false; error: string };
+
+export function getEditorCommand(env: NodeJS.ProcessEnv = process.env): string {
+  return env.VISUAL?.trim() || env.EDITOR?.trim() || "vi";
+}
+
+/** Open `text` in the editor as a file named `fileName`; resolves to the saved text. */
+export function editText(text: string, fileName: string): EditResult {
+  const dir = mkdtempSync(join(tmpdir(), "potion-kit-edit-"));
+  const path = join(dir, fileName);
+  try {
+    writeFileSync(path, text, "utf-8");
+    const editor = getEditorCommand();
+    // Through the shell so editor commands with arguments (e.g. "code --wait") work.
+    const result = spawnSync(`${editor} "${path}"`, { shell: true, stdio: "inherit" });
+    if (result.error) {
+      return { ok: false, error: `Could not start ${editor}: ${result.error.message}` };
+    }
+    if (result.status !== 0) {
+      return {
+        ok: false,
+        error: `${editor} exited with code ${result.status}; nothing was saved.`,
+      };
+    }
+    return { ok: true, text: readFileSync(path, "utf-8") };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -21,6 +21,18 @@ export const cli = {
   error: (s: string) => chalk.red(s),
   /** One-shot intro line */
   intro: (s: string) => chalk.dim(s),
+  /** Diff file header (--- / +++) */
+  diffHeader: (s: string) => chalk.bold(s),
+  /** Diff hunk header (@@ … @@) */
+  diffHunk: (s: string) => chalk.cyan(s),
+  /** Added line in a diff */
+  diffAdded: (s: string) => chalk.green(s),
+  /** Removed line in a diff */
+  diffRemoved: (s: string) => chalk.red(s),
+  /** Question that needs a user decision (e.g. approve a write) */
+  question: (s: string) => chalk.yellow.bold(s),
+  /** Search match inside a snippet */
+  match: (s: string) => chalk.yellow.bold(s),
 } as const;
 
 /** Map internal tool names to short, user-friendly progress labels. Mention HaroldJS or UIPotion where relevant. */
@@ -29,8 +41,16 @@ const TOOL_PROGRESS_LABELS: Record<string, string> = {
   get_potion_spec: "Fetching UIPotion spec",
   get_harold_project_info: "HaroldJS: inspecting project",
   read_project_file: "HaroldJS: reading files",
+  list_project_files: "HaroldJS: listing files",
+  search_project_files: "HaroldJS: searching files",
   fetch_doc_page: "Loading docs (HaroldJS / UIPotion)",
   write_project_file: "HaroldJS: writing files",
+  edit_project_file: "HaroldJS: editing files",
+  delete_project_file: "HaroldJS: deleting files",
+  move_project_file: "HaroldJS: moving files",
+  run_site_build: "HaroldJS: building site",
+  lint_project: "HaroldJS: checking templates",
+  update_project_memory: "Updating project memory",
 };
 
 /**
@@ -0,0 +1,64 @@
+/**
+ * Streamed reply output: print assistant text as it arrives, interleaved with the progress
+ * spinner. The spinner is paused while text is written and resumed when a text block ends
+ * (e.g. the model moves on to a tool call), so labels and reply text never share a line.
+ */
+
+export interface ReplyStreamWriter {
+  /** Write a piece of reply text; prints the header before the first visible text. */
+  onTextDelta: (delta: string) => void;
+  /** End the current text block and hand the line back to the spinner. */
+  endBlock: () => void;
+  /** End any open text line. Call before the spinner clears its line for good. */
+  finish: () => void;
+  /** True once any visible reply text was printed. */
+  hasStreamed: () => boolean;
+}
+
+export function createReplyStreamWriter(params: {
+  /** Printed once before the first visible text (e.g. separator and "Potion-kit:" label). */
+  header: string;
+  write?: (text: string) => void;
+  /** Stop the spinner and clear its line. */
+  pause?: () => void;
+  /** Restart the spinner on a fresh line. */
+  resume?: () => void;
+}): ReplyStreamWriter {
+  const { header, pause, resume, write = (text) => process.stdout.write(text) } = params;
+  let streamed = false;
+  let inBlock = false;
+  let endsWithNewline = true;
+
+  function closeLine(): void {
+    if (!endsWithNewline) write("\n");
+    endsWithNewline = true;
+  }
+
+  return {
+    onTextDelta: (delta) => {
+      if (!inBlock) {
+        // Skip leading blank lines so each block starts right after the header or gap.
+        const text = delta.replace(/^\s+/, "");
+        if (!text) return;
+        pause?.();
+        write(streamed ? "\n" : header);
+        streamed = true;
+        inBlock = true;
+        delta = text;
+      }
+      write(delta);
+      endsWithNewline = delta.endsWith("\n");
+    },
+    endBlock: () => {
+      if (!inBlock) return;
+      inBlock = false;
+      closeLine();
+      resume?.();
+    },
+    finish: () => {
+      inBlock = false;
+      closeLine();
+    },
+    hasStreamed: () => streamed,
+  };
+}
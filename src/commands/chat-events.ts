@@ -1,6 +1,9 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import type { ChatTurnTrace } from "../ai/client.js";
+import { isTokenUsage, type TokenUsage } from "../ai/usage.js";
+import { getChatStateDir } from "./chat-state.js";
+import type { ContextSplit } from "./context-budget.js";
 
 export interface ChatTurnEvent {
   timestamp: string;
@@ -8,18 +11,60 @@ export interface ChatTurnEvent {
   hasVerifiedWrite: boolean;
   replyWasGuarded: boolean;
   summarySource?: string;
+  /** History length before this turn (index of the turn's user message in chat-history.json). */
+  historyLength?: number;
+  /** Id of the file checkpoint recorded for this turn, when it changed project files. */
+  checkpointId?: string;
+  /** Chat model that handled the turn, a fallback if one answered (used to price trace.usage). */
+  model?: string;
+  /** Start time of the `potion-kit chat` run that recorded the turn. */
+  runId?: string;
+  /** Token usage of summarization calls made before this turn. */
+  summaryUsage?: TokenUsage;
+  /** Model that made those summarization calls (used to price summaryUsage). */
+  summaryModel?: string;
+  /** How the request context was fitted into the model's token budget. */
+  context?: ContextSplit;
+  /** Outcome of the turn's last run_site_build, when the model ran the build. */
+  build?: TurnBuild;
 }
 
-const HISTORY_DIR = ".potion-kit";
-const EVENTS_FILE = "chat-events.json";
+export interface TurnBuild {
+  passed: boolean;
+  /** Number of errors parsed from the build output. */
+  errorCount: number;
+  timedOut?: boolean;
+}
+
+/**
+ * Tokens paid for by one chat turn, kept in usage-log.json. Unlike chat-events.json the log is
+ * never capped, cleared or trimmed by undo, so `potion-kit usage` counts every call made.
+ */
+export interface UsageRecord {
+  timestamp: string;
+  /** Chat model that answered (used to price usage). */
+  model?: string;
+  /** Chat tokens of the turn; missing when the chat call failed before a step finished. */
+  usage?: TokenUsage;
+  /** Tokens of summarization calls made before the turn. */
+  summaryUsage?: TokenUsage;
+  summaryModel?: string;
+}
+
+export const EVENTS_FILE = "chat-events.json";
+export const USAGE_LOG_FILE = "usage-log.json";
 const MAX_EVENTS = 200;
 
-function getEventsPath(cwd: string): string {
-  return join(cwd, HISTORY_DIR, EVENTS_FILE);
+function getEventsPath(cwd: string, session?: string): string {
+  return join(getChatStateDir(cwd, session), EVENTS_FILE);
 }
 
-export function readChatEvents(cwd: string): ChatTurnEvent[] {
-  const path = getEventsPath(cwd);
+function getUsageLogPath(cwd: string, session?: string): string {
+  return join(getChatStateDir(cwd, session), USAGE_LOG_FILE);
+}
+
+export function readChatEvents(cwd: string, session?: string): ChatTurnEvent[] {
+  const path = getEventsPath(cwd, session);
   if (!existsSync(path)) return [];
   try {
     const raw = readFileSync(path, "utf-8");
@@ -31,18 +76,81 @@ export function readChatEvents(cwd: string): ChatTurnEvent[] {
   }
 }
 
-export function appendChatEvent(cwd: string, event: ChatTurnEvent): void {
-  const dir = join(cwd, HISTORY_DIR);
+export function writeChatEvents(cwd: string, events: ChatTurnEvent[], session?: string): void {
+  const dir = getChatStateDir(cwd, session);
   if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  const events = readChatEvents(cwd);
-  events.push(event);
+  // Events are about to be trimmed: keep the usage they hold.
+  ensureUsageLog(cwd, session);
   const trimmed = events.slice(-MAX_EVENTS);
-  writeFileSync(getEventsPath(cwd), JSON.stringify(trimmed, null, 2), "utf-8");
+  writeFileSync(getEventsPath(cwd, session), JSON.stringify(trimmed, null, 2), "utf-8");
+}
+
+/** Record a turn; its usage also goes to the usage log. */
+export function appendChatEvent(cwd: string, event: ChatTurnEvent, session?: string): void {
+  appendUsageRecord(cwd, toUsageRecord(event), session);
+  const events = readChatEvents(cwd, session);
+  events.push(event);
+  writeChatEvents(cwd, events, session);
+}
+
+export function clearChatEvents(cwd: string, session?: string): void {
+  const path = getEventsPath(cwd, session);
+  if (!existsSync(path)) return;
+  ensureUsageLog(cwd, session);
+  writeFileSync(path, "[]", "utf-8");
+}
+
+/**
+ * Usage records of a session. Sessions from before the log existed fall back to the usage on
+ * their chat events.
+ */
+export function readUsageLog(cwd: string, session?: string): UsageRecord[] {
+  const path = getUsageLogPath(cwd, session);
+  if (!existsSync(path)) return readChatEvents(cwd, session).map(toUsageRecord);
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as unknown;
+    return Array.isArray(data) ? data.filter(isUsageRecord) : [];
+  } catch {
+    return [];
+  }
 }
 
-export function clearChatEvents(cwd: string): void {
-  const path = getEventsPath(cwd);
-  if (existsSync(path)) writeFileSync(path, "[]", "utf-8");
+export function appendUsageRecord(cwd: string, record: UsageRecord, session?: string): void {
+  const dir = getChatStateDir(cwd, session);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const records = readUsageLog(cwd, session);
+  records.push(record);
+  writeFileSync(getUsageLogPath(cwd, session), JSON.stringify(records, null, 2), "utf-8");
+}
+
+/** Write the log from the current events if there is none yet, before events are removed. */
+function ensureUsageLog(cwd: string, session?: string): void {
+  const path = getUsageLogPath(cwd, session);
+  if (existsSync(path)) return;
+  const records = readChatEvents(cwd, session).map(toUsageRecord);
+  if (records.length > 0) writeFileSync(path, JSON.stringify(records, null, 2), "utf-8");
+}
+
+function toUsageRecord(event: ChatTurnEvent): UsageRecord {
+  return {
+    timestamp: event.timestamp,
+    model: event.model,
+    usage: event.trace.usage,
+    summaryUsage: event.summaryUsage,
+    summaryModel: event.summaryModel,
+  };
+}
+
+function isUsageRecord(value: unknown): value is UsageRecord {
+  if (!value || typeof value !== "object") return false;
+  const obj = value as UsageRecord;
+  return (
+    typeof obj.timestamp === "string" &&
+    (obj.model === undefined || typeof obj.model === "string") &&
+    (obj.usage === undefined || isTokenUsage(obj.usage)) &&
+    (obj.summaryUsage === undefined || isTokenUsage(obj.summaryUsage)) &&
+    (obj.summaryModel === undefined || typeof obj.summaryModel === "string")
+  );
 }
 
 function isChatTurnEvent(value: unknown): value is ChatTurnEvent {
@@ -52,7 +160,15 @@ function isChatTurnEvent(value: unknown): value is ChatTurnEvent {
     typeof obj.timestamp !== "string" ||
     typeof obj.hasVerifiedWrite !== "boolean" ||
     typeof obj.replyWasGuarded !== "boolean" ||
-    (obj.summarySource !== undefined && typeof obj.summarySource !== "string")
+    (obj.summarySource !== undefined && typeof obj.summarySource !== "string") ||
+    (obj.historyLength !== undefined && typeof obj.historyLength !== "number") ||
+    (obj.checkpointId !== undefined && typeof obj.checkpointId !== "string") ||
+    (obj.model !== undefined && typeof obj.model !== "string") ||
+    (obj.runId !== undefined && typeof obj.runId !== "string") ||
+    (obj.summaryUsage !== undefined && !isTokenUsage(obj.summaryUsage)) ||
+    (obj.summaryModel !== undefined && typeof obj.summaryModel !== "string") ||
+    (obj.context !== undefined && !isContextSplit(obj.context)) ||
+    (obj.build !== undefined && !isTurnBuild(obj.build))
   ) {
     return false;
   }
@@ -62,7 +178,12 @@ function isChatTurnEvent(value: unknown): value is ChatTurnEvent {
     typeof trace.stepsUsed !== "number" ||
     !Number.isFinite(trace.stepsUsed) ||
     typeof trace.finishReason !== "string" ||
-    !Array.isArray(trace.toolEvents)
+    !Array.isArray(trace.toolEvents) ||
+    (trace.usage !== undefined && !isTokenUsage(trace.usage)) ||
+    (trace.stepUsage !== undefined &&
+      (!Array.isArray(trace.stepUsage) || !trace.stepUsage.every(isTokenUsage))) ||
+    (trace.model !== undefined && typeof trace.model !== "string") ||
+    (trace.provider !== undefined && typeof trace.provider !== "string")
   ) {
     return false;
   }
@@ -74,3 +195,21 @@ function isChatTurnEvent(value: unknown): value is ChatTurnEvent {
       typeof (e as { ok?: unknown }).ok === "boolean"
   );
 }
+
+function isTurnBuild(value: unknown): value is TurnBuild {
+  if (!value || typeof value !== "object") return false;
+  const build = value as Record<string, unknown>;
+  return (
+    typeof build.passed === "boolean" &&
+    typeof build.errorCount === "number" &&
+    (build.timedOut === undefined || typeof build.timedOut === "boolean")
+  );
+}
+
+function isContextSplit(value: unknown): value is ContextSplit {
+  if (!value || typeof value !== "object") return false;
+  const split = value as Record<string, unknown>;
+  return ["budget", "estimatedTokens", "tailMessages", "movedToSummary", "collapsedMessages"].every(
+    (key) => typeof split[key] === "number" && Number.isFinite(split[key])
+  );
+}
@@ -1,11 +1,12 @@
 /**
  * Multi-turn chat: persist conversation in project's .potion-kit/chat-history.json
- * so each run has full context (user + assistant messages). System prompt is
- * never stored; it's injected fresh each time.
+ * (or the named session's directory) so each run has full context (user + assistant
+ * messages). System prompt is never stored; it's injected fresh each time.
  */
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { stripPreviousSummaryPrefix } from "../ai/summarize.js";
+import { getChatStateDir } from "./chat-state.js";
 
 export interface HistoryMessage {
   role: "user" | "assistant";
@@ -23,20 +24,19 @@ export interface SummaryState {
   incrementalUpdates: number;
 }
 
-const HISTORY_DIR = ".potion-kit";
-const HISTORY_FILE = "chat-history.json";
-const SUMMARY_FILE = "chat-summary.json";
+export const HISTORY_FILE = "chat-history.json";
+export const SUMMARY_FILE = "chat-summary.json";
 
-function getHistoryPath(cwd: string): string {
-  return join(cwd, HISTORY_DIR, HISTORY_FILE);
+function getHistoryPath(cwd: string, session?: string): string {
+  return join(getChatStateDir(cwd, session), HISTORY_FILE);
 }
 
-function getSummaryPath(cwd: string): string {
-  return join(cwd, HISTORY_DIR, SUMMARY_FILE);
+function getSummaryPath(cwd: string, session?: string): string {
+  return join(getChatStateDir(cwd, session), SUMMARY_FILE);
 }
 
-export function readHistory(cwd: string): HistoryMessage[] {
-  const path = getHistoryPath(cwd);
+export function readHistory(cwd: string, session?: string): HistoryMessage[] {
+  const path = getHistoryPath(cwd, session);
   if (!existsSync(path)) return [];
   try {
     const raw = readFileSync(path, "utf-8");
@@ -54,14 +54,14 @@ export function readHistory(cwd: string): HistoryMessage[] {
   }
 }
 
-export function writeHistory(cwd: string, messages: HistoryMessage[]): void {
-  const dir = join(cwd, HISTORY_DIR);
+export function writeHistory(cwd: string, messages: HistoryMessage[], session?: string): void {
+  const dir = getChatStateDir(cwd, session);
   if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  writeFileSync(getHistoryPath(cwd), JSON.stringify(messages, null, 2), "utf-8");
+  writeFileSync(getHistoryPath(cwd, session), JSON.stringify(messages, null, 2), "utf-8");
 }
 
-export function readSummaryState(cwd: string): SummaryState | null {
-  const path = getSummaryPath(cwd);
+export function readSummaryState(cwd: string, session?: string): SummaryState | null {
+  const path = getSummaryPath(cwd, session);
   if (!existsSync(path)) return null;
   try {
     const raw = readFileSync(path, "utf-8");
@@ -91,19 +91,19 @@ export function readSummaryState(cwd: string): SummaryState | null {
   }
 }
 
-export function writeSummaryState(cwd: string, state: SummaryState): void {
-  const dir = join(cwd, HISTORY_DIR);
+export function writeSummaryState(cwd: string, state: SummaryState, session?: string): void {
+  const dir = getChatStateDir(cwd, session);
   if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  writeFileSync(getSummaryPath(cwd), JSON.stringify(state, null, 2), "utf-8");
+  writeFileSync(getSummaryPath(cwd, session), JSON.stringify(state, null, 2), "utf-8");
 }
 
-export function clearSummaryState(cwd: string): void {
-  const path = getSummaryPath(cwd);
+export function clearSummaryState(cwd: string, session?: string): void {
+  const path = getSummaryPath(cwd, session);
   if (existsSync(path)) writeFileSync(path, "{}", "utf-8");
 }
 
-export function clearHistory(cwd: string): void {
-  const path = getHistoryPath(cwd);
+export function clearHistory(cwd: string, session?: string): void {
+  const path = getHistoryPath(cwd, session);
   if (existsSync(path)) writeFileSync(path, "[]", "utf-8");
-  clearSummaryState(cwd);
+  clearSummaryState(cwd, session);
 }
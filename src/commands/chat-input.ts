@@ -0,0 +1,98 @@
+/**
+ * Chat input beyond a single line: multiline entry at the interactive prompt (continuation
+ * marker, triple-quote block, bracketed paste) and reading a one-shot message from a file or stdin.
+ */
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+/** Terminal escape sequences to turn bracketed paste mode on and off. */
+export const ENABLE_BRACKETED_PASTE = "\x1b[?2004h";
+export const DISABLE_BRACKETED_PASTE = "\x1b[?2004l";
+
+const BLOCK_DELIMITER = '"""';
+const CONTINUATION_MARKER = "\\";
+
+export interface MultilineInput {
+  /**
+   * Feed one submitted line. Returns the complete message, or null while more lines are
+   * expected. `pasted` marks lines that arrived inside a bracketed paste.
+   */
+  push: (line: string, options?: { pasted?: boolean }) => string | null;
+  /** True while a message is being collected (show a continuation prompt). */
+  isPending: () => boolean;
+  /** Drop any partially collected message. */
+  reset: () => void;
+}
+
+/**
+ * Collect multiline messages:
+ * - a line ending in `\` continues on the next line;
+ * - a line starting with `"""` opens a block that ends at a line ending with `"""`;
+ * - pasted lines are kept together and sent with the next Enter.
+ */
+export function createMultilineInput(): MultilineInput {
+  let lines: string[] = [];
+  let pending = false;
+  let inBlock = false;
+
+  function complete(): string {
+    const message = lines.join("\n");
+    lines = [];
+    pending = false;
+    inBlock = false;
+    return message;
+  }
+
+  return {
+    push: (line, options = {}) => {
+      if (inBlock) {
+        const trimmed = line.trimEnd();
+        if (trimmed.endsWith(BLOCK_DELIMITER)) {
+          lines.push(trimmed.slice(0, -BLOCK_DELIMITER.length));
+          return complete();
+        }
+        lines.push(line);
+        return null;
+      }
+      if (options.pasted) {
+        lines.push(line);
+        pending = true;
+        return null;
+      }
+      if (!pending && line.trimStart().startsWith(BLOCK_DELIMITER)) {
+        const rest = line.trimStart().slice(BLOCK_DELIMITER.length);
+        if (rest.trimEnd().endsWith(BLOCK_DELIMITER)) {
+          lines.push(rest.trimEnd().slice(0, -BLOCK_DELIMITER.length));
+          return complete();
+        }
+        if (rest.trim()) lines.push(rest);
+        pending = true;
+        inBlock = true;
+        return null;
+      }
+      if (line.endsWith(CONTINUATION_MARKER)) {
+        lines.push(line.slice(0, -CONTINUATION_MARKER.length));
+        pending = true;
+        return null;
+      }
+      lines.push(line);
+      return complete();
+    },
+    isPending: () => pending,
+    reset: () => {
+      lines = [];
+      pending = false;
+      inBlock = false;
+    },
+  };
+}
+
+/** Read a one-shot message from a file (relative to cwd), or from stdin when path is "-". */
+export async function readInputFile(cwd: string, path: string): Promise<string> {
+  if (path !== "-") return readFileSync(resolve(cwd, path), "utf-8");
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer));
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
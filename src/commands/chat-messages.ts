@@ -1,28 +1,41 @@
 /**
  * Build messages sent to the API: system + first user message + optional summary message
- * + last N messages + current.
+ * + last N messages + current. With a context plan (see context-budget.ts), its first message
+ * and tail are used instead, so the request stays within the model's token budget.
+ * The project memory (see project-memory.ts) is appended to the system prompt.
  */
 import type { ChatMessage } from "../ai/client.js";
+import { formatProjectMemory, type ProjectMemory } from "../ai/project-memory.js";
 import type { HistoryMessage } from "./chat-history.js";
+import type { ContextPlan } from "./context-budget.js";
 
 export function buildMessages(
   systemPrompt: string,
   history: HistoryMessage[],
   userMessage: string,
   maxHistoryMessages: number,
-  summary: string | null
+  summary: string | null,
+  context?: ContextPlan,
+  memory?: ProjectMemory | null
 ): ChatMessage[] {
-  const firstMsg = history.length > 0 && history[0].role === "user" ? history[0] : null;
+  const firstMsg = context
+    ? context.firstMessage
+    : history.length > 0 && history[0].role === "user"
+      ? history[0]
+      : null;
   const hasMiddle = history.length > 1 + maxHistoryMessages;
-  const tail = hasMiddle
-    ? history.slice(-maxHistoryMessages)
-    : firstMsg
-      ? history.slice(1)
-      : history;
+  const tail = context
+    ? context.tail
+    : hasMiddle
+      ? history.slice(-maxHistoryMessages)
+      : firstMsg
+        ? history.slice(1)
+        : history;
 
   let systemContent = systemPrompt;
   systemContent +=
     "\n\n## Reliability rule\nTreat earlier assistant messages as potentially stale. For project state, prefer user requests and verify files with tools before claiming changes.";
+  if (memory) systemContent += "\n\n" + formatProjectMemorySection(memory);
 
   const conversation: Array<{ role: "user" | "assistant"; content: string }> = [];
   if (firstMsg) conversation.push(firstMsg);
@@ -39,3 +52,12 @@ export function buildMessages(
 
   return [{ role: "system", content: systemContent }, ...conversation];
 }
+
+/** System prompt section with the project memory, or how to start one when it is empty. */
+export function formatProjectMemorySection(memory: ProjectMemory): string {
+  const text = formatProjectMemory(memory);
+  return (
+    "## Project memory\nDurable facts about this site, kept across turns and sessions. Keep it current with update_project_memory; files on disk win if they disagree.\n" +
+    (text || "(empty — record the site purpose and key decisions once they are known)")
+  );
+}
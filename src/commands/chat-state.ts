@@ -0,0 +1,27 @@
+/**
+ * Where chat state lives. The default session keeps the original layout (files directly in
+ * .potion-kit/); named sessions get their own directory under .potion-kit/sessions/<name>/
+ * with the same files (history, summary cache, events, checkpoints).
+ */
+import { join } from "node:path";
+
+export const CHAT_STATE_DIR = ".potion-kit";
+export const DEFAULT_SESSION = "default";
+
+const SESSIONS_DIR = "sessions";
+const SESSION_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
+/** Session names are used as directory names: letters, digits, ".", "_" and "-" only. */
+export function isValidSessionName(name: string): boolean {
+  return SESSION_NAME_PATTERN.test(name) && !name.includes("..");
+}
+
+export function getSessionsRoot(cwd: string): string {
+  return join(cwd, CHAT_STATE_DIR, SESSIONS_DIR);
+}
+
+/** Directory holding the state files of a session. */
+export function getChatStateDir(cwd: string, session: string = DEFAULT_SESSION): string {
+  if (session === DEFAULT_SESSION) return join(cwd, CHAT_STATE_DIR);
+  return join(getSessionsRoot(cwd), session);
+}
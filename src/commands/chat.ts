@@ -2,14 +2,22 @@
  * Chat command: load config, build system prompt, send user message, print reply.
  * Conversation is persisted in .potion-kit/chat-history.json (project-scoped) so
  * you can chat over multiple runs and build the site iteratively.
- * - With no args: interactive mode (readline loop; type "exit" or Ctrl+C to quit).
- * - With a message: one-shot, then exit. Use `potion-kit clear` to start a new conversation.
+ * - With no args: interactive mode (readline loop; type "exit" or Ctrl+C to quit). Replies are
+ *   streamed to the terminal as the model writes them. Ctrl+C during a turn cancels that turn
+ *   and returns to the prompt; Ctrl+C at the prompt quits. Slash commands (/clear, /undo,
+ *   /model, /help, …) are handled locally and never sent to the model. Multiline messages use
+ *   a trailing `\`, a `"""` block, or a bracketed paste.
+ * - With a message (arguments and/or --input-file, "-" for stdin): one-shot, then exit.
+ *   Use `potion-kit clear` to start a new conversation.
+ * Files written during a turn are checkpointed so `potion-kit undo` can roll the turn back.
+ * With --approve (or approveWrites in config), each write shows a diff and waits for the user.
+ * With --dry-run, writes stay in an in-memory overlay and are reported (and optionally saved
+ * as a patch) at the end; neither project files nor chat state are changed.
  * Exits with clear error if .env / API keys are missing.
  */
-import { existsSync } from "node:fs";
-import { join } from "node:path";
 import { createInterface } from "node:readline";
 import { loadLlmConfig, type LlmConfig } from "../config/index.js";
+import { printConfigError } from "./config-error.js";
 import { createChat, type ChatTurnTrace, type CreateChatOptions } from "../ai/client.js";
 import { getFullSystemPrompt } from "../ai/system-prompt.js";
 import {
@@ -20,22 +28,72 @@ import {
 } from "../ai/summarize.js";
 import { readHistory, readSummaryState, writeHistory, writeSummaryState } from "./chat-history.js";
 import type { HistoryMessage } from "./chat-history.js";
-import { buildMessages } from "./chat-messages.js";
+import { buildMessages, formatProjectMemorySection } from "./chat-messages.js";
 import { cli, buildProgressMessage } from "../cli/formatting.js";
 import { planSummaryUpdate, splitSummaryChunks } from "./summary-cache.js";
-import { appendChatEvent } from "./chat-events.js";
-import { guardAssistantReply } from "./reply-guard.js";
+import {
+  collapseMessage,
+  estimateMessageTokens,
+  estimateTokens,
+  getContextTokenBudget,
+  planContext,
+  type ContextPlan,
+  type ContextSplit,
+} from "./context-budget.js";
+import { appendChatEvent, appendUsageRecord, type TurnBuild } from "./chat-events.js";
+import { appendCheckpoint, createCheckpointRecorder } from "./checkpoints.js";
+import { guardAssistantReply, isVerifiedWriteEvent } from "./reply-guard.js";
+import { createWriteApprover, type WriteApprover } from "./write-approval.js";
+import { printDryRunReport, type DryRunState } from "./dry-run.js";
+import { createProjectOverlay, type ProjectOverlay } from "../ai/project-overlay.js";
+import type { ProjectMemory, ProjectMemoryStore } from "../ai/project-memory.js";
+import { createProjectMemoryStore, readProjectMemory } from "./memory.js";
+import { createReplyStreamWriter, type ReplyStreamWriter } from "../cli/reply-stream.js";
+import {
+  addUsage,
+  emptyUsage,
+  estimateTurnCost,
+  formatUsage,
+  type TokenUsage,
+} from "../ai/usage.js";
+import { runSlashCommand } from "./slash-commands.js";
+import { DEFAULT_SESSION, isValidSessionName } from "./chat-state.js";
+import { createSession, readActiveSession, sessionExists, writeActiveSession } from "./sessions.js";
+import {
+  createMultilineInput,
+  readInputFile,
+  DISABLE_BRACKETED_PASTE,
+  ENABLE_BRACKETED_PASTE,
+} from "./chat-input.js";
 
 const DEFAULT_MESSAGE =
   "What can you help me build? I’d like to create a static site with Handlebars and the UIPotion components.";
 
 const EXIT_COMMANDS = ["exit", "quit", "q"];
 
+/** Prompt shown while a multiline message is being entered. */
+const CONTINUATION_PROMPT = "... ";
+
+/** Saved as the assistant reply when the user cancels a turn with Ctrl+C. */
+const CANCELLED_TURN_REPLY = "(Turn cancelled by the user before the model finished.)";
+
 /** Default max conversation turns (user + assistant pairs) when not set in config. */
 const DEFAULT_MAX_HISTORY_MESSAGES = 10;
 
+/** Room kept in the context budget for the summary message (default summary output limit). */
+const SUMMARY_RESERVE_TOKENS = 512;
+
+/** Longest message passed to the summarizer; longer ones are collapsed to their start and end. */
+const SUMMARY_INPUT_MAX_TOKENS = 2_000;
+
 function formatChatError(err: unknown): string {
   const msg = err instanceof Error ? err.message : String(err);
+  if (/does not support tools|tools? (calling |use )?(is )?not supported/i.test(msg)) {
+    return (
+      msg +
+      '\n\nThis model cannot call tools. Pick a model with tool calling, or set POTION_KIT_SUPPORTS_TOOLS=false (or "supportsTools": false in ./config.json) to chat without project tools.'
+    );
+  }
   if (/not a chat model|v1\/chat\/completions|v1\/completions/i.test(msg)) {
     return (
       msg +
@@ -45,7 +103,7 @@ function formatChatError(err: unknown): string {
   if (/rate limit|30,000 input tokens per minute/i.test(msg)) {
     return (
       msg +
-      "\n\nWait a minute and try again. To use fewer tokens: run `potion-kit clear` to start a fresh conversation, or shorten your message."
+      "\n\nWait a minute and try again, or allow longer waits with POTION_KIT_MAX_RETRY_WAIT_MS. To use fewer tokens: run `potion-kit clear` to start a fresh conversation, or shorten your message."
     );
   }
   if (/abort|timeout/i.test(msg)) {
@@ -54,49 +112,103 @@ function formatChatError(err: unknown): string {
   return msg;
 }
 
-function printConfigError(): void {
-  const cwd = process.cwd();
-  const envPath = join(cwd, ".env");
-  const examplePath = join(cwd, ".env.example");
-
-  console.error(cli.error("potion-kit: missing LLM configuration.\n"));
-  console.error(cli.error("Create a .env file in this directory (or set env vars) with:"));
-  console.error(cli.error("  POTION_KIT_PROVIDER=openai   # or anthropic, moonshot"));
-  console.error(cli.error("  OPENAI_API_KEY=sk-...       # if provider is openai"));
-  console.error(cli.error("  ANTHROPIC_API_KEY=...       # if provider is anthropic"));
-  console.error(cli.error("  MOONSHOT_API_KEY=...       # if provider is moonshot (Kimi)\n"));
-  if (!existsSync(envPath)) {
-    console.error(cli.error(`No .env found in ${cwd}.`));
-    if (existsSync(examplePath)) {
-      console.error(cli.error("Copy .env.example to .env:  cp .env.example .env"));
-    } else {
-      console.error(cli.error("Add a .env file with the variables above."));
-    }
-  } else {
-    console.error(
-      cli.error(`Found .env in ${cwd}; check POTION_KIT_PROVIDER and the matching API key.`)
-    );
-  }
-  console.error("");
+export interface ChatCommandOptions {
+  /** Review a diff and confirm each file write (overrides approveWrites in config). */
+  approve?: boolean;
+  /** Keep writes in memory and report them at the end; nothing in the project is changed. */
+  dryRun?: boolean;
+  /** With dryRun: save the intended changes as a patch file at this path. */
+  savePatch?: string;
+  /** Read the one-shot message from this file ("-" for stdin), after any message arguments. */
+  inputFile?: string;
+  /** Chat in this named session (created if new) and make it the active one. */
+  session?: string;
 }
 
-export async function runChat(messageParts: string[]): Promise<void> {
-  const config = loadLlmConfig();
-  if (!config) {
+export async function runChat(
+  messageParts: string[],
+  options: ChatCommandOptions = {}
+): Promise<void> {
+  const loaded = loadLlmConfig();
+  if (!loaded) {
     printConfigError();
     process.exit(1);
   }
+  const config: LlmConfig = {
+    ...loaded,
+    approveWrites: options.approve || loaded.approveWrites,
+  };
+  if (config.supportsTools === false) {
+    console.log(
+      cli.intro(
+        `Tool calling is off for ${config.model}: potion-kit cannot read or write project files, so replies are suggestions to apply by hand.\n`
+      )
+    );
+  }
+  if (options.savePatch && !options.dryRun) {
+    console.error(cli.error("potion-kit: --save-patch only works together with --dry-run."));
+    process.exit(1);
+  }
+  const dryRun: DryRunState | null = options.dryRun
+    ? { overlay: createProjectOverlay(), savePatch: options.savePatch }
+    : null;
 
   const cwd = process.cwd();
-  const hasMessage = messageParts.length > 0;
-  const userMessage = hasMessage ? messageParts.join(" ").trim() : "";
+  const runId = new Date().toISOString();
+  const memoryRead = readProjectMemory(cwd);
+  if (!memoryRead.ok) {
+    console.error(
+      cli.error(
+        `potion-kit: ${memoryRead.error} Chatting without project memory; fix it with \`potion-kit memory edit\`.\n`
+      )
+    );
+  }
+  const session = options.session ?? readActiveSession(cwd);
+  if (!isValidSessionName(session)) {
+    console.error(
+      cli.error(
+        `potion-kit: invalid session name "${session}". Use letters, digits, ".", "_" and "-".`
+      )
+    );
+    process.exit(1);
+  }
+  if (options.session !== undefined && !dryRun) {
+    // --session makes the session active (creating it if new) so clear and undo follow it.
+    if (!sessionExists(cwd, session)) createSession(cwd, session);
+    writeActiveSession(cwd, session);
+  }
+  const hasMessage = messageParts.length > 0 || options.inputFile !== undefined;
+  let userMessage = messageParts.join(" ").trim();
+  if (options.inputFile !== undefined) {
+    if (options.inputFile === "-" && config.approveWrites) {
+      console.error(
+        cli.error(
+          "potion-kit: approval mode needs the terminal for answers; pass the message as a file path instead of stdin."
+        )
+      );
+      process.exit(1);
+    }
+    let fileMessage: string;
+    try {
+      fileMessage = (await readInputFile(cwd, options.inputFile)).trim();
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.error(cli.error(`potion-kit: could not read --input-file: ${reason}`));
+      process.exit(1);
+    }
+    if (!fileMessage) {
+      console.error(cli.error(`potion-kit: --input-file ${options.inputFile} is empty.`));
+      process.exit(1);
+    }
+    userMessage = userMessage ? `${userMessage}\n\n${fileMessage}` : fileMessage;
+  }
 
   if (hasMessage) {
-    await runOneShot(cwd, config, userMessage);
+    await runOneShot(cwd, session, config, userMessage, dryRun, runId);
     return;
   }
 
-  await runInteractive(cwd, config);
+  await runInteractive(cwd, session, config, dryRun, runId);
 }
 
 const DEFAULT_PROGRESS_TEXT = "Sending to model…";
@@ -109,6 +221,10 @@ function createProgressReporter(): {
   onProgress: CreateChatOptions["onProgress"];
   progressMessageBuilder: CreateChatOptions["progressMessageBuilder"];
   clear: () => void;
+  /** Stop drawing (e.g. while asking the user something) but keep the current message. */
+  pause: () => void;
+  /** Resume drawing after pause(); no-op if the reporter was cleared meanwhile. */
+  resume: () => void;
 } {
   let intervalId: ReturnType<typeof setInterval> | null = null;
   let currentMessage = DEFAULT_PROGRESS_TEXT;
@@ -124,6 +240,7 @@ function createProgressReporter(): {
 
   const HIDE_CURSOR = "\x1b[?25l";
   const SHOW_CURSOR = "\x1b[?25h";
+  let paused = false;
 
   return {
     start: () => {
@@ -137,30 +254,87 @@ function createProgressReporter(): {
     },
     progressMessageBuilder: buildProgressMessage,
     clear: () => {
+      paused = false;
       if (intervalId !== null) {
         clearInterval(intervalId);
         intervalId = null;
       }
       process.stdout.write("\r\x1b[2K\r" + SHOW_CURSOR);
     },
+    pause: () => {
+      if (intervalId === null) return;
+      clearInterval(intervalId);
+      intervalId = null;
+      paused = true;
+      process.stdout.write("\r\x1b[2K\r" + SHOW_CURSOR);
+    },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      process.stdout.write(HIDE_CURSOR);
+      intervalId = setInterval(tick, SPIN_INTERVAL_MS);
+    },
   };
 }
 
-async function runOneShot(cwd: string, config: LlmConfig, userMessage: string): Promise<void> {
+/** Ask a single question on a short-lived readline (one-shot mode has no open prompt). */
+function askOnce(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+async function runOneShot(
+  cwd: string,
+  session: string,
+  config: LlmConfig,
+  userMessage: string,
+  dryRun: DryRunState | null,
+  runId: string
+): Promise<void> {
   const systemPrompt = await getFullSystemPrompt();
   const progress = createProgressReporter();
-  const { chat, traceState } = createTracedChat(config, progress);
-  const history = readHistory(cwd);
+  const memoryStore = createProjectMemoryStore(cwd, !!dryRun);
+  const { chat, traceState } = createTracedChat(config, progress, {
+    ask: askOnce,
+    overlay: dryRun?.overlay,
+    memory: memoryStore,
+  });
+  const history = readHistory(cwd, session);
   const message = userMessage || DEFAULT_MESSAGE;
   const maxHistory = config.maxHistoryMessages ?? DEFAULT_MAX_HISTORY_MESSAGES;
-  const summaryResult = await getCachedOrFreshSummary(cwd, config, history, maxHistory, progress);
+  const memoryRead = memoryStore.read();
+  const memory = memoryRead.ok ? memoryRead.memory : null;
+  const context = planTurnContext(config, systemPrompt, history, message, memory);
+  const summaryResult = await getCachedOrFreshSummary(
+    cwd,
+    session,
+    config,
+    history,
+    history.length - context.tailStart,
+    progress,
+    { persist: !dryRun }
+  );
 
-  const messages = buildMessages(systemPrompt, history, message, maxHistory, summaryResult.summary);
+  const messages = buildMessages(
+    systemPrompt,
+    history,
+    message,
+    maxHistory,
+    summaryResult.summary,
+    context,
+    memory
+  );
 
   try {
     console.log(cli.user("You: ") + message);
     const result = await sendTurnAndPersist({
       cwd,
+      session,
       chat,
       progress,
       traceState,
@@ -168,6 +342,12 @@ async function runOneShot(cwd: string, config: LlmConfig, userMessage: string):
       userMessage: message,
       messages,
       summarySource: summaryResult.source,
+      summaryUsage: summaryResult.usage,
+      summaryModel: summaryResult.model,
+      context: context.split,
+      model: config.model,
+      runId,
+      persist: !dryRun,
     });
     if (result.reply.trim()) {
       console.log("\n" + cli.separator());
@@ -183,90 +363,252 @@ async function runOneShot(cwd: string, config: LlmConfig, userMessage: string):
         )
       );
     }
+    const usage = getTurnUsage(config, result.trace, summaryResult);
+    const footer = formatTurnFooter(config, result.trace, usage);
+    if (footer) console.log("\n" + cli.intro(footer));
+    if (dryRun) printDryRunReport(cwd, dryRun);
   } catch (err) {
     console.error(cli.error("potion-kit: chat failed: " + formatChatError(err)));
     process.exit(1);
   }
 }
 
-async function runInteractive(cwd: string, config: LlmConfig): Promise<void> {
+async function runInteractive(
+  cwd: string,
+  session: string,
+  config: LlmConfig,
+  dryRun: DryRunState | null,
+  runId: string
+): Promise<void> {
   const systemPrompt = await getFullSystemPrompt();
   const progress = createProgressReporter();
-  const { chat, traceState } = createTracedChat(config, progress);
-  let history: HistoryMessage[] = readHistory(cwd);
+  let history: HistoryMessage[] = readHistory(cwd, session);
+  /** Changes when the user switches models with /model. */
+  let sessionConfig = config;
+  const sessionTraces: ChatTurnTrace[] = [];
+  /** Tokens used in this session; cost stays undefined once a turn had no known price. */
+  const sessionUsage: { usage: TokenUsage; cost: number | undefined } = {
+    usage: emptyUsage(),
+    cost: 0,
+  };
 
   const rl = createInterface({ input: process.stdin, output: process.stdout });
+  /** Set while a turn is running; Ctrl+C aborts it instead of quitting. */
+  let activeTurn: AbortController | null = null;
+  const chatIo: Parameters<typeof createTracedChat>[2] = {
+    ask: (question) =>
+      new Promise((resolve, reject) => {
+        const signal = activeTurn?.signal;
+        if (!signal) {
+          rl.question(question, resolve);
+          return;
+        }
+        // Cancelling the turn also drops a pending approval question.
+        if (signal.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+        rl.question(question, { signal }, resolve);
+      }),
+    overlay: dryRun?.overlay,
+    memory: createProjectMemoryStore(cwd, !!dryRun),
+  };
+  let { chat, traceState } = createTracedChat(sessionConfig, progress, chatIo);
+
+  function saveOrReport(): void {
+    if (dryRun) printDryRunReport(cwd, dryRun);
+    else writeHistory(cwd, history, session);
+  }
 
   function saveAndExit(): void {
-    writeHistory(cwd, history);
+    saveOrReport();
     rl.close();
     process.exit(0);
   }
 
-  process.on("SIGINT", () => {
+  function onInterrupt(): void {
+    if (activeTurn) {
+      if (!activeTurn.signal.aborted) {
+        progress.onProgress?.("Cancelling this turn…");
+        activeTurn.abort();
+      }
+      return;
+    }
+    if (multiline.isPending()) {
+      multiline.reset();
+      promptQuestion?.abort();
+      process.stdout.write("\n");
+      prompt();
+      return;
+    }
     rl.close();
-    writeHistory(cwd, history);
+    saveOrReport();
     process.exit(0);
-  });
+  }
 
-  console.log(cli.intro('Chat with the AI to build your site. Type "exit" or Ctrl+C to quit.\n'));
+  // readline reports Ctrl+C on a TTY; the process signal covers piped input.
+  rl.on("SIGINT", onInterrupt);
+  process.on("SIGINT", onInterrupt);
+
+  console.log(
+    cli.intro(
+      'Chat with the AI to build your site. Type /help for commands, "exit" or Ctrl+C to quit; Ctrl+C during a reply cancels that turn.\n'
+    )
+  );
+  if (session !== DEFAULT_SESSION) {
+    console.log(cli.intro(`Session: ${session} (${history.length} messages so far)\n`));
+  }
+  if (dryRun) {
+    console.log(
+      cli.intro(
+        "Dry run: file writes stay in memory and chat history is not saved. Intended changes are listed when you exit.\n"
+      )
+    );
+  }
+
+  const multiline = createMultilineInput();
+  let pasting = false;
+  /** The pending prompt question; aborted when Ctrl+C drops a half-typed multiline message. */
+  let promptQuestion: AbortController | null = null;
+  if (process.stdin.isTTY && process.stdout.isTTY) {
+    // readline reports bracketed paste markers as keypresses but does not act on them.
+    process.stdin.on("keypress", (_text: string | undefined, key?: { name?: string }) => {
+      if (key?.name === "paste-start") pasting = true;
+      else if (key?.name === "paste-end") pasting = false;
+    });
+    process.stdout.write(ENABLE_BRACKETED_PASTE);
+    process.once("exit", () => process.stdout.write(DISABLE_BRACKETED_PASTE));
+  }
 
   function prompt(): void {
-    rl.question(cli.user("You: "), async (line) => {
-      const input = line.trim();
-      if (!input || EXIT_COMMANDS.includes(input.toLowerCase())) {
-        saveAndExit();
-        return;
-      }
+    promptQuestion = new AbortController();
+    const label = multiline.isPending() ? CONTINUATION_PROMPT : "You: ";
+    // Re-ask synchronously so lines of a paste are not dropped between questions.
+    rl.question(cli.user(label), { signal: promptQuestion.signal }, (line) => {
+      const message = multiline.push(line, { pasted: pasting });
+      if (message === null) prompt();
+      else void handleInput(message.trim());
+    });
+  }
 
-      try {
-        const maxHistory = config.maxHistoryMessages ?? DEFAULT_MAX_HISTORY_MESSAGES;
-        const summaryResult = await getCachedOrFreshSummary(
-          cwd,
-          config,
-          history,
-          maxHistory,
-          progress
-        );
-        const messages = buildMessages(
-          systemPrompt,
-          history,
-          input,
-          maxHistory,
-          summaryResult.summary
-        );
-        const result = await sendTurnAndPersist({
-          cwd,
-          chat,
-          progress,
-          traceState,
-          history,
-          userMessage: input,
-          messages,
-          summarySource: summaryResult.source,
-        });
-        history = result.nextHistory;
-        if (result.reply.trim()) {
-          console.log("\n" + cli.separator());
-          console.log(cli.agentLabel("Potion-kit:") + "\n");
-          console.log(cli.agentReply(result.reply) + "\n");
-          if (result.guarded.guarded) {
-            console.log(cli.intro(buildUnverifiedCompletionGuidance(result.trace)) + "\n");
-          }
-        } else {
-          console.log(
-            "\n" +
-              cli.intro(
-                'The model didn\'t return any text this time (it may have only run tools). Try asking again or rephrase, e.g. "What were we building?" or "Summarize our plan."'
-              ) +
-              "\n"
-          );
+  async function handleInput(input: string): Promise<void> {
+    if (!input || EXIT_COMMANDS.includes(input.toLowerCase())) {
+      saveAndExit();
+      return;
+    }
+    const handledLocally = runSlashCommand(input, {
+      cwd,
+      session,
+      dryRun: dryRun !== null,
+      getHistory: () => history,
+      setHistory: (next) => {
+        history = next;
+      },
+      getModel: () => sessionConfig.model,
+      setModel: (model) => {
+        sessionConfig = { ...sessionConfig, model };
+        ({ chat, traceState } = createTracedChat(sessionConfig, progress, chatIo));
+      },
+      getSessionTraces: () => sessionTraces,
+      getSessionUsage: () => sessionUsage,
+    });
+    if (handledLocally) {
+      console.log("");
+      prompt();
+      return;
+    }
+
+    const turn = new AbortController();
+    activeTurn = turn;
+    try {
+      const maxHistory = sessionConfig.maxHistoryMessages ?? DEFAULT_MAX_HISTORY_MESSAGES;
+      const memoryRead = chatIo.memory?.read();
+      const memory = memoryRead?.ok ? memoryRead.memory : null;
+      const context = planTurnContext(sessionConfig, systemPrompt, history, input, memory);
+      const summaryResult = await getCachedOrFreshSummary(
+        cwd,
+        session,
+        sessionConfig,
+        history,
+        history.length - context.tailStart,
+        progress,
+        { persist: !dryRun, abortSignal: turn.signal }
+      );
+      const messages = buildMessages(
+        systemPrompt,
+        history,
+        input,
+        maxHistory,
+        summaryResult.summary,
+        context,
+        memory
+      );
+      const result = await sendTurnAndPersist({
+        cwd,
+        session,
+        chat,
+        progress,
+        traceState,
+        history,
+        userMessage: input,
+        messages,
+        summarySource: summaryResult.source,
+        summaryUsage: summaryResult.usage,
+        summaryModel: summaryResult.model,
+        context: context.split,
+        model: sessionConfig.model,
+        runId,
+        persist: !dryRun,
+        streamReply: true,
+        abortSignal: turn.signal,
+      });
+      history = result.nextHistory;
+      sessionTraces.push(result.trace);
+      if (result.aborted) {
+        console.log("\n" + cli.intro(buildCancelledTurnMessage(result.trace)) + "\n");
+      } else if (result.streamed) {
+        console.log("");
+        if (result.guarded.guarded) {
+          console.log(cli.intro(buildUnverifiedCompletionGuidance(result.trace)) + "\n");
         }
-      } catch (err) {
+      } else if (result.reply.trim()) {
+        console.log("\n" + cli.separator());
+        console.log(cli.agentLabel("Potion-kit:") + "\n");
+        console.log(cli.agentReply(result.reply) + "\n");
+        if (result.guarded.guarded) {
+          console.log(cli.intro(buildUnverifiedCompletionGuidance(result.trace)) + "\n");
+        }
+      } else {
+        console.log(
+          "\n" +
+            cli.intro(
+              'The model didn\'t return any text this time (it may have only run tools). Try asking again or rephrase, e.g. "What were we building?" or "Summarize our plan."'
+            ) +
+            "\n"
+        );
+      }
+      const usage = getTurnUsage(sessionConfig, result.trace, summaryResult);
+      if (usage) {
+        sessionUsage.usage = addUsage(sessionUsage.usage, usage.usage);
+        sessionUsage.cost =
+          sessionUsage.cost === undefined || usage.cost === undefined
+            ? undefined
+            : sessionUsage.cost + usage.cost;
+      }
+      const footer = formatTurnFooter(sessionConfig, result.trace, usage);
+      if (footer) console.log(cli.intro(footer) + "\n");
+    } catch (err) {
+      if (turn.signal.aborted) {
+        // Cancelled before the request was sent (e.g. while summarizing): nothing to record.
+        console.log("\n" + cli.intro("Turn cancelled; nothing was sent.") + "\n");
+      } else {
         console.error(cli.error("potion-kit: chat failed: " + formatChatError(err)));
       }
-      prompt();
-    });
+    } finally {
+      activeTurn = null;
+    }
+    prompt();
   }
 
   prompt();
@@ -281,11 +623,40 @@ function normalizeTurnTrace(trace: ChatTurnTrace | null): ChatTurnTrace {
   };
 }
 
+/** Per-turn state filled in by chat callbacks: the tool trace, file checkpoints, approvals. */
+interface TraceState {
+  current: ChatTurnTrace | null;
+  checkpoint: ReturnType<typeof createCheckpointRecorder>;
+  approval: WriteApprover | null;
+  /** Set for turns whose reply is printed while it streams in. */
+  stream: ReplyStreamWriter | null;
+  /** Last run_site_build of the current turn. */
+  build: TurnBuild | null;
+}
+
 function createTracedChat(
   config: LlmConfig,
-  progress: ReturnType<typeof createProgressReporter>
-): { chat: ReturnType<typeof createChat>; traceState: { current: ChatTurnTrace | null } } {
-  const traceState = { current: null as ChatTurnTrace | null };
+  progress: ReturnType<typeof createProgressReporter>,
+  io: {
+    /** Ask the user a question (approval mode). */
+    ask: (question: string) => Promise<string>;
+    /** Dry run: route writes into this overlay instead of the project. */
+    overlay?: ProjectOverlay;
+    /** Where update_project_memory keeps the project memory. */
+    memory?: ProjectMemoryStore;
+  }
+): { chat: ReturnType<typeof createChat>; traceState: TraceState } {
+  const { ask, overlay, memory } = io;
+  const approval = config.approveWrites
+    ? createWriteApprover({ ask, pause: progress.pause, resume: progress.resume })
+    : null;
+  const traceState: TraceState = {
+    current: null,
+    checkpoint: createCheckpointRecorder(),
+    approval,
+    stream: null,
+    build: null,
+  };
   const chat = createChat(config, {
     onProgress: progress.onProgress,
     progressMessageBuilder: progress.progressMessageBuilder,
@@ -293,56 +664,259 @@ function createTracedChat(
     onTurnTrace: (trace) => {
       traceState.current = trace;
     },
+    onTextDelta: (delta) => traceState.stream?.onTextDelta(delta),
+    onTextEnd: () => traceState.stream?.endBlock(),
+    toolOptions: {
+      onBeforeWrite: (change) => traceState.checkpoint.record(change),
+      approveWrite: approval?.approveWrite,
+      approveCommand: approval?.approveCommand,
+      overlay,
+      memory,
+      onBuild: (result) => {
+        traceState.build = {
+          passed: result.passed,
+          errorCount: result.errors.length,
+          ...(result.timedOut ? { timedOut: true } : {}),
+        };
+      },
+    },
   });
   return { chat, traceState };
 }
 
 async function sendTurnAndPersist(params: {
   cwd: string;
+  /** Chat session whose history, events and checkpoints the turn is saved to. */
+  session: string;
   chat: ReturnType<typeof createChat>;
   progress: ReturnType<typeof createProgressReporter>;
-  traceState: { current: ChatTurnTrace | null };
+  traceState: TraceState;
   history: HistoryMessage[];
   userMessage: string;
   messages: ReturnType<typeof buildMessages>;
   summarySource: SummarySource;
+  /** Tokens spent summarizing older turns before this one. */
+  summaryUsage?: TokenUsage;
+  /** Model used for that summarization (may differ from the chat model). */
+  summaryModel?: string;
+  /** How the request context was fitted into the token budget. */
+  context?: ContextSplit;
+  /** Configured chat model; the event records trace.model instead when a fallback answered. */
+  model: string;
+  /** Identifies the chat run on the event. */
+  runId: string;
+  /** False in dry runs: keep the turn in memory only (no history, events or checkpoints). */
+  persist: boolean;
+  /** Print the reply while it streams in instead of leaving it to the caller. */
+  streamReply?: boolean;
+  /** Cancels the turn; the partial turn is still recorded with finishReason "aborted". */
+  abortSignal?: AbortSignal;
 }): Promise<{
   reply: string;
+  /** True when the user cancelled the turn; reply is empty and trace holds the tools that ran. */
+  aborted: boolean;
+  /** True when the reply text was already printed while streaming. */
+  streamed: boolean;
   guarded: ReturnType<typeof guardAssistantReply>;
   nextHistory: HistoryMessage[];
   trace: ChatTurnTrace;
 }> {
-  const { cwd, chat, progress, traceState, history, userMessage, messages, summarySource } = params;
+  const {
+    cwd,
+    session,
+    chat,
+    progress,
+    traceState,
+    history,
+    userMessage,
+    messages,
+    summarySource,
+    summaryUsage,
+    summaryModel,
+    context,
+    model,
+    runId,
+    persist,
+    streamReply = false,
+    abortSignal,
+  } = params;
+  const timestamp = new Date().toISOString();
   progress.start();
   try {
     traceState.current = null;
-    const reply = await chat.send(messages);
+    traceState.build = null;
+    traceState.checkpoint.reset();
+    traceState.approval?.resetForTurn();
+    traceState.stream = streamReply
+      ? createReplyStreamWriter({
+          header: "\n" + cli.separator() + "\n" + cli.agentLabel("Potion-kit:") + "\n\n",
+          pause: progress.pause,
+          resume: progress.resume,
+        })
+      : null;
+    let reply = "";
+    let aborted = false;
+    try {
+      reply = await chat.send(messages, { abortSignal, streamed: streamReply });
+    } catch (err) {
+      if (!abortSignal?.aborted) {
+        // No event for a failed turn, but its summary and finished steps were still paid for.
+        // Set by the chat callback during send (TypeScript still sees the reset above).
+        const failed = traceState.current as ChatTurnTrace | null;
+        const usage = failed?.stepUsage?.length ? failed.usage : undefined;
+        if (persist && (usage || summaryUsage)) {
+          appendUsageRecord(
+            cwd,
+            { timestamp, model: failed?.model ?? model, usage, summaryUsage, summaryModel },
+            session
+          );
+        }
+        throw err;
+      }
+      aborted = true;
+    } finally {
+      traceState.stream?.finish();
+      // Checkpoint even when the turn fails: files may already have been written.
+      saveTurnCheckpoint(cwd, session, timestamp, history.length, traceState);
+    }
     const guarded = guardAssistantReply(reply, traceState.current);
-    const replyToSave = guarded.replyToSave || "(No text reply from the model.)";
+    const replyToSave = aborted
+      ? CANCELLED_TURN_REPLY
+      : guarded.replyToSave || "(No text reply from the model.)";
     const nextHistory: HistoryMessage[] = [
       ...history,
       { role: "user" as const, content: userMessage },
       { role: "assistant" as const, content: replyToSave },
     ];
-    writeHistory(cwd, nextHistory);
-    const trace = normalizeTurnTrace(traceState.current);
-    appendChatEvent(cwd, {
-      timestamp: new Date().toISOString(),
+    const trace = aborted
+      ? { ...normalizeTurnTrace(traceState.current), finishReason: "aborted" }
+      : normalizeTurnTrace(traceState.current);
+    if (persist) {
+      writeHistory(cwd, nextHistory, session);
+      appendChatEvent(
+        cwd,
+        {
+          timestamp,
+          trace,
+          hasVerifiedWrite: aborted
+            ? trace.toolEvents.some(isVerifiedWriteEvent)
+            : guarded.hasVerifiedWrite,
+          replyWasGuarded: guarded.guarded,
+          summarySource,
+          historyLength: history.length,
+          checkpointId: traceState.checkpoint.files().length > 0 ? timestamp : undefined,
+          model: trace.model ?? model,
+          runId,
+          summaryUsage,
+          summaryModel,
+          context,
+          build: traceState.build ?? undefined,
+        },
+        session
+      );
+    }
+    return {
+      reply,
+      aborted,
+      streamed: traceState.stream?.hasStreamed() ?? false,
+      guarded,
+      nextHistory,
       trace,
-      hasVerifiedWrite: guarded.hasVerifiedWrite,
-      replyWasGuarded: guarded.guarded,
-      summarySource,
-    });
-    return { reply, guarded, nextHistory, trace };
+    };
   } finally {
     progress.clear();
   }
 }
 
+/** Fit the turn's context into the model's token budget; recent messages that don't fit are summarized. */
+function planTurnContext(
+  config: LlmConfig,
+  systemPrompt: string,
+  history: HistoryMessage[],
+  userMessage: string,
+  memory: ProjectMemory | null
+): ContextPlan {
+  return planContext(history, {
+    maxHistoryMessages: config.maxHistoryMessages ?? DEFAULT_MAX_HISTORY_MESSAGES,
+    budget: getContextTokenBudget(config),
+    reservedTokens:
+      estimateTokens(systemPrompt) +
+      (memory ? estimateTokens(formatProjectMemorySection(memory)) : 0) +
+      estimateMessageTokens({ content: userMessage }) +
+      (config.summaryMaxOutputTokens ?? SUMMARY_RESERVE_TOKENS),
+  });
+}
+
+function saveTurnCheckpoint(
+  cwd: string,
+  session: string,
+  id: string,
+  historyLength: number,
+  traceState: TraceState
+): void {
+  const files = traceState.checkpoint.files();
+  if (files.length === 0) return;
+  appendCheckpoint(cwd, { id, historyLength, files }, session);
+}
+
+/**
+ * Tokens (chat plus summarization) and estimated cost of a turn; null if usage is unknown.
+ * Summarization is priced with the summary model's price.
+ */
+function getTurnUsage(
+  config: LlmConfig,
+  trace: ChatTurnTrace,
+  summary: { usage?: TokenUsage; model?: string }
+): { usage: TokenUsage; cost: number | undefined } | null {
+  if (!trace.usage && !summary.usage) return null;
+  const usage = addUsage(trace.usage ?? emptyUsage(), summary.usage ?? emptyUsage());
+  return {
+    usage,
+    cost: estimateTurnCost(config.prices ?? {}, {
+      model: trace.model ?? config.model,
+      usage: trace.usage,
+      summaryModel: summary.model,
+      summaryUsage: summary.usage,
+    }),
+  };
+}
+
+/** Token footer, led by the fallback model when the configured one did not answer; null if empty. */
+function formatTurnFooter(
+  config: LlmConfig,
+  trace: ChatTurnTrace,
+  turn: { usage: TokenUsage; cost: number | undefined } | null
+): string | null {
+  const usedFallback =
+    trace.model !== undefined &&
+    (trace.model !== config.model || (trace.provider ?? config.provider) !== config.provider);
+  const parts = [
+    ...(usedFallback
+      ? [`Answered by fallback ${trace.provider ? `${trace.provider}/` : ""}${trace.model}`]
+      : []),
+    ...(turn ? [`Tokens: ${formatUsage(turn.usage, turn.cost)}`] : []),
+  ];
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+function buildCancelledTurnMessage(trace: ChatTurnTrace): string {
+  const ran = trace.toolEvents.map((event) =>
+    event.path ? `${event.toolName} ${event.path}` : event.toolName
+  );
+  const writes = trace.toolEvents.filter(isVerifiedWriteEvent).length;
+  return [
+    "Turn cancelled.",
+    ran.length > 0 ? `Tools that ran: ${ran.join(", ")}.` : "No tools ran.",
+    writes > 0
+      ? "Files written before cancelling are kept; use `potion-kit undo` to roll them back."
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
 function buildUnverifiedCompletionGuidance(trace: ChatTurnTrace): string {
-  const successfulWrites = trace.toolEvents.filter(
-    (event) => event.toolName === "write_project_file" && event.ok === true
-  ).length;
+  const successfulWrites = trace.toolEvents.filter(isVerifiedWriteEvent).length;
   const successfulReads = trace.toolEvents.filter(
     (event) => event.toolName === "read_project_file" && event.ok === true
   ).length;
@@ -351,7 +925,7 @@ function buildUnverifiedCompletionGuidance(trace: ChatTurnTrace): string {
 
   return [
     `Unverified completion: this turn recorded ${successfulWrites} successful file writes (reads: ${successfulReads}; recent tools: ${recentToolsText}).`,
-    'Ask the assistant: "Apply the requested fix now using write_project_file, then list each changed path."',
+    'Ask the assistant: "Apply the requested fix now using edit_project_file or write_project_file, then list each changed path."',
     "Then verify with npm run build (and npm test if available).",
   ].join(" ");
 }
@@ -367,20 +941,74 @@ function getRecentUniqueTools(trace: ChatTurnTrace, limit: number): string[] {
   return out.reverse();
 }
 
+interface SummaryResult {
+  summary: string | null;
+  source: SummarySource;
+  usage?: TokenUsage;
+  /** Summary model that was called, if any. */
+  model?: string;
+  /** True when this summary was saved as the new cache. */
+  persisted: boolean;
+}
+
+/**
+ * Re-summarize the conversation before the recent tail from scratch and save it as the cache
+ * (`potion-kit summary refresh`). The tail is planned as for a new turn, so the next turn can
+ * reuse the result.
+ */
+export async function refreshConversationSummary(
+  cwd: string,
+  session: string,
+  config: LlmConfig
+): Promise<SummaryResult> {
+  const systemPrompt = await getFullSystemPrompt();
+  const history = readHistory(cwd, session);
+  const memoryRead = readProjectMemory(cwd);
+  const memory = memoryRead.ok ? memoryRead.memory : null;
+  const context = planTurnContext(config, systemPrompt, history, "", memory);
+  return getCachedOrFreshSummary(
+    cwd,
+    session,
+    config,
+    history,
+    history.length - context.tailStart,
+    createProgressReporter(),
+    { refresh: true }
+  );
+}
+
 async function getCachedOrFreshSummary(
   cwd: string,
+  session: string,
   config: LlmConfig,
   history: HistoryMessage[],
-  maxHistory: number,
-  progress: ReturnType<typeof createProgressReporter>
-): Promise<{ summary: string | null; source: SummarySource }> {
-  const plan = planSummaryUpdate(history, maxHistory, readSummaryState(cwd));
-  if (plan.reuseCachedSummary) return { summary: plan.reuseCachedSummary, source: "cache-reuse" };
-
-  if (plan.summarizeFrom >= plan.middleEnd) return { summary: null, source: "none" };
-  const unsummarizedMiddle = history.slice(plan.summarizeFrom, plan.middleEnd);
+  /** Messages sent verbatim after the summary; everything before them is summarized. */
+  tailLength: number,
+  progress: ReturnType<typeof createProgressReporter>,
+  options: {
+    /** False in dry runs: compute the summary but do not update the cache on disk. */
+    persist?: boolean;
+    /** Ignore the cache and summarize everything before the tail from scratch. */
+    refresh?: boolean;
+    /** Ctrl+C during the turn: stop summarizing and reject with the abort reason. */
+    abortSignal?: AbortSignal;
+  } = {}
+): Promise<SummaryResult> {
+  const { persist = true, refresh = false, abortSignal } = options;
+  const cached = refresh ? null : readSummaryState(cwd, session);
+  const plan = planSummaryUpdate(history, tailLength, cached);
+  if (plan.reuseCachedSummary) {
+    return { summary: plan.reuseCachedSummary, source: "cache-reuse", persisted: false };
+  }
+
+  if (plan.summarizeFrom >= plan.middleEnd)
+    return { summary: null, source: "none", persisted: false };
+  // Messages moved out of the tail can be huge pastes; the summarizer only needs their gist.
+  const unsummarizedMiddle = history
+    .slice(plan.summarizeFrom, plan.middleEnd)
+    .map((message) => collapseMessage(message, SUMMARY_INPUT_MAX_TOKENS));
   const chunks = splitSummaryChunks(unsummarizedMiddle);
-  if (chunks.length === 0) return { summary: null, source: "none" };
+  if (chunks.length === 0) return { summary: null, source: "none", persisted: false };
 
   progress.start();
   progress.onProgress?.("Summarizing conversation…");
@@ -390,6 +1018,8 @@ async function getCachedOrFreshSummary(
     let usedPrimary = false;
     let usedRetry = false;
     let usedFallback = false;
+    let usage: TokenUsage | undefined;
+    let model: string | undefined;
 
     for (let i = 0; i < chunks.length; i += 1) {
       progress.onProgress?.(`Summarizing conversation… (${i + 1}/${chunks.length})`);
@@ -404,10 +1034,16 @@ async function getCachedOrFreshSummary(
       let summarized = "";
       let chunkSource: SummarySource | null = null;
       try {
-        const modelSummary = await summarizeConversationWithRetry(config, summaryInput);
+        const modelSummary = await summarizeConversationWithRetry(config, summaryInput, {
+          onProgress: progress.onProgress,
+          abortSignal,
+        });
         summarized = modelSummary.summary.trim();
         chunkSource = modelSummary.source;
+        usage = addUsage(usage ?? emptyUsage(), modelSummary.usage);
+        model = modelSummary.model;
       } catch (err) {
+        if (abortSignal?.aborted) throw err;
         summarized = "";
         chunkSource = null;
         console.warn(
@@ -443,19 +1079,26 @@ async function getCachedOrFreshSummary(
             ? "cache-reuse"
             : "none";
 
-    if (!finalSummary) return { summary: null, source: finalSource };
+    if (!finalSummary)
+      return { summary: null, source: finalSource, usage, model, persisted: false };
     if (processedChunks !== chunks.length) {
       // Avoid advancing cache coverage unless every chunk was successfully summarized.
-      return { summary: finalSummary, source: finalSource };
+      return { summary: finalSummary, source: finalSource, usage, model, persisted: false };
     }
 
-    writeSummaryState(cwd, {
-      summary: finalSummary,
-      summarizedUntil: plan.middleEnd,
-      firstUserMessage: plan.firstUserMessage,
-      incrementalUpdates: plan.nextIncrementalUpdates,
-    });
-    return { summary: finalSummary, source: finalSource };
+    if (persist) {
+      writeSummaryState(
+        cwd,
+        {
+          summary: finalSummary,
+          summarizedUntil: plan.middleEnd,
+          firstUserMessage: plan.firstUserMessage,
+          incrementalUpdates: plan.nextIncrementalUpdates,
+        },
+        session
+      );
+    }
+    return { summary: finalSummary, source: finalSource, usage, model, persisted: persist };
   } finally {
     progress.clear();
   }
@@ -0,0 +1,133 @@
+/**
+ * Per-turn file checkpoints: before a tool writes a project file, its previous content
+ * (or "did not exist") is recorded so `potion-kit undo` can restore it. Stored in
+ * .potion-kit/checkpoints.json (per chat session), one entry per turn that changed files.
+ */
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve } from "node:path";
+import type { ProjectFileChange } from "../ai/tools.js";
+import { CHAT_STATE_DIR, getChatStateDir } from "./chat-state.js";
+
+export interface FileSnapshot {
+  /** Path relative to the project root. */
+  path: string;
+  /** Content before the turn, or null if the file did not exist. */
+  previousContent: string | null;
+}
+
+export interface TurnCheckpoint {
+  /** Matches the checkpointId of the ChatTurnEvent for the same turn. */
+  id: string;
+  /** History length before the turn; undo trims chat-history.json back to this. */
+  historyLength: number;
+  files: FileSnapshot[];
+}
+
+export const CHECKPOINTS_FILE = "checkpoints.json";
+const MAX_CHECKPOINTS = 50;
+
+function getCheckpointsPath(cwd: string, session?: string): string {
+  return join(getChatStateDir(cwd, session), CHECKPOINTS_FILE);
+}
+
+/**
+ * Collects the first snapshot of each file changed during a turn. Later writes to the
+ * same path are ignored so undo restores the content from before the turn started.
+ */
+export function createCheckpointRecorder(): {
+  reset: () => void;
+  record: (change: ProjectFileChange) => void;
+  files: () => FileSnapshot[];
+} {
+  let snapshots = new Map<string, FileSnapshot>();
+  return {
+    reset: () => {
+      snapshots = new Map();
+    },
+    record: (change) => {
+      if (snapshots.has(change.path)) return;
+      snapshots.set(change.path, { path: change.path, previousContent: change.previousContent });
+    },
+    files: () => [...snapshots.values()],
+  };
+}
+
+export function readCheckpoints(cwd: string, session?: string): TurnCheckpoint[] {
+  const path = getCheckpointsPath(cwd, session);
+  if (!existsSync(path)) return [];
+  try {
+    const raw = readFileSync(path, "utf-8");
+    const data = JSON.parse(raw) as unknown;
+    if (!Array.isArray(data)) return [];
+    return data.filter(isTurnCheckpoint);
+  } catch {
+    return [];
+  }
+}
+
+export function writeCheckpoints(
+  cwd: string,
+  checkpoints: TurnCheckpoint[],
+  session?: string
+): void {
+  const dir = getChatStateDir(cwd, session);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(
+    getCheckpointsPath(cwd, session),
+    JSON.stringify(checkpoints.slice(-MAX_CHECKPOINTS), null, 2),
+    "utf-8"
+  );
+}
+
+export function appendCheckpoint(cwd: string, checkpoint: TurnCheckpoint, session?: string): void {
+  writeCheckpoints(cwd, [...readCheckpoints(cwd, session), checkpoint], session);
+}
+
+export function clearCheckpoints(cwd: string, session?: string): void {
+  const path = getCheckpointsPath(cwd, session);
+  if (existsSync(path)) writeFileSync(path, "[]", "utf-8");
+}
+
+/**
+ * Put every file in the checkpoint back to its recorded state: rewrite previous content,
+ * or delete files that did not exist before the turn. Returns the restored paths.
+ * Snapshots pointing outside the project root are skipped.
+ */
+export function restoreCheckpoint(cwd: string, checkpoint: TurnCheckpoint): string[] {
+  const root = resolve(cwd);
+  const restored: string[] = [];
+  for (const file of checkpoint.files) {
+    const absolute = resolve(root, file.path);
+    const rel = relative(root, absolute);
+    if (!rel || rel.startsWith("..") || rel.split(/[\\/]/).includes(CHAT_STATE_DIR)) continue;
+    if (file.previousContent === null) {
+      if (existsSync(absolute)) rmSync(absolute, { force: true });
+    } else {
+      mkdirSync(dirname(absolute), { recursive: true });
+      writeFileSync(absolute, file.previousContent, "utf-8");
+    }
+    restored.push(file.path);
+  }
+  return restored;
+}
+
+function isTurnCheckpoint(value: unknown): value is TurnCheckpoint {
+  if (!value || typeof value !== "object") return false;
+  const obj = value as TurnCheckpoint;
+  if (
+    typeof obj.id !== "string" ||
+    typeof obj.historyLength !== "number" ||
+    !Number.isFinite(obj.historyLength) ||
+    obj.historyLength < 0 ||
+    !Array.isArray(obj.files)
+  ) {
+    return false;
+  }
+  return obj.files.every(
+    (f) =>
+      f &&
+      typeof f === "object" &&
+      typeof f.path === "string" &&
+      (f.previousContent === null || typeof f.previousContent === "string")
+  );
+}
@@ -1,15 +1,26 @@
 /**
- * Clear command: delete chat history for the current project so the next
+ * Clear command: delete chat history of the active session so the next
  * chat run starts a new conversation.
  */
 import { clearHistory } from "./chat-history.js";
 import { clearChatEvents } from "./chat-events.js";
+import { clearCheckpoints } from "./checkpoints.js";
+import { DEFAULT_SESSION } from "./chat-state.js";
+import { readActiveSession } from "./sessions.js";
+
+/** Clear history, cached summary, turn events and file checkpoints of a session at cwd. */
+export function clearChatState(cwd: string, session?: string): void {
+  clearHistory(cwd, session);
+  clearChatEvents(cwd, session);
+  clearCheckpoints(cwd, session);
+}
 
 export async function runClear(): Promise<void> {
-  const cwd = process.cwd();
-  clearHistory(cwd);
-  clearChatEvents(cwd);
+  const session = readActiveSession(process.cwd());
+  clearChatState(process.cwd(), session);
   console.log(
-    "Chat history cleared for this project. The next chat will start a new conversation."
+    session === DEFAULT_SESSION
+      ? "Chat history cleared for this project. The next chat will start a new conversation."
+      : `Chat history cleared for session "${session}". The next chat will start a new conversation.`
   );
 }
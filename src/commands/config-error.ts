@@ -0,0 +1,66 @@
+/**
+ * Config error output shared by the commands that need an LLM (chat, summary refresh): what
+ * to put in .env, and hints for the summary provider and fallbacks when those are set.
+ */
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  CONFIG_FILE,
+  hasConfigFallbacks,
+  hasInvalidConfigSummaryBaseUrl,
+} from "../config/index.js";
+import { cli } from "../cli/formatting.js";
+
+export function printConfigError(): void {
+  const cwd = process.cwd();
+  const envPath = join(cwd, ".env");
+  const examplePath = join(cwd, ".env.example");
+
+  console.error(cli.error("potion-kit: missing LLM configuration.\n"));
+  console.error(cli.error("Create a .env file in this directory (or set env vars) with:"));
+  console.error(
+    cli.error(
+      "  POTION_KIT_PROVIDER=openai   # or anthropic, moonshot, google, openrouter, openai-compatible"
+    )
+  );
+  console.error(cli.error("  OPENAI_API_KEY=sk-...       # if provider is openai"));
+  console.error(cli.error("  ANTHROPIC_API_KEY=...       # if provider is anthropic"));
+  console.error(cli.error("  MOONSHOT_API_KEY=...       # if provider is moonshot (Kimi)"));
+  console.error(cli.error("  GOOGLE_GENERATIVE_AI_API_KEY=...  # if provider is google (Gemini)"));
+  console.error(cli.error("  OPENROUTER_API_KEY=sk-or-...      # if provider is openrouter"));
+  console.error(
+    cli.error(
+      "  POTION_KIT_BASE_URL=http://localhost:1234/v1  # openai-compatible server (key optional)\n"
+    )
+  );
+  if (!existsSync(envPath)) {
+    console.error(cli.error(`No .env found in ${cwd}.`));
+    if (existsSync(examplePath)) {
+      console.error(cli.error("Copy .env.example to .env:  cp .env.example .env"));
+    } else {
+      console.error(cli.error("Add a .env file with the variables above."));
+    }
+  } else {
+    console.error(
+      cli.error(`Found .env in ${cwd}; check POTION_KIT_PROVIDER and the matching API key.`)
+    );
+  }
+  if (process.env.POTION_KIT_SUMMARY_PROVIDER) {
+    console.error(
+      cli.error(
+        `POTION_KIT_SUMMARY_PROVIDER=${process.env.POTION_KIT_SUMMARY_PROVIDER} also needs a known provider name and its API key.`
+      )
+    );
+  }
+  if (hasInvalidConfigSummaryBaseUrl()) {
+    console.error(cli.error(`"summaryBaseUrl" in ./${CONFIG_FILE} must be a URL string.`));
+  }
+  if (hasConfigFallbacks()) {
+    console.error(
+      cli.error(
+        `Each entry in "fallbacks" in ./${CONFIG_FILE} also needs a known provider and its API key.`
+      )
+    );
+  }
+  console.error("");
+}
@@ -0,0 +1,144 @@
+/**
+ * Token-budget context assembly. The tail of recent messages is filled newest-first against a
+ * per-model token budget (estimated locally, ~4 characters per token): oversized messages are
+ * collapsed to their start and end, and messages that no longer fit move into the summary
+ * window, so one giant paste cannot push a request past the model's context window.
+ */
+import type { LlmConfig } from "../config/index.js";
+import { DEFAULT_MAX_OUTPUT_TOKENS } from "../ai/client.js";
+import type { HistoryMessage } from "./chat-history.js";
+
+export interface ContextPlan {
+  /** First user message (collapsed if oversized); null when history does not start with one. */
+  firstMessage: HistoryMessage | null;
+  /** Index of the first history message sent verbatim; messages before it (after the first) are summarized. */
+  tailStart: number;
+  /** Tail messages as sent, oversized ones collapsed. */
+  tail: HistoryMessage[];
+  split: ContextSplit;
+}
+
+/** How the context of a turn was assembled; recorded on the turn's event. */
+export interface ContextSplit {
+  /** Token budget for the request input. */
+  budget: number;
+  /** Estimated input tokens of the first message, tail and reserved parts. */
+  estimatedTokens: number;
+  /** Messages sent after the first message and summary. */
+  tailMessages: number;
+  /** Recent messages moved into the summary window because they did not fit the budget. */
+  movedToSummary: number;
+  /** Messages shortened because they alone took too much of the budget. */
+  collapsedMessages: number;
+}
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4; // role and separators
+/** Estimates are rough and tool definitions are not counted, so use only part of the window. */
+const CONTEXT_WINDOW_SHARE = 0.8;
+/** A single message may take at most this share of the budget before it is collapsed. */
+const MAX_MESSAGE_SHARE = 0.25;
+const MIN_COLLAPSED_TOKENS = 256;
+
+/** Context windows by model id pattern; first match wins. */
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-4\.1/i, 1_000_000],
+  [/gpt-4o|gpt-4-turbo/i, 128_000],
+  [/gpt-5|\bo[34]\b|\bo[34]-/i, 400_000],
+  [/claude/i, 200_000],
+  [/gemini/i, 1_000_000],
+  [/kimi|moonshot/i, 256_000],
+];
+const DEFAULT_CONTEXT_WINDOW = 128_000;
+/** Local servers often run small context sizes (e.g. Ollama's num_ctx). */
+const LOCAL_CONTEXT_WINDOW = 8_192;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: { content: string }): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function getContextWindow(config: Pick<LlmConfig, "provider" | "model">): number {
+  const known = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(config.model));
+  if (known) return known[1];
+  return config.provider === "openai-compatible" ? LOCAL_CONTEXT_WINDOW : DEFAULT_CONTEXT_WINDOW;
+}
+
+/** contextTokenBudget from config, else most of the model's window minus its output limit. */
+export function getContextTokenBudget(
+  config: Pick<LlmConfig, "provider" | "model" | "maxOutputTokens" | "contextTokenBudget">
+): number {
+  if (config.contextTokenBudget) return config.contextTokenBudget;
+  const window = getContextWindow(config);
+  const output = Math.min(config.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS, window / 2);
+  return Math.floor((window - output) * CONTEXT_WINDOW_SHARE);
+}
+
+/** Keep the start and end of an oversized message, with a note of what was left out. */
+export function collapseMessage(message: HistoryMessage, maxTokens: number): HistoryMessage {
+  if (estimateMessageTokens(message) <= maxTokens) return message;
+  const keepChars = Math.max(0, (maxTokens - MESSAGE_OVERHEAD_TOKENS) * CHARS_PER_TOKEN - 120);
+  const head = message.content.slice(0, Math.ceil((keepChars * 2) / 3));
+  const tail = message.content.slice(message.content.length - Math.floor(keepChars / 3));
+  const omitted = message.content.length - head.length - tail.length;
+  return {
+    role: message.role,
+    content: `${head}\n\n[… ${omitted} characters omitted to fit the context budget …]\n\n${tail}`,
+  };
+}
+
+/**
+ * Choose the messages sent verbatim: at most maxHistoryMessages recent messages, newest first,
+ * while they fit the budget left after reservedTokens (system prompt, current message, summary).
+ * The newest message is always kept (collapsed if needed), and the tail starts at a user message.
+ */
+export function planContext(
+  history: HistoryMessage[],
+  options: { maxHistoryMessages: number; budget: number; reservedTokens: number }
+): ContextPlan {
+  const { maxHistoryMessages, budget, reservedTokens } = options;
+  const maxMessageTokens = Math.max(MIN_COLLAPSED_TOKENS, Math.floor(budget * MAX_MESSAGE_SHARE));
+  const fit = (message: HistoryMessage) => collapseMessage(message, maxMessageTokens);
+
+  const firstIndex = history.length > 0 && history[0].role === "user" ? 1 : 0;
+  const firstMessage = firstIndex === 1 ? fit(history[0]) : null;
+  const hasMiddle = history.length > 1 + maxHistoryMessages;
+  const countStart = hasMiddle ? history.length - maxHistoryMessages : firstIndex;
+
+  let used = reservedTokens + (firstMessage ? estimateMessageTokens(firstMessage) : 0);
+  let collapsedMessages = firstMessage && firstMessage !== history[0] ? 1 : 0;
+  const tail: HistoryMessage[] = [];
+  let tailStart = history.length;
+  for (let i = history.length - 1; i >= countStart; i--) {
+    const message = fit(history[i]);
+    const tokens = estimateMessageTokens(message);
+    if (tail.length > 0 && used + tokens > budget) break;
+    tail.unshift(message);
+    used += tokens;
+    if (message !== history[i]) collapsedMessages += 1;
+    tailStart = i;
+  }
+  // Start the tail at a user message; a lone assistant reply goes to the summary with its question.
+  if (tailStart > countStart && tail.length > 1 && tail[0].role === "assistant") {
+    const dropped = tail.shift()!;
+    used -= estimateMessageTokens(dropped);
+    if (dropped !== history[tailStart]) collapsedMessages -= 1;
+    tailStart += 1;
+  }
+
+  return {
+    firstMessage,
+    tailStart,
+    tail,
+    split: {
+      budget,
+      estimatedTokens: used,
+      tailMessages: tail.length,
+      movedToSummary: tailStart - countStart,
+      collapsedMessages,
+    },
+  };
+}
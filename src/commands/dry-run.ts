@@ -0,0 +1,54 @@
+/**
+ * Dry-run report: after a `potion-kit chat --dry-run` session, list the files the model
+ * would have created or changed, show their diffs, and optionally save a patch file.
+ */
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { OverlayChange, ProjectOverlay } from "../ai/project-overlay.js";
+import { cli } from "../cli/formatting.js";
+import { createUnifiedDiff, formatDiffForTerminal } from "../cli/diff.js";
+
+export interface DryRunState {
+  overlay: ProjectOverlay;
+  /** Optional path (relative to cwd) to save the intended changes as a unified diff. */
+  savePatch?: string;
+}
+
+/** One patch with a unified diff per changed file, applicable with `git apply`. */
+export function buildDryRunPatch(changes: OverlayChange[]): string {
+  return changes.map((c) => createUnifiedDiff(c.path, c.before, c.after)).join("");
+}
+
+export function printDryRunReport(cwd: string, state: DryRunState): void {
+  const changes = state.overlay.changes();
+  console.log("\n" + cli.separator());
+  if (changes.length === 0) {
+    console.log(cli.intro("Dry run: no files would have been created or changed."));
+    return;
+  }
+
+  console.log(
+    cli.agentLabel(
+      `Dry run: ${changes.length} file${changes.length === 1 ? "" : "s"} would have been written (project left untouched):`
+    )
+  );
+  for (const change of changes) {
+    const action =
+      change.before === null ? "created" : change.after === null ? "deleted" : "changed";
+    console.log(`  ${action}  ${change.path}`);
+  }
+  for (const change of changes) {
+    console.log(
+      "\n" + formatDiffForTerminal(createUnifiedDiff(change.path, change.before, change.after))
+    );
+  }
+
+  if (state.savePatch) {
+    const patchPath = resolve(cwd, state.savePatch);
+    writeFileSync(patchPath, buildDryRunPatch(changes), "utf-8");
+    console.log(
+      "\n" +
+        cli.intro(`Patch saved to ${state.savePatch} (apply with: git apply ${state.savePatch})`)
+    );
+  }
+}
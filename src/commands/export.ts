@@ -0,0 +1,267 @@
+/**
+ * Export command: a readable transcript of a chat session for sharing. History messages are
+ * merged with the matching turn events from chat-events.json, so the record shows the tools
+ * each turn called, the paths it wrote and any guardrail flags next to the conversation.
+ */
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ChatToolEvent } from "../ai/client.js";
+import { cli } from "../cli/formatting.js";
+import { readHistory, type HistoryMessage } from "./chat-history.js";
+import { readChatEvents, type ChatTurnEvent, type TurnBuild } from "./chat-events.js";
+import { DEFAULT_SESSION, isValidSessionName } from "./chat-state.js";
+import { readActiveSession, sessionExists } from "./sessions.js";
+
+export type ExportFormat = "md" | "html" | "json";
+
+export interface ExportTurn {
+  /** 1-based turn number. */
+  turn: number;
+  user: string;
+  /** Missing when history ends with an unanswered user message. */
+  assistant?: string;
+  /** Recorded event for the turn; missing for turns from before events were linked to history. */
+  event?: ChatTurnEvent;
+}
+
+export interface ExportMeta {
+  session: string;
+  exportedAt: string;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ["md", "html", "json"];
+
+const HTML_STYLE = [
+  "body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;line-height:1.5;color:#222}",
+  ".turn{border-top:1px solid #ddd;padding-top:1rem;margin-top:1.5rem}",
+  "h3{font-size:1rem;margin:1rem 0 .25rem}",
+  "time,.details{color:#777;font-size:.85rem;font-weight:normal}",
+  ".text{white-space:pre-wrap}",
+  ".user .text{background:#f3f6fa;padding:.5rem .75rem;border-radius:4px}",
+  ".tools{font-size:.9rem;color:#444}",
+  ".tools .failed{color:#b00}",
+  ".note{border-left:3px solid #e0a800;padding-left:.75rem;color:#665}",
+].join("");
+
+/** Pair each user message with its reply and the event whose historyLength points at it. */
+export function buildExportTurns(history: HistoryMessage[], events: ChatTurnEvent[]): ExportTurn[] {
+  const eventsByIndex = new Map<number, ChatTurnEvent>();
+  for (const event of events) {
+    if (event.historyLength !== undefined) eventsByIndex.set(event.historyLength, event);
+  }
+  const turns: ExportTurn[] = [];
+  for (let i = 0; i < history.length; i++) {
+    const message = history[i];
+    if (message.role !== "user") continue;
+    const next = history[i + 1];
+    const event = eventsByIndex.get(i);
+    turns.push({
+      turn: turns.length + 1,
+      user: message.content,
+      ...(next?.role === "assistant" ? { assistant: next.content } : {}),
+      ...(event ? { event } : {}),
+    });
+  }
+  return turns;
+}
+
+export function formatExportMarkdown(turns: ExportTurn[], meta: ExportMeta): string {
+  const lines = [`# Potion-kit chat: ${meta.session}`, "", `Exported ${meta.exportedAt}.`, ""];
+  for (const turn of turns) {
+    lines.push(`## Turn ${turn.turn}`, "");
+    lines.push(`**You**${turn.event ? ` (${formatTimestamp(turn.event.timestamp)})` : ""}`, "");
+    lines.push(turn.user.trim(), "");
+    const tools = turn.event?.trace.toolEvents ?? [];
+    if (tools.length > 0) {
+      lines.push("**Tools:**", "");
+      for (const tool of tools) lines.push(`- ${formatToolEvent(tool, (p) => `\`${p}\``)}`);
+      lines.push("");
+    }
+    if (turn.assistant !== undefined) {
+      lines.push("**Potion-kit**", "", turn.assistant.trim(), "");
+    }
+    for (const note of turnNotes(turn)) lines.push(`> ${note}`, "");
+    const details = turnDetails(turn);
+    if (details) lines.push(`_${details}_`, "");
+  }
+  return lines.join("\n");
+}
+
+export function formatExportHtml(turns: ExportTurn[], meta: ExportMeta): string {
+  const title = `Potion-kit chat: ${meta.session}`;
+  const body = turns.map((turn) => {
+    const parts = [`<section class="turn">`, `<h2>Turn ${turn.turn}</h2>`];
+    const time = turn.event
+      ? ` <time>${escapeHtml(formatTimestamp(turn.event.timestamp))}</time>`
+      : "";
+    parts.push(
+      `<div class="user"><h3>You${time}</h3><div class="text">${escapeHtml(turn.user.trim())}</div></div>`
+    );
+    const tools = turn.event?.trace.toolEvents ?? [];
+    if (tools.length > 0) {
+      const items = tools.map(
+        (tool) =>
+          `<li class="${tool.ok ? "ok" : "failed"}">${formatToolEvent(tool, (p) => `<code>${escapeHtml(p)}</code>`, escapeHtml)}</li>`
+      );
+      parts.push(`<ul class="tools">${items.join("")}</ul>`);
+    }
+    if (turn.assistant !== undefined) {
+      parts.push(
+        `<div class="assistant"><h3>Potion-kit</h3><div class="text">${escapeHtml(turn.assistant.trim())}</div></div>`
+      );
+    }
+    for (const note of turnNotes(turn)) parts.push(`<p class="note">${escapeHtml(note)}</p>`);
+    const details = turnDetails(turn);
+    if (details) parts.push(`<p class="details">${escapeHtml(details)}</p>`);
+    parts.push(`</section>`);
+    return parts.join("\n");
+  });
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="details">Exported ${escapeHtml(meta.exportedAt)}.</p>`,
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+export function formatExportJson(turns: ExportTurn[], meta: ExportMeta): string {
+  const data = {
+    ...meta,
+    turns: turns.map((turn) => ({
+      turn: turn.turn,
+      timestamp: turn.event?.timestamp,
+      user: turn.user,
+      assistant: turn.assistant,
+      model: turn.event?.model,
+      toolEvents: turn.event?.trace.toolEvents,
+      finishReason: turn.event?.trace.finishReason,
+      hasVerifiedWrite: turn.event?.hasVerifiedWrite,
+      replyWasGuarded: turn.event?.replyWasGuarded,
+      summarySource: turn.event?.summarySource,
+      usage: turn.event?.trace.usage,
+    })),
+  };
+  return JSON.stringify(data, null, 2) + "\n";
+}
+
+export async function runExport(options: {
+  format?: string;
+  out?: string;
+  session?: string;
+}): Promise<void> {
+  const cwd = process.cwd();
+  const format = (options.format ?? "md") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    console.error(cli.error('potion-kit: --format must be "md", "html" or "json".'));
+    process.exit(1);
+  }
+  const session = options.session ?? readActiveSession(cwd);
+  if (!isValidSessionName(session) || !sessionExists(cwd, session)) {
+    console.error(
+      cli.error(
+        `potion-kit: no session named "${session}". Run \`potion-kit sessions list\` to see them.`
+      )
+    );
+    process.exit(1);
+  }
+
+  const turns = buildExportTurns(readHistory(cwd, session), readChatEvents(cwd, session));
+  if (turns.length === 0) {
+    const where = session === DEFAULT_SESSION ? "this project" : `session "${session}"`;
+    console.error(cli.error(`potion-kit: no conversation to export for ${where}.`));
+    process.exit(1);
+  }
+  const meta: ExportMeta = { session, exportedAt: new Date().toISOString() };
+  const output =
+    format === "html"
+      ? formatExportHtml(turns, meta)
+      : format === "json"
+        ? formatExportJson(turns, meta)
+        : formatExportMarkdown(turns, meta);
+
+  if (!options.out) {
+    process.stdout.write(output);
+    return;
+  }
+  try {
+    writeFileSync(resolve(cwd, options.out), output, "utf-8");
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    console.error(cli.error(`potion-kit: could not write ${options.out}: ${reason}`));
+    process.exit(1);
+  }
+  console.log(`Exported ${turns.length} turns to ${options.out}.`);
+}
+
+/**
+ * e.g. "✓ write_project_file src/pages/index.hbs", "✓ move_project_file src/a.hbs → src/b.hbs"
+ * or "✗ fetch_doc — not found"
+ */
+export function formatToolEvent(
+  tool: ChatToolEvent,
+  formatPath: (path: string) => string,
+  escape: (text: string) => string = (text) => text
+): string {
+  const from = tool.fromPath ? ` ${formatPath(tool.fromPath)} →` : "";
+  const path = tool.path ? `${from} ${formatPath(tool.path)}` : "";
+  const error = !tool.ok && tool.error ? ` — ${escape(tool.error)}` : "";
+  return `${tool.ok ? "✓" : "✗"} ${escape(tool.toolName)}${path}${error}`;
+}
+
+/** Guardrail and cancellation notes worth calling out in the transcript. */
+export function turnNotes(turn: ExportTurn): string[] {
+  const notes: string[] = [];
+  if (turn.event?.trace.finishReason === "aborted") {
+    notes.push("This turn was cancelled before the model finished.");
+  }
+  if (turn.event?.replyWasGuarded) {
+    notes.push("The reply claimed changes, but no file write was verified in this turn.");
+  }
+  return notes;
+}
+
+/** e.g. "Model gpt-5.2 · 3 steps · summary: cache-reuse" */
+export function turnDetails(turn: ExportTurn): string {
+  if (!turn.event) return "";
+  const { event } = turn;
+  const steps = event.trace.stepsUsed;
+  return [
+    ...(event.model ? [`Model ${event.model}`] : []),
+    `${steps} step${steps === 1 ? "" : "s"}`,
+    ...(event.hasVerifiedWrite ? ["files written"] : []),
+    ...(event.build ? [formatTurnBuild(event.build)] : []),
+    ...(event.summarySource && event.summarySource !== "none"
+      ? [`summary: ${event.summarySource}`]
+      : []),
+  ].join(" · ");
+}
+
+/** e.g. "build passed", "build failed (2 errors)" or "build timed out" */
+function formatTurnBuild(build: TurnBuild): string {
+  if (build.passed) return "build passed";
+  if (build.timedOut) return "build timed out";
+  const errors = `${build.errorCount} error${build.errorCount === 1 ? "" : "s"}`;
+  return `build failed (${errors})`;
+}
+
+export function formatTimestamp(timestamp: string): string {
+  return timestamp.slice(0, 16).replace("T", " ") + " UTC";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,172 @@
+/**
+ * History command: find past turns across all chat sessions of the project. `search` matches
+ * the conversation text in chat-history.json and the file paths tools touched (from
+ * chat-events.json); `show` prints one turn with its tool events.
+ */
+import { cli } from "../cli/formatting.js";
+import { readHistory } from "./chat-history.js";
+import { readChatEvents, type ChatTurnEvent } from "./chat-events.js";
+import { DEFAULT_SESSION, isValidSessionName } from "./chat-state.js";
+import {
+  buildExportTurns,
+  formatTimestamp,
+  formatToolEvent,
+  turnDetails,
+  turnNotes,
+  type ExportTurn,
+} from "./export.js";
+import { listSessions, readActiveSession, sessionExists } from "./sessions.js";
+
+export interface HistoryMatch {
+  session: string;
+  /** Matching turn; missing for an older event that is not linked to a history message. */
+  turn?: ExportTurn;
+  /** Event of the match (the turn's event, or the unlinked event itself). */
+  event?: ChatTurnEvent;
+  /** Short excerpts of the matching text, or the matching tool events as "✓ tool path". */
+  excerpts: string[];
+}
+
+const EXCERPT_CONTEXT_CHARS = 60;
+const MAX_EXCERPTS_PER_TURN = 3;
+
+/**
+ * Case-insensitive substring search over every session's turns (user and assistant text,
+ * tool paths, including the old path of a move). Sessions come in `sessions list` order, turns in conversation order.
+ */
+export function searchHistory(cwd: string, query: string): HistoryMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const matches: HistoryMatch[] = [];
+  for (const { name: session } of listSessions(cwd)) {
+    const events = readChatEvents(cwd, session);
+    const turns = buildExportTurns(readHistory(cwd, session), events);
+    for (const turn of turns) {
+      const excerpts = [
+        ...findExcerpts(turn.user, needle).map((text) => `You: ${text}`),
+        ...findExcerpts(turn.assistant ?? "", needle).map((text) => `Potion-kit: ${text}`),
+        ...matchingToolEvents(turn.event, needle),
+      ].slice(0, MAX_EXCERPTS_PER_TURN);
+      if (excerpts.length > 0) matches.push({ session, turn, event: turn.event, excerpts });
+    }
+    const linked = new Set(turns.map((turn) => turn.event).filter(Boolean));
+    for (const event of events) {
+      if (linked.has(event)) continue;
+      const excerpts = matchingToolEvents(event, needle).slice(0, MAX_EXCERPTS_PER_TURN);
+      if (excerpts.length > 0) matches.push({ session, event, excerpts });
+    }
+  }
+  return matches;
+}
+
+/** Excerpts around each occurrence of `needle` (lowercase), whitespace collapsed. */
+export function findExcerpts(text: string, needle: string): string[] {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = flat.toLowerCase();
+  const excerpts: string[] = [];
+  let from = 0;
+  while (excerpts.length < MAX_EXCERPTS_PER_TURN) {
+    const index = lower.indexOf(needle, from);
+    if (index === -1) break;
+    const start = Math.max(0, index - EXCERPT_CONTEXT_CHARS);
+    const end = Math.min(flat.length, index + needle.length + EXCERPT_CONTEXT_CHARS);
+    excerpts.push(
+      (start > 0 ? "…" : "") +
+        flat.slice(start, index) +
+        cli.match(flat.slice(index, index + needle.length)) +
+        flat.slice(index + needle.length, end) +
+        (end < flat.length ? "…" : "")
+    );
+    // The next excerpt starts after this one so excerpts never overlap.
+    from = end;
+  }
+  return excerpts;
+}
+
+function matchingToolEvents(event: ChatTurnEvent | undefined, needle: string): string[] {
+  return (event?.trace.toolEvents ?? [])
+    .filter((tool) =>
+      [tool.path, tool.fromPath].some((path) => path?.toLowerCase().includes(needle))
+    )
+    .map((tool) => formatToolEvent(tool, (path) => path));
+}
+
+/** e.g. "blog-redesign · turn 4 · 2026-03-02 14:05 UTC" */
+export function formatMatchHeading(match: HistoryMatch): string {
+  return [
+    match.session,
+    match.turn ? `turn ${match.turn.turn}` : "no linked turn",
+    ...(match.event ? [formatTimestamp(match.event.timestamp)] : []),
+  ].join(" · ");
+}
+
+/** One turn for the terminal: messages, tool events, notes and details. */
+export function formatHistoryTurn(turn: ExportTurn): string {
+  const time = turn.event ? ` ${cli.intro(formatTimestamp(turn.event.timestamp))}` : "";
+  const lines = [
+    cli.diffHeader(`Turn ${turn.turn}`) + time,
+    "",
+    cli.user("You:"),
+    turn.user.trim(),
+  ];
+  const tools = turn.event?.trace.toolEvents ?? [];
+  if (tools.length > 0) {
+    lines.push("", cli.intro("Tools:"));
+    for (const tool of tools) lines.push(`  ${formatToolEvent(tool, (path) => path)}`);
+  }
+  if (turn.assistant !== undefined) {
+    lines.push("", cli.agentLabel("Potion-kit:"), cli.agentReply(turn.assistant.trim()));
+  }
+  for (const note of turnNotes(turn)) lines.push("", cli.question(note));
+  const details = turnDetails(turn);
+  if (details) lines.push("", cli.intro(details));
+  return lines.join("\n");
+}
+
+export async function runHistorySearch(query: string): Promise<void> {
+  if (!query.trim()) exitWithError("give a word or phrase to search for.");
+  const matches = searchHistory(process.cwd(), query);
+  if (matches.length === 0) {
+    console.log(cli.intro(`No turns mention "${query.trim()}".`));
+    return;
+  }
+  for (const match of matches) {
+    console.log(cli.diffHeader(formatMatchHeading(match)));
+    for (const excerpt of match.excerpts) console.log(`  ${excerpt}`);
+    console.log("");
+  }
+  const turns = matches.filter((match) => match.turn).length;
+  console.log(
+    cli.intro(
+      `${turns} matching turn${turns === 1 ? "" : "s"}. Show one with: potion-kit history show <turn> [--session <name>]`
+    )
+  );
+}
+
+export async function runHistoryShow(
+  turnArg: string,
+  options: { session?: string } = {}
+): Promise<void> {
+  const cwd = process.cwd();
+  const session = options.session ?? readActiveSession(cwd);
+  if (!isValidSessionName(session) || !sessionExists(cwd, session)) {
+    exitWithError(`no session named "${session}". Run \`potion-kit sessions list\` to see them.`);
+  }
+  const number = Number(turnArg);
+  const turns = buildExportTurns(readHistory(cwd, session), readChatEvents(cwd, session));
+  const turn = Number.isInteger(number) ? turns.find((t) => t.turn === number) : undefined;
+  if (!turn) {
+    const where = session === DEFAULT_SESSION ? "this project" : `session "${session}"`;
+    exitWithError(
+      turns.length === 0
+        ? `no conversation yet for ${where}.`
+        : `turn must be a number from 1 to ${turns.length} for ${where}.`
+    );
+  }
+  console.log(formatHistoryTurn(turn));
+}
+
+function exitWithError(message: string): never {
+  console.error(cli.error(`potion-kit: ${message}`));
+  process.exit(1);
+}
@@ -0,0 +1,38 @@
+/**
+ * Lint command: check src/ against the Harold rules the assistant follows (no <style>, inline
+ * styles or inline scripts in templates, relativePath for links, no formatDate 'now', no
+ * @import in Sass, existing partials, balanced blocks). Prints findings as file:line and exits with
+ * code 1 when there are any.
+ */
+import { resolve } from "node:path";
+import { cli } from "../cli/formatting.js";
+import { lintProject, MAX_LINTED_FILES, type LintFinding } from "../ai/project-lint.js";
+
+/** e.g. "src/pages/index.hbs:12  inline-style  Inline style=…" */
+export function formatLintFinding(finding: LintFinding): string {
+  return `${finding.file}:${finding.line}  ${cli.intro(finding.rule)}  ${finding.message}`;
+}
+
+export async function runLint(): Promise<void> {
+  const report = await lintProject(resolve(process.cwd()));
+  if (report.filesChecked === 0) {
+    console.log(cli.intro("No templates, posts or styles found under src/."));
+    return;
+  }
+  for (const finding of report.findings) console.log(formatLintFinding(finding));
+  const files = `${report.filesChecked} file${report.filesChecked === 1 ? "" : "s"}`;
+  const limit = report.truncated ? " (stopped at the limit; fix these and run again)" : "";
+  if (report.findings.length === 0) {
+    // With no findings, only the file listing can have hit its limit.
+    const skipped = report.truncated
+      ? ` (stopped after the first ${MAX_LINTED_FILES} files under src/)`
+      : "";
+    console.log(cli.intro(`No problems found in ${files}${skipped}.`));
+    return;
+  }
+  const count = report.findings.length;
+  console.error(
+    cli.error(`\n${count} problem${count === 1 ? "" : "s"} in ${files} checked${limit}.`)
+  );
+  process.exit(1);
+}
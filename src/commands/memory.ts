@@ -0,0 +1,145 @@
+/**
+ * Project memory on disk: .potion-kit/project-memory.json, shared by all chat sessions of the
+ * project and kept by `potion-kit clear`. `potion-kit memory` shows it, `memory edit` opens it
+ * as JSON in $EDITOR, and `memory clear` empties it.
+ */
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { cli } from "../cli/formatting.js";
+import { editText } from "../cli/editor.js";
+import {
+  emptyProjectMemory,
+  formatProjectMemory,
+  isProjectMemoryEmpty,
+  parseProjectMemory,
+  type ProjectMemory,
+  type ProjectMemoryReadResult,
+  type ProjectMemoryStore,
+} from "../ai/project-memory.js";
+import { CHAT_STATE_DIR } from "./chat-state.js";
+
+export const PROJECT_MEMORY_FILE = "project-memory.json";
+
+function getProjectMemoryPath(cwd: string): string {
+  return join(cwd, CHAT_STATE_DIR, PROJECT_MEMORY_FILE);
+}
+
+const MEMORY_FIELDS_HINT =
+  "an object with a string sitePurpose and string arrays brandColors, potions, pages, decisions and todos";
+
+/**
+ * Saved memory, or empty memory when the file is missing. A file that cannot be read or parsed
+ * is an error rather than empty memory, so the next update does not overwrite it.
+ */
+export function readProjectMemory(cwd: string): ProjectMemoryReadResult {
+  const path = getProjectMemoryPath(cwd);
+  if (!existsSync(path)) return { ok: true, memory: emptyProjectMemory() };
+  const file = `${CHAT_STATE_DIR}/${PROJECT_MEMORY_FILE}`;
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (e) {
+    return {
+      ok: false,
+      error: `${file} could not be read (${e instanceof Error ? e.message : e}).`,
+    };
+  }
+  const memory = parseProjectMemory(data);
+  if (!memory) return { ok: false, error: `${file} must be ${MEMORY_FIELDS_HINT}.` };
+  return { ok: true, memory };
+}
+
+export function writeProjectMemory(cwd: string, memory: ProjectMemory): void {
+  const dir = join(cwd, CHAT_STATE_DIR);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(getProjectMemoryPath(cwd), JSON.stringify(memory, null, 2), "utf-8");
+}
+
+export function clearProjectMemory(cwd: string): void {
+  rmSync(getProjectMemoryPath(cwd), { force: true });
+}
+
+/**
+ * Store for update_project_memory. Dry runs start from the saved memory but keep changes in
+ * memory, so later turns of the run see them and the file is never touched.
+ */
+export function createProjectMemoryStore(cwd: string, dryRun = false): ProjectMemoryStore {
+  if (!dryRun) {
+    return {
+      read: () => readProjectMemory(cwd),
+      write: (memory) => writeProjectMemory(cwd, memory),
+    };
+  }
+  let current = readProjectMemory(cwd);
+  return {
+    read: () => current,
+    write: (memory) => {
+      current = { ok: true, memory };
+    },
+  };
+}
+
+export async function runMemoryShow(): Promise<void> {
+  const read = readProjectMemory(process.cwd());
+  if (!read.ok) {
+    exitWithError(
+      `${read.error} Fix it with \`potion-kit memory edit\` or delete it with \`potion-kit memory clear\`.`
+    );
+  }
+  const memory = read.memory;
+  if (isProjectMemoryEmpty(memory)) {
+    console.log(
+      cli.intro(
+        "Project memory is empty. The assistant fills it as you chat, or run `potion-kit memory edit`."
+      )
+    );
+    return;
+  }
+  console.log(formatProjectMemory(memory));
+  if (memory.updatedAt) console.log("\n" + cli.intro(`Last updated ${memory.updatedAt}`));
+}
+
+export async function runMemoryEdit(): Promise<void> {
+  const cwd = process.cwd();
+  const current = readProjectMemory(cwd);
+  let initial: string;
+  if (current.ok) {
+    const editable: ProjectMemory = { ...current.memory };
+    delete editable.updatedAt;
+    initial = JSON.stringify(editable, null, 2) + "\n";
+  } else {
+    // Open the file as it is so the user can repair it instead of starting over.
+    console.error(cli.error(`potion-kit: ${current.error}`));
+    try {
+      initial = readFileSync(getProjectMemoryPath(cwd), "utf-8");
+    } catch (e) {
+      exitWithError(`could not open the memory file (${e instanceof Error ? e.message : e}).`);
+    }
+  }
+  const edited = editText(initial, PROJECT_MEMORY_FILE);
+  if (!edited.ok) exitWithError(edited.error);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(edited.text);
+  } catch (e) {
+    exitWithError(
+      `The edited memory is not valid JSON (${e instanceof Error ? e.message : e}); nothing was saved.`
+    );
+  }
+  const memory = parseProjectMemory(parsed);
+  if (!memory) {
+    exitWithError(`The edited memory must be ${MEMORY_FIELDS_HINT}; nothing was saved.`);
+  }
+  writeProjectMemory(cwd, { ...memory, updatedAt: new Date().toISOString() });
+  console.log("Project memory saved.");
+}
+
+export async function runMemoryClear(): Promise<void> {
+  clearProjectMemory(process.cwd());
+  console.log("Project memory cleared.");
+}
+
+function exitWithError(message: string): never {
+  console.error(cli.error(`potion-kit: ${message}`));
+  process.exit(1);
+}
@@ -1,4 +1,12 @@
-import type { ChatTurnTrace } from "../ai/client.js";
+import type { ChatToolEvent, ChatTurnTrace } from "../ai/client.js";
+
+/** Tools whose successful result means project files were changed this turn. */
+export const FILE_WRITE_TOOLS: ReadonlySet<string> = new Set([
+  "write_project_file",
+  "edit_project_file",
+  "delete_project_file",
+  "move_project_file",
+]);
 
 // Matches first-person past-tense claims about having performed file write operations.
 // Requires "I've" / "I have" before the action verb, OR standalone "Done!" / "Finished!"
@@ -14,10 +22,7 @@ export interface GuardedReply {
 
 export function guardAssistantReply(reply: string, trace: ChatTurnTrace | null): GuardedReply {
   const trimmed = reply.trim();
-  const hasVerifiedWrite =
-    trace?.toolEvents.some(
-      (event) => event.toolName === "write_project_file" && event.ok === true
-    ) ?? false;
+  const hasVerifiedWrite = trace?.toolEvents.some(isVerifiedWriteEvent) ?? false;
 
   const looksLikeCompletionClaim = COMPLETION_CLAIM_PATTERN.test(trimmed);
   const guarded = Boolean(trimmed) && !hasVerifiedWrite && looksLikeCompletionClaim;
@@ -25,3 +30,7 @@ export function guardAssistantReply(reply: string, trace: ChatTurnTrace | null):
   // replyToSave is always the clean reply — no appended notes so history stays uncontaminated.
   return { replyToSave: trimmed, guarded, hasVerifiedWrite };
 }
+
+export function isVerifiedWriteEvent(event: ChatToolEvent): boolean {
+  return FILE_WRITE_TOOLS.has(event.toolName) && event.ok === true;
+}
@@ -0,0 +1,231 @@
+/**
+ * Named chat sessions: several conversations side by side in one project. The active session
+ * is recorded in .potion-kit/session.json; `potion-kit chat` (and clear, undo) use it unless
+ * `chat --session <name>` picks another. The "default" session is the original single
+ * conversation and cannot be removed, only cleared.
+ */
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { cli } from "../cli/formatting.js";
+import {
+  CHAT_STATE_DIR,
+  DEFAULT_SESSION,
+  getChatStateDir,
+  getSessionsRoot,
+  isValidSessionName,
+} from "./chat-state.js";
+import {
+  HISTORY_FILE,
+  SUMMARY_FILE,
+  clearHistory,
+  readHistory,
+  readSummaryState,
+  writeHistory,
+  writeSummaryState,
+} from "./chat-history.js";
+import { EVENTS_FILE, USAGE_LOG_FILE, clearChatEvents } from "./chat-events.js";
+import { CHECKPOINTS_FILE, clearCheckpoints } from "./checkpoints.js";
+
+export interface SessionInfo {
+  name: string;
+  active: boolean;
+  /** Messages in the session's chat history. */
+  messages: number;
+  /** Last time the history was written, if ever. */
+  updatedAt?: Date;
+}
+
+export type SessionResult = { ok: true } | { ok: false; error: string };
+
+const ACTIVE_SESSION_FILE = "session.json";
+const SESSION_FILES = [HISTORY_FILE, SUMMARY_FILE, EVENTS_FILE, USAGE_LOG_FILE, CHECKPOINTS_FILE];
+
+function getActiveSessionPath(cwd: string): string {
+  return join(cwd, CHAT_STATE_DIR, ACTIVE_SESSION_FILE);
+}
+
+/** Name of the active session; falls back to "default" when unset or no longer present. */
+export function readActiveSession(cwd: string): string {
+  const path = getActiveSessionPath(cwd);
+  if (!existsSync(path)) return DEFAULT_SESSION;
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as { active?: unknown };
+    const name = data?.active;
+    if (typeof name !== "string" || !isValidSessionName(name)) return DEFAULT_SESSION;
+    return sessionExists(cwd, name) ? name : DEFAULT_SESSION;
+  } catch {
+    return DEFAULT_SESSION;
+  }
+}
+
+export function writeActiveSession(cwd: string, name: string): void {
+  const dir = join(cwd, CHAT_STATE_DIR);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(getActiveSessionPath(cwd), JSON.stringify({ active: name }, null, 2), "utf-8");
+}
+
+export function sessionExists(cwd: string, name: string): boolean {
+  return name === DEFAULT_SESSION || existsSync(getChatStateDir(cwd, name));
+}
+
+/** All sessions, "default" first, then named sessions alphabetically. */
+export function listSessions(cwd: string): SessionInfo[] {
+  const active = readActiveSession(cwd);
+  const root = getSessionsRoot(cwd);
+  const named = existsSync(root)
+    ? readdirSync(root, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && isValidSessionName(entry.name))
+        .map((entry) => entry.name)
+        .filter((name) => name !== DEFAULT_SESSION)
+        .sort()
+    : [];
+  return [DEFAULT_SESSION, ...named].map((name) => {
+    const historyPath = join(getChatStateDir(cwd, name), HISTORY_FILE);
+    return {
+      name,
+      active: name === active,
+      messages: readHistory(cwd, name).length,
+      ...(existsSync(historyPath) ? { updatedAt: statSync(historyPath).mtime } : {}),
+    };
+  });
+}
+
+/** Create an empty named session (its directory) if it does not exist yet. */
+export function createSession(cwd: string, name: string): SessionResult {
+  const invalid = checkName(name);
+  if (invalid) return invalid;
+  mkdirSync(getChatStateDir(cwd, name), { recursive: true });
+  return { ok: true };
+}
+
+/**
+ * Copy `from`'s history and summary cache into a new session `to`. Events, the usage log and
+ * file checkpoints stay with the original: usage is not counted twice, and undo in the fork
+ * only reaches back to the fork point.
+ */
+export function forkSession(cwd: string, from: string, to: string): SessionResult {
+  const problem = checkSource(cwd, from) ?? checkTarget(cwd, to);
+  if (problem) return problem;
+  const history = readHistory(cwd, from);
+  mkdirSync(getChatStateDir(cwd, to), { recursive: true });
+  writeHistory(cwd, history, to);
+  const summary = readSummaryState(cwd, from);
+  if (summary) writeSummaryState(cwd, summary, to);
+  return { ok: true };
+}
+
+/** Move all state of `from` to the new name `to`. Renaming "default" leaves it empty. */
+export function renameSession(cwd: string, from: string, to: string): SessionResult {
+  const problem = checkSource(cwd, from) ?? checkTarget(cwd, to);
+  if (problem) return problem;
+  const wasActive = readActiveSession(cwd) === from;
+  const fromDir = getChatStateDir(cwd, from);
+  const toDir = getChatStateDir(cwd, to);
+  mkdirSync(toDir, { recursive: true });
+  for (const file of SESSION_FILES) {
+    if (existsSync(join(fromDir, file))) renameSync(join(fromDir, file), join(toDir, file));
+  }
+  if (from !== DEFAULT_SESSION) rmSync(fromDir, { recursive: true, force: true });
+  if (wasActive) writeActiveSession(cwd, to);
+  return { ok: true };
+}
+
+/** Remove a named session; "default" is cleared instead. The active session falls back to default. */
+export function deleteSession(cwd: string, name: string): SessionResult {
+  const problem = checkSource(cwd, name);
+  if (problem) return problem;
+  if (name === DEFAULT_SESSION) {
+    clearHistory(cwd);
+    clearChatEvents(cwd);
+    clearCheckpoints(cwd);
+    return { ok: true };
+  }
+  const wasActive = readActiveSession(cwd) === name;
+  rmSync(getChatStateDir(cwd, name), { recursive: true, force: true });
+  if (wasActive) writeActiveSession(cwd, DEFAULT_SESSION);
+  return { ok: true };
+}
+
+export function formatSessionLine(session: SessionInfo): string {
+  const marker = session.active ? "*" : " ";
+  const messages = `${session.messages} message${session.messages === 1 ? "" : "s"}`;
+  const updated = session.updatedAt
+    ? `, last used ${session.updatedAt.toISOString().slice(0, 16).replace("T", " ")}`
+    : "";
+  return `${marker} ${session.name} (${messages}${updated})`;
+}
+
+export async function runSessionsList(): Promise<void> {
+  for (const session of listSessions(process.cwd())) console.log(formatSessionLine(session));
+}
+
+export async function runSessionsSwitch(name: string): Promise<void> {
+  const cwd = process.cwd();
+  exitOnError(checkSource(cwd, name));
+  writeActiveSession(cwd, name);
+  console.log(`Switched to session "${name}".`);
+}
+
+export async function runSessionsRename(from: string, to: string): Promise<void> {
+  exitOnError(renameSession(process.cwd(), from, to));
+  console.log(`Renamed session "${from}" to "${to}".`);
+}
+
+export async function runSessionsDelete(name: string): Promise<void> {
+  exitOnError(deleteSession(process.cwd(), name));
+  console.log(
+    name === DEFAULT_SESSION
+      ? 'Cleared the "default" session (it cannot be removed).'
+      : `Deleted session "${name}".`
+  );
+}
+
+export async function runSessionsFork(from: string, to: string): Promise<void> {
+  exitOnError(forkSession(process.cwd(), from, to));
+  console.log(`Forked "${from}" into "${to}". Continue it with: potion-kit chat --session ${to}`);
+}
+
+function exitOnError(result: SessionResult | null): void {
+  if (result && !result.ok) {
+    console.error(cli.error(`potion-kit: ${result.error}`));
+    process.exit(1);
+  }
+}
+
+function checkName(name: string): SessionResult | null {
+  if (isValidSessionName(name)) return null;
+  return {
+    ok: false,
+    error: `Invalid session name "${name}". Use letters, digits, ".", "_" and "-" (up to 64 characters).`,
+  };
+}
+
+function checkSource(cwd: string, name: string): SessionResult | null {
+  const invalid = checkName(name);
+  if (invalid) return invalid;
+  if (!sessionExists(cwd, name)) {
+    return {
+      ok: false,
+      error: `No session named "${name}". Run \`potion-kit sessions list\` to see them.`,
+    };
+  }
+  return null;
+}
+
+function checkTarget(cwd: string, name: string): SessionResult | null {
+  const invalid = checkName(name);
+  if (invalid) return invalid;
+  if (sessionExists(cwd, name)) {
+    return { ok: false, error: `A session named "${name}" already exists.` };
+  }
+  return null;
+}
@@ -0,0 +1,220 @@
+/**
+ * Slash commands for interactive chat (/clear, /undo, /model, …). They are handled locally
+ * and never sent to the model; an unknown slash command prints the help instead.
+ */
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ChatTurnTrace } from "../ai/client.js";
+import { formatUsage, type TokenUsage } from "../ai/usage.js";
+import { createPotionKitTools } from "../ai/tools.js";
+import { cli } from "../cli/formatting.js";
+import { readSummaryState, type HistoryMessage } from "./chat-history.js";
+import { readChatEvents } from "./chat-events.js";
+import { DEFAULT_SESSION } from "./chat-state.js";
+import { buildExportTurns, formatExportMarkdown } from "./export.js";
+import { formatSummaryCoverage } from "./summary-cache.js";
+import { clearChatState } from "./clear.js";
+import { isVerifiedWriteEvent } from "./reply-guard.js";
+import { printUndoResult, undoTurns } from "./undo.js";
+
+export interface SlashCommand {
+  name: string;
+  args: string;
+}
+
+export interface SlashCommandContext {
+  cwd: string;
+  /** Named chat session the commands act on (default session when omitted). */
+  session?: string;
+  /** Dry runs keep chat state in memory, so /clear and /undo must not touch disk. */
+  dryRun: boolean;
+  getHistory: () => HistoryMessage[];
+  setHistory: (history: HistoryMessage[]) => void;
+  getModel: () => string;
+  /** Switch the model used for the following turns. */
+  setModel: (model: string) => void;
+  /** Traces of the turns sent in this session, oldest first. */
+  getSessionTraces: () => ChatTurnTrace[];
+  /** Tokens used in this session; cost is undefined when a model has no configured price. */
+  getSessionUsage?: () => { usage: TokenUsage; cost: number | undefined };
+  print?: (text: string) => void;
+}
+
+const SLASH_COMMAND_HELP: Array<{ usage: string; description: string }> = [
+  {
+    usage: "/clear",
+    description: "Start a new conversation (history, summary, events, checkpoints)",
+  },
+  {
+    usage: "/undo [n]",
+    description: "Roll back the last n turns (default 1) and restore their files",
+  },
+  { usage: "/model <id>", description: "Switch the model for the rest of this session" },
+  { usage: "/history", description: "Show the conversation so far" },
+  { usage: "/summary", description: "Show the cached summary of older turns" },
+  { usage: "/tools", description: "List the tools the model can use" },
+  { usage: "/cost", description: "Show tokens, estimated cost and tool calls for this session" },
+  { usage: "/save <file>", description: "Save the conversation as Markdown" },
+  { usage: "/help", description: "Show this help" },
+];
+
+/** Max characters of each message shown by /history. */
+const HISTORY_PREVIEW_CHARS = 160;
+
+/** Parse "/name args" input; null if the input is not a slash command. */
+export function parseSlashCommand(input: string): SlashCommand | null {
+  const trimmed = input.trim();
+  if (!trimmed.startsWith("/")) return null;
+  const match = /^\/(\S*)\s*([\s\S]*)$/.exec(trimmed);
+  return { name: (match?.[1] ?? "").toLowerCase(), args: (match?.[2] ?? "").trim() };
+}
+
+export function formatSlashHelp(): string {
+  const width = Math.max(...SLASH_COMMAND_HELP.map((c) => c.usage.length));
+  return [
+    "Commands (handled locally, not sent to the model):",
+    ...SLASH_COMMAND_HELP.map((c) => `  ${c.usage.padEnd(width)}  ${c.description}`),
+    "  exit, quit, q  Leave the chat (or press Ctrl+C at the prompt)",
+  ].join("\n");
+}
+
+/**
+ * Run a slash command against the session. Returns false when the input is not a slash
+ * command (i.e. it should go to the model).
+ */
+export function runSlashCommand(input: string, ctx: SlashCommandContext): boolean {
+  const command = parseSlashCommand(input);
+  if (!command) return false;
+  const print = ctx.print ?? ((text: string) => console.log(text));
+
+  switch (command.name) {
+    case "clear":
+      if (!ctx.dryRun) clearChatState(ctx.cwd, ctx.session);
+      ctx.setHistory([]);
+      print(cli.intro("Conversation cleared. The next message starts a new conversation."));
+      break;
+    case "undo":
+      runUndoCommand(command.args, ctx, print);
+      break;
+    case "model":
+      if (!command.args) {
+        print(cli.intro(`Current model: ${ctx.getModel()}. Use /model <id> to switch.`));
+      } else {
+        ctx.setModel(command.args);
+        print(cli.intro(`Model switched to ${command.args} for the rest of this session.`));
+      }
+      break;
+    case "history":
+      print(formatHistory(ctx.getHistory()));
+      break;
+    case "summary":
+      print(formatSummary(ctx));
+      break;
+    case "tools":
+      print(formatTools());
+      break;
+    case "cost":
+      print(formatSessionActivity(ctx.getSessionTraces()));
+      if (ctx.getSessionUsage) {
+        const { usage, cost } = ctx.getSessionUsage();
+        print(`Tokens: ${formatUsage(usage, cost)}`);
+        if (cost === undefined) {
+          print(cli.intro('No price for this model; add it under "prices" in ./config.json.'));
+        }
+      }
+      break;
+    case "save":
+      saveTranscript(command.args, ctx, print);
+      break;
+    case "help":
+      print(formatSlashHelp());
+      break;
+    default:
+      print(cli.error(`Unknown command: /${command.name}`));
+      print(formatSlashHelp());
+  }
+  return true;
+}
+
+function runUndoCommand(args: string, ctx: SlashCommandContext, print: (text: string) => void) {
+  if (ctx.dryRun) {
+    print(cli.intro("Undo is not available in a dry run; nothing has been written."));
+    return;
+  }
+  const turns = args ? Number(args) : 1;
+  if (!Number.isInteger(turns) || turns < 1) {
+    print(cli.error("Usage: /undo [n] where n is a positive whole number."));
+    return;
+  }
+  const result = undoTurns(ctx.cwd, turns, ctx.session);
+  ctx.setHistory(ctx.getHistory().slice(0, result.historyLength));
+  printUndoResult(result, print);
+}
+
+function formatHistory(history: HistoryMessage[]): string {
+  if (history.length === 0) return cli.intro("No conversation yet.");
+  let turn = 0;
+  return history
+    .map((m) => {
+      if (m.role === "user") turn += 1;
+      const label = m.role === "user" ? cli.user(`[${turn}] You:`) : cli.agentLabel("Potion-kit:");
+      const text = m.content.replace(/\s+/g, " ").trim();
+      const preview =
+        text.length > HISTORY_PREVIEW_CHARS ? text.slice(0, HISTORY_PREVIEW_CHARS) + "…" : text;
+      return `${label} ${preview}`;
+    })
+    .join("\n");
+}
+
+function formatSummary(ctx: SlashCommandContext): string {
+  const state = readSummaryState(ctx.cwd, ctx.session);
+  if (!state) {
+    return cli.intro(
+      "No cached summary yet. Older turns are summarized once the history is longer than the recent tail sent with each message."
+    );
+  }
+  const total = ctx.getHistory().length;
+  return [cli.agentLabel(`${formatSummaryCoverage(state, total)}:`), "", state.summary].join("\n");
+}
+
+function formatTools(): string {
+  const tools = createPotionKitTools();
+  const lines = Object.entries(tools).map(([name, t]) => {
+    const description = (t as { description?: string }).description ?? "";
+    const firstSentence = /^[^.]*\.?/.exec(description)?.[0] ?? "";
+    return `  ${name}  ${cli.intro(firstSentence)}`;
+  });
+  return ["Tools available to the model:", ...lines].join("\n");
+}
+
+function formatSessionActivity(traces: ChatTurnTrace[]): string {
+  const steps = traces.reduce((sum, t) => sum + t.stepsUsed, 0);
+  const toolCalls = traces.reduce((sum, t) => sum + t.toolEvents.length, 0);
+  const writes = traces.reduce(
+    (sum, t) => sum + t.toolEvents.filter(isVerifiedWriteEvent).length,
+    0
+  );
+  return `This session: ${plural(traces.length, "turn")}, ${plural(steps, "model step")}, ${plural(toolCalls, "tool call")} (${plural(writes, "file write")}).`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function saveTranscript(file: string, ctx: SlashCommandContext, print: (text: string) => void) {
+  if (!file) {
+    print(cli.error("Usage: /save <file> (e.g. /save notes/chat.md)"));
+    return;
+  }
+  try {
+    // Same transcript as `potion-kit export`: turns with their recorded tools and notes.
+    const turns = buildExportTurns(ctx.getHistory(), readChatEvents(ctx.cwd, ctx.session));
+    const meta = { session: ctx.session ?? DEFAULT_SESSION, exportedAt: new Date().toISOString() };
+    writeFileSync(resolve(ctx.cwd, file), formatExportMarkdown(turns, meta), "utf-8");
+    print(cli.intro(`Conversation saved to ${file}.`));
+  } catch (err) {
+    print(
+      cli.error(`Could not save to ${file}: ${err instanceof Error ? err.message : String(err)}`)
+    );
+  }
+}
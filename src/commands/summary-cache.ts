@@ -100,6 +100,12 @@ export function splitSummaryChunks(
   return chunks;
 }
 
+/** e.g. "Summary of messages 2–14 of 30 (3 incremental updates since the last full refresh)" */
+export function formatSummaryCoverage(state: SummaryState, historyLength: number): string {
+  const updates = `${state.incrementalUpdates} incremental update${state.incrementalUpdates === 1 ? "" : "s"}`;
+  return `Summary of messages 2–${state.summarizedUntil} of ${historyLength} (${updates} since the last full refresh)`;
+}
+
 function estimateMessageChars(message: HistoryMessage): number {
   // Include small per-message overhead (role labels + separators) so chunking stays conservative.
   return message.content.length + 16;
@@ -0,0 +1,111 @@
+/**
+ * Summary command: inspect and regenerate the cached summary of older turns
+ * (chat-summary.json of the active session, or --session <name>). `show` prints it with its
+ * coverage, `refresh` re-summarizes from scratch, and `edit` opens the text in $EDITOR and
+ * saves the result as the new cache.
+ */
+import { loadLlmConfig } from "../config/index.js";
+import { cli } from "../cli/formatting.js";
+import { editText } from "../cli/editor.js";
+import { formatUsage } from "../ai/usage.js";
+import { readHistory, readSummaryState, writeSummaryState } from "./chat-history.js";
+import { formatSummaryCoverage } from "./summary-cache.js";
+import { isValidSessionName } from "./chat-state.js";
+import { readActiveSession, sessionExists } from "./sessions.js";
+import { refreshConversationSummary } from "./chat.js";
+import { printConfigError } from "./config-error.js";
+
+export interface SummaryCommandOptions {
+  session?: string;
+}
+
+const NO_SUMMARY_TEXT =
+  "No cached summary yet. Older turns are summarized once the history is longer than the recent tail sent with each message.";
+
+export async function runSummaryShow(options: SummaryCommandOptions = {}): Promise<void> {
+  const cwd = process.cwd();
+  const session = resolveSession(cwd, options.session);
+  const state = readSummaryState(cwd, session);
+  if (!state) {
+    console.log(cli.intro(NO_SUMMARY_TEXT));
+    return;
+  }
+  console.log(cli.agentLabel(`${formatSummaryCoverage(state, readHistory(cwd, session).length)}:`));
+  console.log("\n" + state.summary);
+}
+
+export async function runSummaryRefresh(options: SummaryCommandOptions = {}): Promise<void> {
+  const cwd = process.cwd();
+  const session = resolveSession(cwd, options.session);
+  const config = loadLlmConfig();
+  if (!config) {
+    printConfigError();
+    process.exit(1);
+  }
+  const result = await refreshConversationSummary(cwd, session, config);
+  if (!result.summary) {
+    console.log(
+      cli.intro(
+        "Nothing to summarize: the whole conversation still fits in the recent messages sent with each turn."
+      )
+    );
+    return;
+  }
+  if (result.source === "fallback-local") {
+    console.log(
+      cli.intro(
+        "The summary model gave no usable summary; saved a local condensed summary instead."
+      )
+    );
+  }
+  const state = result.persisted ? readSummaryState(cwd, session) : null;
+  if (state) {
+    console.log(
+      cli.agentLabel(`${formatSummaryCoverage(state, readHistory(cwd, session).length)}:`)
+    );
+  } else {
+    console.log(cli.error("Some chunks could not be summarized; the cache was not updated."));
+  }
+  console.log("\n" + result.summary);
+  if (result.usage) {
+    console.log("\n" + cli.intro(`Tokens: ${formatUsage(result.usage)}`));
+  }
+}
+
+export async function runSummaryEdit(options: SummaryCommandOptions = {}): Promise<void> {
+  const cwd = process.cwd();
+  const session = resolveSession(cwd, options.session);
+  const state = readSummaryState(cwd, session);
+  if (!state) {
+    exitWithError(
+      "no cached summary to edit yet. Older turns are summarized once the history is longer than the recent tail."
+    );
+  }
+  const edited = editText(state.summary + "\n", "chat-summary.md");
+  if (!edited.ok) exitWithError(edited.error);
+  const summary = edited.text.trim();
+  if (!summary) {
+    exitWithError(
+      "the edited summary is empty; nothing was saved. Use `potion-kit summary refresh` to regenerate it."
+    );
+  }
+  if (summary === state.summary) {
+    console.log("Summary unchanged.");
+    return;
+  }
+  writeSummaryState(cwd, { ...state, summary }, session);
+  console.log("Summary saved.");
+}
+
+function resolveSession(cwd: string, name: string | undefined): string {
+  const session = name ?? readActiveSession(cwd);
+  if (!isValidSessionName(session) || !sessionExists(cwd, session)) {
+    exitWithError(`no session named "${session}". Run \`potion-kit sessions list\` to see them.`);
+  }
+  return session;
+}
+
+function exitWithError(message: string): never {
+  console.error(cli.error(`potion-kit: ${message}`));
+  process.exit(1);
+}
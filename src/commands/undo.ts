@@ -0,0 +1,91 @@
+/**
+ * Undo command: roll back the last N chat turns. Files written in those turns are
+ * restored from their checkpoints (or deleted if the turn created them), and
+ * chat-history.json / chat-events.json are trimmed to match. A cached summary that covers undone
+ * turns is cleared so it is not reused. Works on the active session.
+ */
+import { cli } from "../cli/formatting.js";
+import { clearSummaryState, readHistory, readSummaryState, writeHistory } from "./chat-history.js";
+import { readChatEvents, writeChatEvents } from "./chat-events.js";
+import { readCheckpoints, restoreCheckpoint, writeCheckpoints } from "./checkpoints.js";
+import { readActiveSession } from "./sessions.js";
+
+export interface UndoResult {
+  /** Number of user turns removed from history. */
+  turnsUndone: number;
+  /** Project files put back to their pre-turn state. */
+  restoredFiles: string[];
+  /** History length after the undo. */
+  historyLength: number;
+}
+
+/**
+ * Undo the last `turns` turns of a session in the project at `cwd`. Checkpoints recorded for
+ * turns that failed before reaching history are rolled back too, since they sit after the cut point.
+ */
+export function undoTurns(cwd: string, turns: number, session?: string): UndoResult {
+  const history = readHistory(cwd, session);
+  let cut = history.length;
+  let turnsUndone = 0;
+  while (turnsUndone < turns && cut > 0) {
+    cut -= 1;
+    if (history[cut].role === "user") turnsUndone += 1;
+  }
+
+  const checkpoints = readCheckpoints(cwd, session);
+  const toRestore = checkpoints.filter((c) => c.historyLength >= cut);
+  const restored = new Set<string>();
+  for (const checkpoint of [...toRestore].reverse()) {
+    for (const path of restoreCheckpoint(cwd, checkpoint)) restored.add(path);
+  }
+  if (toRestore.length > 0) {
+    writeCheckpoints(
+      cwd,
+      checkpoints.filter((c) => c.historyLength < cut),
+      session
+    );
+  }
+
+  if (cut < history.length) {
+    writeHistory(cwd, history.slice(0, cut), session);
+    const events = readChatEvents(cwd, session);
+    const keptEvents = events.filter((e) => e.historyLength === undefined || e.historyLength < cut);
+    if (keptEvents.length !== events.length) writeChatEvents(cwd, keptEvents, session);
+    // The summary describes turns up to summarizedUntil; once history grows back past that
+    // point it would be reused and tell the model about rolled-back edits.
+    const summary = readSummaryState(cwd, session);
+    if (summary && cut < summary.summarizedUntil) clearSummaryState(cwd, session);
+  }
+
+  return { turnsUndone, restoredFiles: [...restored], historyLength: cut };
+}
+
+export async function runUndo(options: { turns?: string }): Promise<void> {
+  const turns = options.turns === undefined ? 1 : Number(options.turns);
+  if (!Number.isInteger(turns) || turns < 1) {
+    console.error(cli.error("potion-kit: --turns must be a positive whole number."));
+    process.exit(1);
+  }
+
+  const cwd = process.cwd();
+  printUndoResult(undoTurns(cwd, turns, readActiveSession(cwd)));
+}
+
+export function printUndoResult(
+  result: UndoResult,
+  print: (text: string) => void = (text) => console.log(text)
+): void {
+  if (result.turnsUndone === 0 && result.restoredFiles.length === 0) {
+    print("Nothing to undo for this project.");
+    return;
+  }
+  print(
+    `Undid ${result.turnsUndone} turn${result.turnsUndone === 1 ? "" : "s"}; chat history now has ${result.historyLength} messages.`
+  );
+  if (result.restoredFiles.length > 0) {
+    print("Restored files:");
+    for (const path of result.restoredFiles) print(`  ${path}`);
+  } else {
+    print("No file changes were recorded for those turns.");
+  }
+}
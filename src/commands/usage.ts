@@ -0,0 +1,149 @@
+/**
+ * Usage command: total the token usage recorded in usage-log.json of every chat session per
+ * day or per session, with estimated cost when ./config.json has a "prices" table.
+ */
+import { loadPriceTable, type PriceTable } from "../config/index.js";
+import {
+  addUsage,
+  emptyUsage,
+  estimateTurnCost,
+  formatCost,
+  formatUsage,
+  type TokenUsage,
+} from "../ai/usage.js";
+import { cli } from "../cli/formatting.js";
+import { readUsageLog, type UsageRecord } from "./chat-events.js";
+import { listSessions } from "./sessions.js";
+
+export type UsageGrouping = "day" | "session";
+
+/** Usage records of one chat session. */
+export interface SessionUsage {
+  session: string;
+  records: UsageRecord[];
+}
+
+export interface UsageRow {
+  label: string;
+  turns: number;
+  usage: TokenUsage;
+  /** Sum over turns whose model has a price. */
+  cost: number;
+  /** Turns with usage but no price for their model (cost is then a lower bound). */
+  unpricedTurns: number;
+}
+
+export interface UsageReport {
+  rows: UsageRow[];
+  total: UsageRow;
+  /** Turns recorded before usage tracking existed. */
+  turnsWithoutUsage: number;
+  /** Models seen without a price in the table. */
+  unpricedModels: string[];
+}
+
+export function buildUsageReport(
+  sessions: SessionUsage[],
+  by: UsageGrouping,
+  prices: PriceTable = {}
+): UsageReport {
+  const rows = new Map<string, UsageRow>();
+  const total = newRow("Total");
+  const unpricedModels = new Set<string>();
+  let turnsWithoutUsage = 0;
+
+  for (const { session, records } of sessions) {
+    for (const record of records) {
+      if (!record.usage && !record.summaryUsage) {
+        turnsWithoutUsage += 1;
+        continue;
+      }
+      const usage = addUsage(record.usage ?? emptyUsage(), record.summaryUsage ?? emptyUsage());
+      const cost = estimateTurnCost(prices, record);
+      if (cost === undefined) {
+        const used = [
+          ...(record.usage ? [record.model] : []),
+          ...(record.summaryUsage ? [record.summaryModel ?? record.model] : []),
+        ];
+        for (const model of used) {
+          if (!model || !prices[model]) unpricedModels.add(model ?? "(unknown model)");
+        }
+      }
+
+      const label = by === "day" ? record.timestamp.slice(0, 10) : session;
+      const row = rows.get(label) ?? newRow(label);
+      rows.set(label, row);
+      for (const target of [row, total]) {
+        target.turns += 1;
+        target.usage = addUsage(target.usage, usage);
+        if (cost === undefined) target.unpricedTurns += 1;
+        else target.cost += cost;
+      }
+    }
+  }
+
+  const sorted = [...rows.values()];
+  // Sessions keep their listing order; days from different sessions are interleaved.
+  if (by === "day") sorted.sort((a, b) => a.label.localeCompare(b.label));
+  return {
+    rows: sorted,
+    total,
+    turnsWithoutUsage,
+    unpricedModels: [...unpricedModels],
+  };
+}
+
+export function formatUsageRow(row: UsageRow): string {
+  const cost =
+    row.unpricedTurns === row.turns
+      ? "cost n/a"
+      : (row.unpricedTurns > 0 ? "≥ " : "") + formatCost(row.cost);
+  return `${row.turns} turn${row.turns === 1 ? "" : "s"} · ${formatUsage(row.usage)} · ${cost}`;
+}
+
+export async function runUsage(options: { by?: string }): Promise<void> {
+  const by = options.by ?? "day";
+  if (by !== "day" && by !== "session") {
+    console.error(cli.error('potion-kit: --by must be "day" or "session".'));
+    process.exit(1);
+  }
+
+  const cwd = process.cwd();
+  const sessions = listSessions(cwd).map((s) => ({
+    session: s.name,
+    records: readUsageLog(cwd, s.name),
+  }));
+  const report = buildUsageReport(sessions, by, loadPriceTable());
+  if (report.rows.length === 0) {
+    console.log("No token usage recorded for this project yet.");
+    if (report.turnsWithoutUsage > 0) {
+      console.log(
+        `${report.turnsWithoutUsage} earlier turns were recorded before usage tracking was added.`
+      );
+    }
+    return;
+  }
+
+  const width = Math.max(...report.rows.map((r) => r.label.length), report.total.label.length);
+  console.log(cli.agentLabel(`Usage by ${by === "day" ? "day (UTC)" : "chat session"}:`));
+  for (const row of report.rows) {
+    console.log(`  ${row.label.padEnd(width)}  ${formatUsageRow(row)}`);
+  }
+  console.log(`  ${report.total.label.padEnd(width)}  ${formatUsageRow(report.total)}`);
+  if (report.unpricedModels.length > 0) {
+    console.log(
+      cli.intro(
+        `No price for: ${report.unpricedModels.join(", ")}. Add them under "prices" in ./config.json (USD per million tokens).`
+      )
+    );
+  }
+  if (report.turnsWithoutUsage > 0) {
+    console.log(
+      cli.intro(`${report.turnsWithoutUsage} earlier turns have no usage data and are not counted.`)
+    );
+  }
+}
+
+function newRow(label: string): UsageRow {
+  return { label, turns: 0, usage: emptyUsage(), cost: 0, unpricedTurns: 0 };
+}
@@ -0,0 +1,111 @@
+/**
+ * Approval mode: before each project file write, pause the spinner, show a colored
+ * unified diff against the current file and ask the user to accept, reject, or accept
+ * all remaining writes in this turn. Commands a tool wants to run (the site build) are
+ * asked about the same way. Rejections go back to the model as tool errors.
+ */
+import type { WriteApprovalRequest } from "../ai/tools.js";
+import { cli } from "../cli/formatting.js";
+import { createUnifiedDiff, formatDiffForTerminal } from "../cli/diff.js";
+
+export type ApprovalAnswer = "accept" | "reject" | "accept-all";
+
+export interface WriteApprover {
+  approveWrite: (request: WriteApprovalRequest) => Promise<boolean>;
+  approveCommand: (command: string) => Promise<boolean>;
+  /** Forget "accept all" so the next turn asks again. */
+  resetForTurn: () => void;
+}
+
+const APPROVAL_QUESTION = "Apply this change? [y]es / [n]o / [a]ll remaining this turn: ";
+const COMMAND_QUESTION = "Run it? [y]es / [n]o / [a]ll remaining this turn: ";
+
+export function parseApprovalAnswer(input: string): ApprovalAnswer | null {
+  const answer = input.trim().toLowerCase();
+  if (answer === "y" || answer === "yes") return "accept";
+  if (answer === "n" || answer === "no") return "reject";
+  if (answer === "a" || answer === "all") return "accept-all";
+  return null;
+}
+
+/** e.g. "update src/styles/main.scss" or "move src/partials/nav.hbs to src/partials/navbar.hbs" */
+function describeChange(request: WriteApprovalRequest): string {
+  if (request.movedFrom) return `move ${request.movedFrom} to ${request.path}`;
+  if (request.nextContent === null) return `delete ${request.path}`;
+  return `${request.previousContent === null ? "create" : "update"} ${request.path}`;
+}
+
+export function createWriteApprover(params: {
+  ask: (question: string) => Promise<string>;
+  /** Stop the spinner while the user reads the diff. */
+  pause?: () => void;
+  /** Restart the spinner after the user answered. */
+  resume?: () => void;
+  print?: (text: string) => void;
+}): WriteApprover {
+  const { ask, pause, resume, print = (text) => console.log(text) } = params;
+  let acceptAll = false;
+  // Tool calls in one step can run in parallel; review them one at a time.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function review(request: WriteApprovalRequest): Promise<boolean> {
+    if (acceptAll) return true;
+    const diff = request.movedFrom
+      ? ""
+      : createUnifiedDiff(request.path, request.previousContent, request.nextContent);
+    if (!diff && !request.movedFrom) return true;
+    return confirm(
+      `potion-kit wants to ${describeChange(request)}:`,
+      diff,
+      request.path,
+      APPROVAL_QUESTION
+    );
+  }
+
+  /** Ask until the user answers; `subject` names what was rejected. */
+  async function confirm(
+    heading: string,
+    diff: string,
+    subject: string,
+    question: string
+  ): Promise<boolean> {
+    pause?.();
+    try {
+      print("\n" + cli.question(heading));
+      if (diff) print(formatDiffForTerminal(diff));
+      for (;;) {
+        const answer = parseApprovalAnswer(await ask(cli.question(question)));
+        if (answer === "accept") return true;
+        if (answer === "reject") {
+          print(cli.intro(`Rejected ${subject}; the model will be told.`));
+          return false;
+        }
+        if (answer === "accept-all") {
+          acceptAll = true;
+          return true;
+        }
+      }
+    } finally {
+      resume?.();
+    }
+  }
+
+  function enqueue(run: () => Promise<boolean>): Promise<boolean> {
+    const result = queue.then(run);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    approveWrite: (request) => enqueue(() => review(request)),
+    approveCommand: (command) =>
+      enqueue(async () =>
+        acceptAll
+          ? true
+          : confirm(`potion-kit wants to run ${command}:`, "", command, COMMAND_QUESTION)
+      ),
+    resetForTurn: () => {
+      acceptAll = false;
+    },
+  };
+}
@@ -1,2 +1,8 @@
-export type { LlmConfig, Provider } from "./types.js";
-export { loadLlmConfig, CONFIG_FILE } from "./load.js";
+export type { FallbackModel, LlmConfig, ModelPrice, PriceTable, Provider } from "./types.js";
+export {
+  loadLlmConfig,
+  loadPriceTable,
+  hasConfigFallbacks,
+  hasInvalidConfigSummaryBaseUrl,
+  CONFIG_FILE,
+} from "./load.js";
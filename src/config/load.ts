@@ -1,7 +1,7 @@
 import { readFileSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { config as loadEnv } from "dotenv";
-import type { LlmConfig, Provider } from "./types.js";
+import type { FallbackModel, LlmConfig, ModelPrice, PriceTable, Provider } from "./types.js";
 
 // Load .env from cwd (directory where the user ran potion-kit — works with global install).
 // Does not override existing process.env, so exported vars (e.g. OPENAI_API_KEY) take precedence.
@@ -18,12 +18,26 @@ const PROVIDER_ENV: Record<Provider, string> = {
   openai: "OPENAI_API_KEY",
   anthropic: "ANTHROPIC_API_KEY",
   moonshot: "MOONSHOT_API_KEY",
+  google: "GOOGLE_GENERATIVE_AI_API_KEY",
+  openrouter: "OPENROUTER_API_KEY",
+  "openai-compatible": "OPENAI_COMPATIBLE_API_KEY",
 };
 
 const DEFAULT_MODELS: Record<Provider, string> = {
   openai: "gpt-5.2",
   anthropic: "claude-sonnet-4-5",
   moonshot: "kimi-k2.5",
+  google: "gemini-2.5-pro",
+  openrouter: "anthropic/claude-sonnet-4.5",
+  "openai-compatible": "llama3.1",
+};
+
+/** Providers that work without an API key (local servers). */
+const KEY_OPTIONAL_PROVIDERS: Provider[] = ["openai-compatible"];
+
+/** Ollama's OpenAI-compatible endpoint; LM Studio and llama.cpp need POTION_KIT_BASE_URL. */
+const DEFAULT_BASE_URLS: Partial<Record<Provider, string>> = {
+  "openai-compatible": "http://localhost:11434/v1",
 };
 
 /**
@@ -31,8 +45,15 @@ const DEFAULT_MODELS: Record<Provider, string> = {
  * 1. Existing env vars (shell/process)
  * 2. .env in current working directory (dotenv fills only missing env vars)
  * 3. Optional file: ./config.json in current working directory
- *    (provider, model, maxHistoryMessages, maxToolSteps, maxOutputTokens; never put keys there)
- * Env vars used: POTION_KIT_PROVIDER, POTION_KIT_MODEL, OPENAI_API_KEY / ANTHROPIC_API_KEY / MOONSHOT_API_KEY.
+ *    (provider, model, baseUrl, supportsTools, maxHistoryMessages, maxToolSteps,
+ *    maxOutputTokens, contextTokenBudget, approveWrites, maxRetries, maxRetryWaitMs, summaryProvider, summaryModel, summaryBaseUrl,
+ *    summaryMaxOutputTokens, fallbacks, prices; never put keys there)
+ * Env vars used: POTION_KIT_PROVIDER, POTION_KIT_MODEL, and the provider's key: OPENAI_API_KEY /
+ *    ANTHROPIC_API_KEY / MOONSHOT_API_KEY / GOOGLE_GENERATIVE_AI_API_KEY / OPENROUTER_API_KEY
+ *    (optional OPENAI_COMPATIBLE_API_KEY for openai-compatible servers). Summary model overrides:
+ *    POTION_KIT_SUMMARY_PROVIDER, POTION_KIT_SUMMARY_MODEL, POTION_KIT_SUMMARY_BASE_URL,
+ *    POTION_KIT_SUMMARY_MAX_OUTPUT_TOKENS; a different summary provider needs its own key, and
+ *    so does each fallback (its provider's key env var, or the one named in "apiKeyEnv").
  *    See config.example.json in this package.
  */
 export function loadLlmConfig(): LlmConfig | null {
@@ -41,12 +62,22 @@ export function loadLlmConfig(): LlmConfig | null {
   const provider = (process.env.POTION_KIT_PROVIDER ?? file.provider) as Provider | undefined;
   const model = process.env.POTION_KIT_MODEL ?? file.model;
 
-  if (!provider || !["openai", "anthropic", "moonshot"].includes(provider)) {
+  if (!isProvider(provider)) {
     return null;
   }
 
-  const apiKey = process.env[PROVIDER_ENV[provider]] ?? process.env.POTION_KIT_API_KEY;
-  if (!apiKey || typeof apiKey !== "string") {
+  const apiKey = getApiKey(provider);
+  if (!apiKey && !KEY_OPTIONAL_PROVIDERS.includes(provider)) {
+    return null;
+  }
+
+  const summary = loadSummaryModelConfig(provider, file);
+  if (!summary) {
+    return null;
+  }
+
+  const fallbacks = parseFallbacks(file.fallbacks);
+  if (!fallbacks) {
     return null;
   }
 
@@ -57,24 +88,162 @@ export function loadLlmConfig(): LlmConfig | null {
   const maxOutputTokens = parsePositiveInt(
     process.env.POTION_KIT_MAX_OUTPUT_TOKENS ?? file.maxOutputTokens
   );
+  const contextTokenBudget = parsePositiveInt(
+    process.env.POTION_KIT_CONTEXT_TOKEN_BUDGET ?? file.contextTokenBudget
+  );
+  const approveWrites = parseBoolean(process.env.POTION_KIT_APPROVE_WRITES ?? file.approveWrites);
+  const maxRetries = parseNonNegativeInt(process.env.POTION_KIT_MAX_RETRIES ?? file.maxRetries);
+  const maxRetryWaitMs = parseNonNegativeInt(
+    process.env.POTION_KIT_MAX_RETRY_WAIT_MS ?? file.maxRetryWaitMs
+  );
+  const supportsTools = parseBoolean(process.env.POTION_KIT_SUPPORTS_TOOLS ?? file.supportsTools);
 
   return {
     provider,
     model: model ?? DEFAULT_MODELS[provider],
-    apiKey,
-    baseUrl: process.env.POTION_KIT_BASE_URL || undefined,
+    apiKey: apiKey || undefined,
+    baseUrl: process.env.POTION_KIT_BASE_URL || file.baseUrl || DEFAULT_BASE_URLS[provider],
+    supportsTools,
     maxHistoryMessages,
     maxToolSteps,
     maxOutputTokens,
+    contextTokenBudget,
+    approveWrites,
+    maxRetries,
+    maxRetryWaitMs,
+    ...summary,
+    ...(fallbacks.length > 0 ? { fallbacks } : {}),
+    prices: file.prices,
+  };
+}
+
+function isProvider(value: string | undefined): value is Provider {
+  return value !== undefined && Object.hasOwn(PROVIDER_ENV, value);
+}
+
+function getApiKey(provider: Provider): string | undefined {
+  return process.env[PROVIDER_ENV[provider]] || process.env.POTION_KIT_API_KEY || undefined;
+}
+
+/**
+ * Summary model settings. Returns null (config error) when the summary provider is unknown or
+ * lacks its API key, so a typo does not silently fall back to the expensive chat model, and
+ * when "summaryBaseUrl" in ./config.json is not a string.
+ */
+function loadSummaryModelConfig(
+  chatProvider: Provider,
+  file: ReturnType<typeof readConfigFile>
+): Pick<
+  LlmConfig,
+  "summaryProvider" | "summaryModel" | "summaryApiKey" | "summaryBaseUrl" | "summaryMaxOutputTokens"
+> | null {
+  const provider = process.env.POTION_KIT_SUMMARY_PROVIDER || file.summaryProvider;
+  const summaryMaxOutputTokens = parsePositiveInt(
+    process.env.POTION_KIT_SUMMARY_MAX_OUTPUT_TOKENS ?? file.summaryMaxOutputTokens
+  );
+  let summaryModel = process.env.POTION_KIT_SUMMARY_MODEL || file.summaryModel || undefined;
+  if (file.summaryBaseUrl !== undefined && typeof file.summaryBaseUrl !== "string") return null;
+  const summaryBaseUrl =
+    process.env.POTION_KIT_SUMMARY_BASE_URL || file.summaryBaseUrl || undefined;
+  if (provider === undefined || provider === chatProvider) {
+    return {
+      summaryProvider: provider,
+      summaryModel,
+      summaryBaseUrl,
+      summaryMaxOutputTokens,
+    };
+  }
+  if (!isProvider(provider)) return null;
+  const summaryApiKey = getApiKey(provider);
+  if (!summaryApiKey && !KEY_OPTIONAL_PROVIDERS.includes(provider)) return null;
+  summaryModel ??= DEFAULT_MODELS[provider];
+  return {
+    summaryProvider: provider,
+    summaryModel,
+    summaryApiKey,
+    summaryBaseUrl: summaryBaseUrl ?? DEFAULT_BASE_URLS[provider],
+    summaryMaxOutputTokens,
   };
 }
 
+/**
+ * Fallback chain from ./config.json: [{ "provider", "model"?, "baseUrl"?, "apiKeyEnv"?,
+ * "supportsTools"?, "maxOutputTokens"? }, …].
+ * Returns null (config error) when an entry has an unknown provider or its key is not set,
+ * so a broken fallback is reported up front rather than when the primary model fails.
+ */
+function parseFallbacks(value: unknown): FallbackModel[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const fallbacks: FallbackModel[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== "object") return null;
+    const entry = raw as Record<string, unknown>;
+    const provider = typeof entry.provider === "string" ? entry.provider : undefined;
+    if (!isProvider(provider)) return null;
+    const apiKey =
+      typeof entry.apiKeyEnv === "string" && entry.apiKeyEnv
+        ? process.env[entry.apiKeyEnv] || undefined
+        : getApiKey(provider);
+    if (!apiKey && !KEY_OPTIONAL_PROVIDERS.includes(provider)) return null;
+    const maxOutputTokens =
+      typeof entry.maxOutputTokens === "number"
+        ? parsePositiveInt(entry.maxOutputTokens)
+        : undefined;
+    fallbacks.push({
+      provider,
+      model:
+        typeof entry.model === "string" && entry.model ? entry.model : DEFAULT_MODELS[provider],
+      apiKey,
+      baseUrl:
+        typeof entry.baseUrl === "string" && entry.baseUrl
+          ? entry.baseUrl
+          : DEFAULT_BASE_URLS[provider],
+      ...(typeof entry.supportsTools === "boolean" ? { supportsTools: entry.supportsTools } : {}),
+      ...(maxOutputTokens !== undefined ? { maxOutputTokens } : {}),
+    });
+  }
+  return fallbacks;
+}
+
+/**
+ * Price table from ./config.json ("prices": { "<model>": { "input", "output", "cachedInput"? } },
+ * USD per million tokens). Needs no API key, so `potion-kit usage` works without LLM config.
+ */
+export function loadPriceTable(): PriceTable | undefined {
+  return readConfigFile().prices;
+}
+
+/** Whether "summaryBaseUrl" in ./config.json is set but not a string (for config error hints). */
+export function hasInvalidConfigSummaryBaseUrl(): boolean {
+  const value = readConfigFile().summaryBaseUrl;
+  return value !== undefined && typeof value !== "string";
+}
+
+/** Whether ./config.json has a "fallbacks" key (for config error hints). */
+export function hasConfigFallbacks(): boolean {
+  return readConfigFile().fallbacks !== undefined;
+}
+
 function readConfigFile(): {
   provider?: string;
   model?: string;
+  baseUrl?: string;
+  supportsTools?: boolean;
   maxHistoryMessages?: number;
   maxToolSteps?: number;
   maxOutputTokens?: number;
+  contextTokenBudget?: number;
+  approveWrites?: boolean;
+  maxRetries?: number;
+  maxRetryWaitMs?: number;
+  summaryProvider?: string;
+  summaryModel?: string;
+  /** Checked in loadSummaryModelConfig: a non-string value is a config error. */
+  summaryBaseUrl?: unknown;
+  summaryMaxOutputTokens?: number;
+  fallbacks?: unknown;
+  prices?: PriceTable;
 } {
   const configPath = join(process.cwd(), CONFIG_FILE);
   if (!existsSync(configPath)) {
@@ -85,16 +254,40 @@ function readConfigFile(): {
     const data = JSON.parse(raw) as {
       provider?: string;
       model?: string;
+      baseUrl?: unknown;
+      supportsTools?: boolean;
       maxHistoryMessages?: number;
       maxToolSteps?: number;
       maxOutputTokens?: number;
+      contextTokenBudget?: number;
+      approveWrites?: boolean;
+      maxRetries?: number;
+      maxRetryWaitMs?: number;
+      summaryProvider?: string;
+      summaryModel?: string;
+      summaryBaseUrl?: unknown;
+      summaryMaxOutputTokens?: number;
+      fallbacks?: unknown;
+      prices?: unknown;
     };
     return {
       provider: data.provider,
       model: data.model,
+      baseUrl: typeof data.baseUrl === "string" && data.baseUrl ? data.baseUrl : undefined,
+      supportsTools: data.supportsTools,
       maxHistoryMessages: data.maxHistoryMessages,
       maxToolSteps: data.maxToolSteps,
       maxOutputTokens: data.maxOutputTokens,
+      contextTokenBudget: data.contextTokenBudget,
+      approveWrites: data.approveWrites,
+      maxRetries: data.maxRetries,
+      maxRetryWaitMs: data.maxRetryWaitMs,
+      summaryProvider: data.summaryProvider,
+      summaryModel: data.summaryModel,
+      summaryBaseUrl: data.summaryBaseUrl === "" ? undefined : data.summaryBaseUrl,
+      summaryMaxOutputTokens: data.summaryMaxOutputTokens,
+      fallbacks: data.fallbacks,
+      prices: parsePriceTable(data.prices),
     };
   } catch {
     return {};
@@ -113,3 +306,39 @@ function parsePositiveInt(value: string | number | undefined): number | undefine
   if (!Number.isFinite(n) || n < 1) return undefined;
   return n;
 }
+
+/** Like parsePositiveInt, but 0 is allowed (e.g. maxRetries: 0 turns retries off). */
+function parseNonNegativeInt(value: string | number | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = typeof value === "string" ? parseInt(value, 10) : value;
+  if (!Number.isFinite(n) || n < 0) return undefined;
+  return Math.floor(n);
+}
+
+/** Keep only entries with non-negative numeric input/output prices. */
+function parsePriceTable(value: unknown): PriceTable | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const table: PriceTable = {};
+  for (const [model, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!raw || typeof raw !== "object") continue;
+    const entry = raw as Record<string, unknown>;
+    if (!isPrice(entry.input) || !isPrice(entry.output)) continue;
+    const price: ModelPrice = { input: entry.input, output: entry.output };
+    if (isPrice(entry.cachedInput)) price.cachedInput = entry.cachedInput;
+    table[model] = price;
+  }
+  return Object.keys(table).length > 0 ? table : undefined;
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function parseBoolean(value: string | boolean | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === "boolean") return value;
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(normalized)) return true;
+  if (["0", "false", "no", "off"].includes(normalized)) return false;
+  return undefined;
+}
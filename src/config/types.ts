@@ -1,18 +1,80 @@
 /**
- * Supported LLM providers. Add more as needed (google, openrouter, etc.).
+ * Supported LLM providers. "google" is Gemini via Google AI Studio; "openrouter" routes
+ * to many vendors' models with one key (model ids like "anthropic/claude-sonnet-4.5").
+ * "openai-compatible" is any chat-completions server (Ollama, LM Studio, llama.cpp, vLLM).
  */
-export type Provider = "openai" | "anthropic" | "moonshot";
+export type Provider =
+  "openai" | "anthropic" | "moonshot" | "google" | "openrouter" | "openai-compatible";
 
 export interface LlmConfig {
   provider: Provider;
   model: string;
-  apiKey: string;
-  /** Optional base URL for the chosen provider (e.g. proxy, LiteLLM). */
+  /** API key; optional only for openai-compatible (local servers usually need none). */
+  apiKey?: string;
+  /** Optional base URL for the chosen provider (e.g. proxy, LiteLLM, local server). */
   baseUrl?: string;
+  /**
+   * Whether the model can call tools. Default true. When false, chat runs without the
+   * project tools (the model cannot read or write files) and a warning is shown.
+   */
+  supportsTools?: boolean;
   /** Max number of conversation turns (user + assistant pairs) sent to the API. Default 10. */
   maxHistoryMessages?: number;
   /** Max tool steps per turn. Default 16. */
   maxToolSteps?: number;
   /** Max output tokens per turn. Default 16384. */
   maxOutputTokens?: number;
+  /**
+   * Estimated input tokens a request may use for the prompt and conversation. Recent messages
+   * that do not fit move into the summary. Default: most of the model's context window.
+   */
+  contextTokenBudget?: number;
+  /** Show a diff and ask before each file write (approval mode). Default false. */
+  approveWrites?: boolean;
+  /** Retries of a failed model call (rate limit, 5xx, network error). Default 3; 0 disables. */
+  maxRetries?: number;
+  /** Cap on the total time one model call waits between retries. Default 120000 (2 minutes). */
+  maxRetryWaitMs?: number;
+  /**
+   * Cheaper model for summarizing older turns. When neither summaryProvider nor summaryModel
+   * is set, summaries use the chat model. summaryApiKey is only set when the summary provider
+   * differs from the chat provider; summaryBaseUrl is set whenever it is configured.
+   */
+  summaryProvider?: Provider;
+  summaryModel?: string;
+  summaryApiKey?: string;
+  summaryBaseUrl?: string;
+  /** Max output tokens per summarization call. Default 512 (320 for the shorter retry). */
+  summaryMaxOutputTokens?: number;
+  /**
+   * Models tried in order when the primary fails with a retryable error (5xx, overload,
+   * repeated 429). Only read from ./config.json; each key comes from its provider's env var.
+   */
+  fallbacks?: FallbackModel[];
+  /** Optional prices used to estimate cost in usage footers and `potion-kit usage`. */
+  prices?: PriceTable;
 }
+
+/**
+ * One entry of the fallback chain, resolved with its own API key and base URL. supportsTools
+ * and maxOutputTokens are this model's own; unset means the default, not the primary's value.
+ */
+export interface FallbackModel {
+  provider: Provider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  supportsTools?: boolean;
+  maxOutputTokens?: number;
+}
+
+/** USD per million tokens for one model. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Price for cached input tokens; defaults to the input price. */
+  cachedInput?: number;
+}
+
+/** Prices keyed by model id (e.g. "gpt-5.2"). Only read from ./config.json. */
+export type PriceTable = Record<string, ModelPrice>;
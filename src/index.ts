@@ -4,8 +4,27 @@ import { readFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { Command } from "commander";
-import { runChat } from "./commands/chat.js";
+import { runChat, type ChatCommandOptions } from "./commands/chat.js";
 import { runClear } from "./commands/clear.js";
+import { runUndo } from "./commands/undo.js";
+import { runUsage } from "./commands/usage.js";
+import { runExport } from "./commands/export.js";
+import {
+  runSessionsDelete,
+  runSessionsFork,
+  runSessionsList,
+  runSessionsRename,
+  runSessionsSwitch,
+} from "./commands/sessions.js";
+import { runMemoryClear, runMemoryEdit, runMemoryShow } from "./commands/memory.js";
+import { runHistorySearch, runHistoryShow } from "./commands/history.js";
+import { runLint } from "./commands/lint.js";
+import {
+  runSummaryEdit,
+  runSummaryRefresh,
+  runSummaryShow,
+  type SummaryCommandOptions,
+} from "./commands/summary.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 // Built output is dist/index.js → package.json is one level up
@@ -26,8 +45,16 @@ program
   .description(
     "Chat with the AI. Conversation is kept in .potion-kit/ so you can build the site over multiple turns."
   )
-  .action(async (messageParts: string[]) => {
-    await runChat(messageParts ?? []);
+  .option("--approve", "Show a diff and ask before each file the AI writes")
+  .option("--dry-run", "Keep file writes in memory and list the intended changes at the end")
+  .option("--save-patch <file>", "With --dry-run: save the intended changes as a patch file")
+  .option(
+    "--input-file <path>",
+    'Read the message from a file ("-" for stdin) and exit after the reply'
+  )
+  .option("--session <name>", "Chat in a named session (created if new) and make it active")
+  .action(async (messageParts: string[], options: ChatCommandOptions) => {
+    await runChat(messageParts ?? [], options);
   });
 
 program
@@ -37,4 +64,156 @@ program
     await runClear();
   });
 
+program
+  .command("undo")
+  .description(
+    "Undo the last chat turn(s): restore files the AI changed and remove the turns from history"
+  )
+  .option("-t, --turns <n>", "Number of turns to undo", "1")
+  .action(async (options: { turns?: string }) => {
+    await runUndo(options);
+  });
+
+program
+  .command("usage")
+  .description("Show token usage and estimated cost for this project, per day or chat session")
+  .option("--by <grouping>", 'Group by "day" or "session"', "day")
+  .action(async (options: { by?: string }) => {
+    await runUsage(options);
+  });
+
+program
+  .command("export")
+  .description(
+    "Export the conversation with the tools each turn used as a Markdown, HTML or JSON transcript"
+  )
+  .option("--format <format>", 'Output format: "md", "html" or "json"', "md")
+  .option("--out <file>", "Write to a file instead of stdout")
+  .option("--session <name>", "Export this session instead of the active one")
+  .action(async (options: { format?: string; out?: string; session?: string }) => {
+    await runExport(options);
+  });
+
+const sessions = program
+  .command("sessions")
+  .description("Manage named chat sessions (separate conversations in the same project)");
+
+sessions
+  .command("list", { isDefault: true })
+  .description("List sessions; * marks the active one")
+  .action(async () => {
+    await runSessionsList();
+  });
+
+sessions
+  .command("switch <name>")
+  .description("Make a session the active one for chat, clear and undo")
+  .action(async (name: string) => {
+    await runSessionsSwitch(name);
+  });
+
+sessions
+  .command("rename <from> <to>")
+  .description("Rename a session")
+  .action(async (from: string, to: string) => {
+    await runSessionsRename(from, to);
+  });
+
+sessions
+  .command("delete <name>")
+  .description('Delete a session and its history ("default" is cleared instead)')
+  .action(async (name: string) => {
+    await runSessionsDelete(name);
+  });
+
+sessions
+  .command("fork <from> <to>")
+  .description("Copy a session's conversation into a new session to branch an idea")
+  .action(async (from: string, to: string) => {
+    await runSessionsFork(from, to);
+  });
+
+const memory = program
+  .command("memory")
+  .description(
+    "Project memory the AI keeps in .potion-kit/ (site purpose, brand colors, potions, pages, decisions, TODOs)"
+  );
+
+memory
+  .command("show", { isDefault: true })
+  .description("Print the project memory")
+  .action(async () => {
+    await runMemoryShow();
+  });
+
+memory
+  .command("edit")
+  .description("Edit the project memory as JSON in $EDITOR")
+  .action(async () => {
+    await runMemoryEdit();
+  });
+
+memory
+  .command("clear")
+  .description("Delete the project memory")
+  .action(async () => {
+    await runMemoryClear();
+  });
+
+const summary = program
+  .command("summary")
+  .description("Inspect or regenerate the cached summary of older chat turns");
+
+summary
+  .command("show", { isDefault: true })
+  .description("Print the cached summary and which messages it covers")
+  .option("--session <name>", "Use this session instead of the active one")
+  .action(async (options: SummaryCommandOptions) => {
+    await runSummaryShow(options);
+  });
+
+summary
+  .command("refresh")
+  .description("Re-summarize older turns from scratch and replace the cache")
+  .option("--session <name>", "Use this session instead of the active one")
+  .action(async (options: SummaryCommandOptions) => {
+    await runSummaryRefresh(options);
+  });
+
+summary
+  .command("edit")
+  .description("Edit the cached summary in $EDITOR")
+  .option("--session <name>", "Use this session instead of the active one")
+  .action(async (options: SummaryCommandOptions) => {
+    await runSummaryEdit(options);
+  });
+
+const history = program
+  .command("history")
+  .description("Search past turns of all sessions and show one turn with its tool events");
+
+history
+  .command("search <query...>")
+  .description("Find turns whose messages or touched file paths contain the query")
+  .action(async (queryParts: string[]) => {
+    await runHistorySearch(queryParts.join(" "));
+  });
+
+history
+  .command("show <turn>")
+  .description("Print one turn with the tools it called")
+  .option("--session <name>", "Use this session instead of the active one")
+  .action(async (turn: string, options: { session?: string }) => {
+    await runHistoryShow(turn, options);
+  });
+
+program
+  .command("lint")
+  .description(
+    "Check src/ for Harold rule violations (inline styles/scripts, absolute links, missing partials, unbalanced blocks)"
+  )
+  .action(async () => {
+    await runLint();
+  });
+
 program.parse();
@@ -3,7 +3,7 @@
  */
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { mkdtempSync, rmSync } from "node:fs";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { appendChatEvent, clearChatEvents, readChatEvents } from "../src/commands/chat-events.js";
@@ -34,6 +34,63 @@ describe("chat-events", () => {
     }
   });
 
+  it("keeps token usage and drops events with malformed usage", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-events-"));
+    try {
+      const usage = {
+        inputTokens: 1200,
+        outputTokens: 300,
+        cachedInputTokens: 800,
+        reasoningTokens: 0,
+      };
+      appendChatEvent(dir, {
+        timestamp: "2026-02-18T12:00:00.000Z",
+        trace: { toolEvents: [], stepsUsed: 1, finishReason: "stop", usage, stepUsage: [usage] },
+        hasVerifiedWrite: false,
+        replyWasGuarded: false,
+        model: "gpt-5.2",
+        runId: "2026-02-18T11:59:00.000Z",
+        summaryUsage: usage,
+      });
+      const raw = JSON.parse(readFileSync(join(dir, ".potion-kit", "chat-events.json"), "utf-8"));
+      raw.push({ ...raw[0], summaryUsage: { inputTokens: "many" } });
+      writeFileSync(join(dir, ".potion-kit", "chat-events.json"), JSON.stringify(raw), "utf-8");
+
+      const events = readChatEvents(dir);
+      assert.strictEqual(events.length, 1);
+      assert.deepStrictEqual(events[0].trace.usage, usage);
+      assert.strictEqual(events[0].model, "gpt-5.2");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the build outcome and drops events with a malformed one", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-events-"));
+    try {
+      appendChatEvent(dir, {
+        timestamp: "2026-02-18T12:00:00.000Z",
+        trace: {
+          toolEvents: [{ toolName: "run_site_build", ok: true }],
+          stepsUsed: 2,
+          finishReason: "stop",
+        },
+        hasVerifiedWrite: false,
+        replyWasGuarded: false,
+        build: { passed: false, errorCount: 2 },
+      });
+      const raw = JSON.parse(readFileSync(join(dir, ".potion-kit", "chat-events.json"), "utf-8"));
+      raw.push({ ...raw[0], build: { passed: "no" } });
+      writeFileSync(join(dir, ".potion-kit", "chat-events.json"), JSON.stringify(raw), "utf-8");
+
+      const events = readChatEvents(dir);
+      assert.strictEqual(events.length, 1);
+      assert.deepStrictEqual(events[0].build, { passed: false, errorCount: 2 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
   it("clearChatEvents resets ledger to empty array", () => {
     const dir = mkdtempSync(join(tmpdir(), "potion-kit-events-"));
     try {
@@ -0,0 +1,79 @@
+/**
+ * Chat input: multiline collection at the prompt and reading one-shot messages from files.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createMultilineInput, readInputFile } from "../src/commands/chat-input.js";
+
+describe("chat-input", () => {
+  describe("createMultilineInput", () => {
+    it("returns a single line as-is", () => {
+      const input = createMultilineInput();
+      assert.strictEqual(input.push("make a blog"), "make a blog");
+      assert.strictEqual(input.isPending(), false);
+    });
+
+    it("joins lines ending with a backslash", () => {
+      const input = createMultilineInput();
+      assert.strictEqual(input.push("Build a landing page \\"), null);
+      assert.strictEqual(input.isPending(), true);
+      assert.strictEqual(input.push("with a hero \\"), null);
+      assert.strictEqual(
+        input.push("and a footer"),
+        "Build a landing page \nwith a hero \nand a footer"
+      );
+      assert.strictEqual(input.isPending(), false);
+    });
+
+    it("collects a triple-quote block verbatim", () => {
+      const input = createMultilineInput();
+      assert.strictEqual(input.push('"""Use this header:'), null);
+      assert.strictEqual(input.push('<header class="site">'), null);
+      assert.strictEqual(input.push("  exit"), null);
+      assert.strictEqual(input.push("</header>"), null);
+      assert.strictEqual(
+        input.push('"""'),
+        'Use this header:\n<header class="site">\n  exit\n</header>\n'
+      );
+    });
+
+    it("accepts a one-line triple-quote block", () => {
+      const input = createMultilineInput();
+      assert.strictEqual(input.push('"""add a footer"""'), "add a footer");
+    });
+
+    it("keeps pasted lines together until the next Enter", () => {
+      const input = createMultilineInput();
+      assert.strictEqual(input.push("<nav>", { pasted: true }), null);
+      assert.strictEqual(input.push("  <a href='/'>Home</a>", { pasted: true }), null);
+      assert.strictEqual(
+        input.push("</nav> use this navbar"),
+        "<nav>\n  <a href='/'>Home</a>\n</nav> use this navbar"
+      );
+    });
+
+    it("reset drops a partial message", () => {
+      const input = createMultilineInput();
+      input.push('"""draft');
+      input.reset();
+      assert.strictEqual(input.isPending(), false);
+      assert.strictEqual(input.push("fresh"), "fresh");
+    });
+  });
+
+  describe("readInputFile", () => {
+    it("reads a file relative to cwd", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-input-"));
+      try {
+        writeFileSync(join(dir, "brief.md"), "# Brief\n\nA portfolio site.\n", "utf-8");
+        assert.strictEqual(await readInputFile(dir, "brief.md"), "# Brief\n\nA portfolio site.\n");
+        await assert.rejects(() => readInputFile(dir, "missing.md"), /ENOENT/);
+      } finally {
+        rmSync(dir, { recursive: true });
+      }
+    });
+  });
+});
@@ -4,6 +4,8 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
 import { buildMessages } from "../src/commands/chat-messages.js";
+import { planContext } from "../src/commands/context-budget.js";
+import { emptyProjectMemory } from "../src/ai/project-memory.js";
 
 const sys = "System prompt";
 
@@ -60,4 +62,28 @@ describe("chat-messages", () => {
     assert.strictEqual(out[13].content, "Current");
     assert.strictEqual(out.length, 14);
   });
+
+  it("uses the context plan's first message and tail when given", () => {
+    const h = [msg("user", "First"), msg("assistant", "x".repeat(40_000)), msg("user", "Next")];
+    const context = planContext(h, { maxHistoryMessages: 10, budget: 4000, reservedTokens: 0 });
+    const out = buildMessages(sys, h, "Now", 10, null, context);
+    assert.strictEqual(out[1].content, "First");
+    assert.ok((out[2].content as string).includes("characters omitted"));
+    assert.strictEqual(out[3].content, "Next");
+    assert.strictEqual(out[4].content, "Now");
+  });
+
+  it("appends the project memory to the system prompt", () => {
+    const memory = { ...emptyProjectMemory(), sitePurpose: "Bakery site", todos: ["Add menu"] };
+    const out = buildMessages(sys, [], "Hello", 10, null, undefined, memory);
+    const system = out[0].content as string;
+    assert.ok(system.includes("## Project memory"));
+    assert.ok(system.includes("Site purpose: Bakery site"));
+    assert.ok(system.includes("Open TODOs:\n- Add menu"));
+
+    const empty = buildMessages(sys, [], "Hello", 10, null, undefined, emptyProjectMemory());
+    assert.ok((empty[0].content as string).includes("(empty"));
+    const none = buildMessages(sys, [], "Hello", 10, null);
+    assert.ok(!(none[0].content as string).includes("## Project memory"));
+  });
 });
@@ -0,0 +1,77 @@
+/**
+ * Checkpoints: per-turn file snapshots and restore.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  appendCheckpoint,
+  clearCheckpoints,
+  createCheckpointRecorder,
+  readCheckpoints,
+  restoreCheckpoint,
+} from "../src/commands/checkpoints.js";
+
+describe("checkpoints", () => {
+  it("recorder keeps only the first snapshot per path", () => {
+    const recorder = createCheckpointRecorder();
+    recorder.record({ path: "src/styles/main.scss", previousContent: "original" });
+    recorder.record({ path: "src/styles/main.scss", previousContent: "after first write" });
+    recorder.record({ path: "src/pages/new.hbs", previousContent: null });
+    assert.deepStrictEqual(recorder.files(), [
+      { path: "src/styles/main.scss", previousContent: "original" },
+      { path: "src/pages/new.hbs", previousContent: null },
+    ]);
+    recorder.reset();
+    assert.deepStrictEqual(recorder.files(), []);
+  });
+
+  it("appends, reads and clears checkpoints", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-checkpoints-"));
+    try {
+      appendCheckpoint(dir, {
+        id: "2026-02-18T12:00:00.000Z",
+        historyLength: 2,
+        files: [{ path: "src/pages/index.hbs", previousContent: "<h1>Old</h1>" }],
+      });
+      const checkpoints = readCheckpoints(dir);
+      assert.strictEqual(checkpoints.length, 1);
+      assert.strictEqual(checkpoints[0].historyLength, 2);
+      clearCheckpoints(dir);
+      assert.deepStrictEqual(readCheckpoints(dir), []);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("restores previous content and deletes files created in the turn", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-checkpoints-"));
+    try {
+      mkdirSync(join(dir, "src", "pages"), { recursive: true });
+      writeFileSync(join(dir, "src", "pages", "index.hbs"), "<h1>New</h1>");
+      writeFileSync(join(dir, "src", "pages", "about.hbs"), "<h1>About</h1>");
+
+      const restored = restoreCheckpoint(dir, {
+        id: "t1",
+        historyLength: 0,
+        files: [
+          { path: "src/pages/index.hbs", previousContent: "<h1>Old</h1>" },
+          { path: "src/pages/about.hbs", previousContent: null },
+          { path: "../outside.hbs", previousContent: "nope" },
+        ],
+      });
+
+      assert.deepStrictEqual(restored, ["src/pages/index.hbs", "src/pages/about.hbs"]);
+      assert.strictEqual(
+        readFileSync(join(dir, "src", "pages", "index.hbs"), "utf-8"),
+        "<h1>Old</h1>"
+      );
+      assert.strictEqual(existsSync(join(dir, "src", "pages", "about.hbs")), false);
+      assert.strictEqual(existsSync(join(dir, "..", "outside.hbs")), false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -8,6 +8,7 @@ import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { writeHistory, writeSummaryState } from "../src/commands/chat-history.js";
 import { appendChatEvent } from "../src/commands/chat-events.js";
+import { appendCheckpoint } from "../src/commands/checkpoints.js";
 import { runClear } from "../src/commands/clear.js";
 
 describe("clear", () => {
@@ -40,6 +41,12 @@ describe("clear", () => {
         replyWasGuarded: false,
       });
 
+      appendCheckpoint(dir, {
+        id: "2026-02-18T12:00:00.000Z",
+        historyLength: 0,
+        files: [{ path: "src/pages/index.hbs", previousContent: null }],
+      });
+
       console.log = (...args: unknown[]) => logs.push(args.join(" "));
       await runClear();
 
@@ -52,6 +59,7 @@ describe("clear", () => {
       assert.strictEqual(readFileSync(historyPath, "utf-8"), "[]");
       assert.strictEqual(readFileSync(summaryPath, "utf-8"), "{}");
       assert.strictEqual(readFileSync(eventsPath, "utf-8"), "[]");
+      assert.strictEqual(readFileSync(join(dir, ".potion-kit", "checkpoints.json"), "utf-8"), "[]");
       assert.ok(
         logs.some((line) =>
           line.includes(
@@ -0,0 +1,136 @@
+/**
+ * Chat client: the reply of multi-step turns, and tool events read from finished steps.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createChat, extractToolEvents } from "../src/ai/client.js";
+
+/** Streamed chat-completions chunks: step 1 says something and lists files, step 2 answers. */
+const STEPS = [
+  [
+    { delta: { role: "assistant", content: "Let me look at your files." } },
+    {
+      delta: {
+        tool_calls: [
+          {
+            index: 0,
+            id: "call_1",
+            type: "function",
+            function: { name: "list_project_files", arguments: '{"dir":"","glob":""}' },
+          },
+        ],
+      },
+    },
+    { delta: {}, finish_reason: "tool_calls" },
+  ],
+  [
+    { delta: { role: "assistant", content: "Your project has no files yet." } },
+    { delta: {}, finish_reason: "stop" },
+  ],
+];
+
+describe("createChat", () => {
+  it("returns the text of every step, streamed or not", async () => {
+    let requests = 0;
+    const server = createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        const chunks = STEPS[requests++ % STEPS.length];
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        for (const { delta, finish_reason = null } of chunks) {
+          const chunk = {
+            id: "chatcmpl-1",
+            object: "chat.completion.chunk",
+            created: 0,
+            model: "local-model",
+            choices: [{ index: 0, delta, finish_reason }],
+          };
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+        res.end("data: [DONE]\n\n");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const originalCwd = process.cwd();
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-client-"));
+    process.chdir(dir);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const replies: string[] = [];
+      for (const streamed of [false, true]) {
+        const printed: string[] = [];
+        const chat = createChat(
+          {
+            provider: "openai-compatible",
+            model: "local-model",
+            baseUrl: `http://127.0.0.1:${port}/v1`,
+            maxRetries: 0,
+          },
+          { onTextDelta: (delta) => printed.push(delta) }
+        );
+        const messages = [{ role: "user" as const, content: "what is in my project?" }];
+        replies.push(await chat.send(messages, { streamed }));
+        if (streamed) assert.strictEqual(printed.join("\n\n"), replies[1]);
+      }
+      assert.deepStrictEqual(replies, [
+        "Let me look at your files.\n\nYour project has no files yet.",
+        "Let me look at your files.\n\nYour project has no files yet.",
+      ]);
+      assert.strictEqual(requests, 4);
+    } finally {
+      process.chdir(originalCwd);
+      rmSync(dir, { recursive: true, force: true });
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe("extractToolEvents", () => {
+  it("keeps the path and the error of { ok: false } tool results", () => {
+    const step = {
+      toolCalls: [
+        { toolName: "write_project_file", toolCallId: "1" },
+        { toolName: "edit_project_file", toolCallId: "2" },
+        { toolName: "move_project_file", toolCallId: "3" },
+      ],
+      toolResults: [
+        { toolCallId: "1", output: { ok: true, path: "src/pages/index.hbs" } },
+        {
+          toolCallId: "2",
+          output: { ok: false, path: "src/pages/about.hbs", error: "old_string not found" },
+        },
+        { toolCallId: "3", output: { ok: true, from: "src/a.hbs", path: "src/b.hbs" } },
+      ],
+    };
+    assert.deepStrictEqual(extractToolEvents(step), [
+      { toolName: "write_project_file", ok: true, path: "src/pages/index.hbs" },
+      {
+        toolName: "edit_project_file",
+        ok: false,
+        path: "src/pages/about.hbs",
+        error: "old_string not found",
+      },
+      { toolName: "move_project_file", ok: true, path: "src/b.hbs", fromPath: "src/a.hbs" },
+    ]);
+  });
+
+  it("takes the error of a thrown tool error from the step content", () => {
+    const step = {
+      toolCalls: [
+        { toolName: "fetch_doc", toolCallId: "1" },
+        { toolName: "get_component_spec", toolCallId: "2" },
+      ],
+      toolResults: [],
+      content: [{ type: "tool-error", toolCallId: "1", error: new Error("fetch failed") }],
+    };
+    assert.deepStrictEqual(extractToolEvents(step), [
+      { toolName: "fetch_doc", ok: false, error: "fetch failed" },
+      { toolName: "get_component_spec", ok: false },
+    ]);
+  });
+});
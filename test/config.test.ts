@@ -6,7 +6,7 @@ import assert from "node:assert";
 import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { loadLlmConfig } from "../src/config/load.js";
+import { loadLlmConfig, loadPriceTable } from "../src/config/load.js";
 
 describe("config", () => {
   const envBackup: Record<string, string | undefined> = {};
@@ -64,6 +64,279 @@ describe("config", () => {
         restoreEnv();
       }
     });
+    it("returns config for google with GOOGLE_GENERATIVE_AI_API_KEY and a Gemini default model", () => {
+      saveEnv(["POTION_KIT_PROVIDER", "POTION_KIT_MODEL", "GOOGLE_GENERATIVE_AI_API_KEY"]);
+      try {
+        process.env.POTION_KIT_PROVIDER = "google";
+        delete process.env.POTION_KIT_MODEL;
+        process.env.GOOGLE_GENERATIVE_AI_API_KEY = "google-test-key";
+        const config = loadLlmConfig();
+        assert.ok(config !== null);
+        assert.strictEqual(config!.provider, "google");
+        assert.strictEqual(config!.apiKey, "google-test-key");
+        assert.strictEqual(config!.model, "gemini-2.5-pro");
+      } finally {
+        restoreEnv();
+      }
+    });
+    it("returns config for openrouter with OPENROUTER_API_KEY and a vendor-prefixed model", () => {
+      saveEnv([
+        "POTION_KIT_PROVIDER",
+        "POTION_KIT_MODEL",
+        "OPENROUTER_API_KEY",
+        "POTION_KIT_API_KEY",
+      ]);
+      try {
+        process.env.POTION_KIT_PROVIDER = "openrouter";
+        delete process.env.POTION_KIT_MODEL;
+        delete process.env.POTION_KIT_API_KEY;
+        delete process.env.OPENROUTER_API_KEY;
+        assert.strictEqual(loadLlmConfig(), null);
+
+        process.env.OPENROUTER_API_KEY = "sk-or-test";
+        const config = loadLlmConfig();
+        assert.ok(config !== null);
+        assert.strictEqual(config!.provider, "openrouter");
+        assert.strictEqual(config!.apiKey, "sk-or-test");
+        assert.strictEqual(config!.model, "anthropic/claude-sonnet-4.5");
+      } finally {
+        restoreEnv();
+      }
+    });
+    it("returns null for an unknown provider", () => {
+      saveEnv(["POTION_KIT_PROVIDER", "POTION_KIT_API_KEY"]);
+      try {
+        process.env.POTION_KIT_PROVIDER = "toString";
+        process.env.POTION_KIT_API_KEY = "key";
+        assert.strictEqual(loadLlmConfig(), null);
+      } finally {
+        restoreEnv();
+      }
+    });
+    it("openai-compatible needs no key and defaults to the local Ollama endpoint", () => {
+      saveEnv([
+        "POTION_KIT_PROVIDER",
+        "POTION_KIT_MODEL",
+        "POTION_KIT_API_KEY",
+        "OPENAI_COMPATIBLE_API_KEY",
+        "POTION_KIT_BASE_URL",
+        "POTION_KIT_SUPPORTS_TOOLS",
+      ]);
+      try {
+        process.env.POTION_KIT_PROVIDER = "openai-compatible";
+        process.env.POTION_KIT_MODEL = "qwen2.5-coder:14b";
+        delete process.env.POTION_KIT_API_KEY;
+        delete process.env.OPENAI_COMPATIBLE_API_KEY;
+        delete process.env.POTION_KIT_BASE_URL;
+        delete process.env.POTION_KIT_SUPPORTS_TOOLS;
+        const config = loadLlmConfig();
+        assert.ok(config !== null);
+        assert.strictEqual(config!.provider, "openai-compatible");
+        assert.strictEqual(config!.apiKey, undefined);
+        assert.strictEqual(config!.baseUrl, "http://localhost:11434/v1");
+        assert.strictEqual(config!.supportsTools, undefined);
+
+        process.env.POTION_KIT_BASE_URL = "http://localhost:1234/v1";
+        process.env.POTION_KIT_SUPPORTS_TOOLS = "false";
+        const lmStudio = loadLlmConfig();
+        assert.strictEqual(lmStudio!.baseUrl, "http://localhost:1234/v1");
+        assert.strictEqual(lmStudio!.supportsTools, false);
+      } finally {
+        restoreEnv();
+      }
+    });
+    it("reads baseUrl and supportsTools from local config.json", () => {
+      saveEnv([
+        "POTION_KIT_PROVIDER",
+        "POTION_KIT_MODEL",
+        "POTION_KIT_BASE_URL",
+        "POTION_KIT_SUPPORTS_TOOLS",
+      ]);
+      const originalCwd = process.cwd();
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-config-"));
+      try {
+        process.chdir(dir);
+        writeFileSync(
+          join(dir, "config.json"),
+          JSON.stringify({
+            provider: "openai-compatible",
+            model: "llama3.2",
+            baseUrl: "http://127.0.0.1:8080/v1",
+            supportsTools: false,
+          }),
+          "utf-8"
+        );
+        delete process.env.POTION_KIT_PROVIDER;
+        delete process.env.POTION_KIT_MODEL;
+        delete process.env.POTION_KIT_BASE_URL;
+        delete process.env.POTION_KIT_SUPPORTS_TOOLS;
+
+        const config = loadLlmConfig();
+        assert.ok(config !== null);
+        assert.strictEqual(config!.model, "llama3.2");
+        assert.strictEqual(config!.baseUrl, "http://127.0.0.1:8080/v1");
+        assert.strictEqual(config!.supportsTools, false);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+        restoreEnv();
+      }
+    });
+    it("rejects a summaryBaseUrl in config.json that is not a string", () => {
+      saveEnv(["POTION_KIT_PROVIDER", "POTION_KIT_SUMMARY_BASE_URL"]);
+      const originalCwd = process.cwd();
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-config-"));
+      try {
+        process.chdir(dir);
+        delete process.env.POTION_KIT_SUMMARY_BASE_URL;
+        process.env.POTION_KIT_PROVIDER = "openai-compatible";
+        const write = (summaryBaseUrl: unknown) =>
+          writeFileSync(join(dir, "config.json"), JSON.stringify({ summaryBaseUrl }), "utf-8");
+
+        write({ url: "http://127.0.0.1:8080/v1" });
+        assert.strictEqual(loadLlmConfig(), null);
+        write("http://127.0.0.1:8080/v1");
+        assert.strictEqual(loadLlmConfig()!.summaryBaseUrl, "http://127.0.0.1:8080/v1");
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+        restoreEnv();
+      }
+    });
+    it("reads a separate summary provider and model with its own key", () => {
+      const keys = [
+        "POTION_KIT_PROVIDER",
+        "POTION_KIT_MODEL",
+        "POTION_KIT_API_KEY",
+        "ANTHROPIC_API_KEY",
+        "GOOGLE_GENERATIVE_AI_API_KEY",
+        "POTION_KIT_SUMMARY_PROVIDER",
+        "POTION_KIT_SUMMARY_MODEL",
+        "POTION_KIT_SUMMARY_BASE_URL",
+        "POTION_KIT_SUMMARY_MAX_OUTPUT_TOKENS",
+      ];
+      saveEnv(keys);
+      try {
+        for (const key of keys) delete process.env[key];
+        process.env.POTION_KIT_PROVIDER = "anthropic";
+        process.env.ANTHROPIC_API_KEY = "anthropic-key";
+
+        process.env.POTION_KIT_SUMMARY_MODEL = "claude-haiku-4-5";
+        const sameProvider = loadLlmConfig();
+        assert.strictEqual(sameProvider!.summaryProvider, undefined);
+        assert.strictEqual(sameProvider!.summaryModel, "claude-haiku-4-5");
+        assert.strictEqual(sameProvider!.summaryApiKey, undefined);
+        assert.strictEqual(sameProvider!.summaryBaseUrl, undefined);
+
+        process.env.POTION_KIT_SUMMARY_BASE_URL = "https://summaries.example/v1";
+        assert.strictEqual(loadLlmConfig()!.summaryBaseUrl, "https://summaries.example/v1");
+        delete process.env.POTION_KIT_SUMMARY_BASE_URL;
+
+        delete process.env.POTION_KIT_SUMMARY_MODEL;
+        process.env.POTION_KIT_SUMMARY_PROVIDER = "google";
+        assert.strictEqual(loadLlmConfig(), null, "summary provider without its key");
+
+        process.env.GOOGLE_GENERATIVE_AI_API_KEY = "google-key";
+        process.env.POTION_KIT_SUMMARY_MAX_OUTPUT_TOKENS = "1024";
+        const config = loadLlmConfig();
+        assert.ok(config !== null);
+        assert.strictEqual(config!.apiKey, "anthropic-key");
+        assert.strictEqual(config!.summaryProvider, "google");
+        assert.strictEqual(config!.summaryModel, "gemini-2.5-pro");
+        assert.strictEqual(config!.summaryApiKey, "google-key");
+        assert.strictEqual(config!.summaryMaxOutputTokens, 1024);
+
+        process.env.POTION_KIT_SUMMARY_PROVIDER = "gemini";
+        assert.strictEqual(loadLlmConfig(), null, "unknown summary provider");
+      } finally {
+        restoreEnv();
+      }
+    });
+    it("reads retry settings, allowing 0 to turn retries off", () => {
+      saveEnv([
+        "POTION_KIT_PROVIDER",
+        "OPENAI_API_KEY",
+        "POTION_KIT_MAX_RETRIES",
+        "POTION_KIT_MAX_RETRY_WAIT_MS",
+      ]);
+      try {
+        process.env.POTION_KIT_PROVIDER = "openai";
+        process.env.OPENAI_API_KEY = "sk-test-key";
+        process.env.POTION_KIT_MAX_RETRIES = "0";
+        process.env.POTION_KIT_MAX_RETRY_WAIT_MS = "30000";
+        const config = loadLlmConfig();
+        assert.strictEqual(config!.maxRetries, 0);
+        assert.strictEqual(config!.maxRetryWaitMs, 30_000);
+
+        process.env.POTION_KIT_MAX_RETRIES = "-1";
+        assert.strictEqual(loadLlmConfig()!.maxRetries, undefined);
+      } finally {
+        restoreEnv();
+      }
+    });
+    it("reads the fallback chain from config.json with each provider's own key", () => {
+      const keys = [
+        "POTION_KIT_PROVIDER",
+        "POTION_KIT_MODEL",
+        "POTION_KIT_API_KEY",
+        "OPENAI_API_KEY",
+        "ANTHROPIC_API_KEY",
+        "BACKUP_OPENROUTER_KEY",
+      ];
+      saveEnv(keys);
+      const originalCwd = process.cwd();
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-config-"));
+      try {
+        process.chdir(dir);
+        for (const key of keys) delete process.env[key];
+        const writeConfig = (fallbacks: unknown) =>
+          writeFileSync(
+            join(dir, "config.json"),
+            JSON.stringify({ provider: "openai", model: "gpt-5.2", fallbacks }),
+            "utf-8"
+          );
+        writeConfig([
+          { provider: "anthropic" },
+          {
+            provider: "openrouter",
+            model: "openai/gpt-4o",
+            apiKeyEnv: "BACKUP_OPENROUTER_KEY",
+            supportsTools: false,
+            maxOutputTokens: 4096,
+          },
+        ]);
+        process.env.OPENAI_API_KEY = "sk-test-key";
+        process.env.ANTHROPIC_API_KEY = "anthropic-key";
+        assert.strictEqual(loadLlmConfig(), null, "fallback without its key");
+
+        process.env.BACKUP_OPENROUTER_KEY = "sk-or-backup";
+        const config = loadLlmConfig();
+        assert.ok(config !== null);
+        assert.deepStrictEqual(config!.fallbacks, [
+          {
+            provider: "anthropic",
+            model: "claude-sonnet-4-5",
+            apiKey: "anthropic-key",
+            baseUrl: undefined,
+          },
+          {
+            provider: "openrouter",
+            model: "openai/gpt-4o",
+            apiKey: "sk-or-backup",
+            baseUrl: undefined,
+            supportsTools: false,
+            maxOutputTokens: 4096,
+          },
+        ]);
+
+        writeConfig([{ provider: "claude" }]);
+        assert.strictEqual(loadLlmConfig(), null, "unknown fallback provider");
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+        restoreEnv();
+      }
+    });
     it("reads provider/model/maxHistoryMessages from local config.json", () => {
       saveEnv([
         "POTION_KIT_PROVIDER",
@@ -71,6 +344,7 @@ describe("config", () => {
         "POTION_KIT_MAX_HISTORY_MESSAGES",
         "POTION_KIT_MAX_TOOL_STEPS",
         "POTION_KIT_MAX_OUTPUT_TOKENS",
+        "POTION_KIT_CONTEXT_TOKEN_BUDGET",
         "OPENAI_API_KEY",
       ]);
       const originalCwd = process.cwd();
@@ -85,6 +359,7 @@ describe("config", () => {
             maxHistoryMessages: 7,
             maxToolSteps: 9,
             maxOutputTokens: 5000,
+            contextTokenBudget: 60000,
           }),
           "utf-8"
         );
@@ -94,6 +369,7 @@ describe("config", () => {
         delete process.env.POTION_KIT_MAX_HISTORY_MESSAGES;
         delete process.env.POTION_KIT_MAX_TOOL_STEPS;
         delete process.env.POTION_KIT_MAX_OUTPUT_TOKENS;
+        delete process.env.POTION_KIT_CONTEXT_TOKEN_BUDGET;
 
         const config = loadLlmConfig();
         assert.ok(config !== null);
@@ -102,6 +378,7 @@ describe("config", () => {
         assert.strictEqual(config!.maxHistoryMessages, 7);
         assert.strictEqual(config!.maxToolSteps, 9);
         assert.strictEqual(config!.maxOutputTokens, 5000);
+        assert.strictEqual(config!.contextTokenBudget, 60000);
       } finally {
         process.chdir(originalCwd);
         rmSync(dir, { recursive: true, force: true });
@@ -140,5 +417,63 @@ describe("config", () => {
         restoreEnv();
       }
     });
+
+    it("reads approveWrites from config.json and lets env override it", () => {
+      saveEnv(["POTION_KIT_PROVIDER", "POTION_KIT_APPROVE_WRITES", "OPENAI_API_KEY"]);
+      const originalCwd = process.cwd();
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-config-"));
+      try {
+        process.chdir(dir);
+        writeFileSync(
+          join(dir, "config.json"),
+          JSON.stringify({ provider: "openai", approveWrites: true }),
+          "utf-8"
+        );
+        process.env.OPENAI_API_KEY = "sk-test-key";
+        delete process.env.POTION_KIT_PROVIDER;
+        delete process.env.POTION_KIT_APPROVE_WRITES;
+
+        assert.strictEqual(loadLlmConfig()!.approveWrites, true);
+
+        process.env.POTION_KIT_APPROVE_WRITES = "false";
+        assert.strictEqual(loadLlmConfig()!.approveWrites, false);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+        restoreEnv();
+      }
+    });
+
+    it("reads a price table from config.json and drops invalid entries", () => {
+      saveEnv(["POTION_KIT_PROVIDER", "OPENAI_API_KEY"]);
+      const originalCwd = process.cwd();
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-config-"));
+      try {
+        process.chdir(dir);
+        writeFileSync(
+          join(dir, "config.json"),
+          JSON.stringify({
+            provider: "openai",
+            prices: {
+              "gpt-5.2": { input: 1.25, output: 10, cachedInput: 0.125 },
+              "gpt-4o": { input: 2.5, output: "ten" },
+            },
+          }),
+          "utf-8"
+        );
+        process.env.OPENAI_API_KEY = "sk-test-key";
+        delete process.env.POTION_KIT_PROVIDER;
+
+        const expected = { "gpt-5.2": { input: 1.25, output: 10, cachedInput: 0.125 } };
+        assert.deepStrictEqual(loadLlmConfig()!.prices, expected);
+
+        delete process.env.OPENAI_API_KEY;
+        assert.deepStrictEqual(loadPriceTable(), expected);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+        restoreEnv();
+      }
+    });
   });
 });
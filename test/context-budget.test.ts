@@ -0,0 +1,97 @@
+/**
+ * Context budget: fit the recent tail into a token budget, collapsing oversized messages and
+ * moving what does not fit into the summary window.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  collapseMessage,
+  estimateMessageTokens,
+  getContextTokenBudget,
+  getContextWindow,
+  planContext,
+} from "../src/commands/context-budget.js";
+import { planSummaryUpdate } from "../src/commands/summary-cache.js";
+
+function msg(role: "user" | "assistant", content: string) {
+  return { role, content };
+}
+
+function history(count: number, size = 40) {
+  return Array.from({ length: count }, (_, i) =>
+    msg(i % 2 === 0 ? "user" : "assistant", `m${i} `.padEnd(size, "x"))
+  );
+}
+
+describe("context-budget", () => {
+  it("keeps the last maxHistoryMessages messages when they fit", () => {
+    const h = history(30);
+    const plan = planContext(h, { maxHistoryMessages: 10, budget: 100_000, reservedTokens: 500 });
+    assert.strictEqual(plan.firstMessage, h[0]);
+    assert.strictEqual(plan.tailStart, 20);
+    assert.deepStrictEqual(plan.tail, h.slice(20));
+    assert.strictEqual(plan.split.movedToSummary, 0);
+    assert.strictEqual(plan.split.collapsedMessages, 0);
+
+    const short = planContext(h.slice(0, 5), {
+      maxHistoryMessages: 10,
+      budget: 100_000,
+      reservedTokens: 0,
+    });
+    assert.strictEqual(short.tailStart, 1);
+    assert.strictEqual(short.tail.length, 4);
+  });
+
+  it("moves older tail messages into the summary window when the budget runs out", () => {
+    const h = history(30, 400); // ~104 tokens per message
+    const plan = planContext(h, { maxHistoryMessages: 10, budget: 1200, reservedTokens: 300 });
+    // first message + 7 messages fit; the tail is moved forward to start at a user message
+    assert.strictEqual(plan.tailStart, 24);
+    assert.strictEqual(plan.tail.length, 6);
+    assert.strictEqual(plan.tail[0].role, "user");
+    assert.strictEqual(plan.split.movedToSummary, 4);
+    assert.ok(plan.split.estimatedTokens <= 1200);
+
+    const summaryPlan = planSummaryUpdate(h, h.length - plan.tailStart, null);
+    assert.strictEqual(summaryPlan.middleEnd, 24);
+  });
+
+  it("collapses a giant paste instead of sending it whole", () => {
+    const h = [...history(4), msg("user", "paste:" + "y".repeat(400_000)), msg("assistant", "ok")];
+    const plan = planContext(h, { maxHistoryMessages: 10, budget: 20_000, reservedTokens: 1000 });
+    const paste = plan.tail.find((m) => m.content.startsWith("paste:"));
+    assert.ok(paste);
+    assert.ok(paste!.content.includes("characters omitted to fit the context budget"));
+    assert.ok(estimateMessageTokens(paste!) <= 5000);
+    assert.strictEqual(plan.split.collapsedMessages, 1);
+    assert.strictEqual(plan.tail.at(-1)?.content, "ok");
+  });
+
+  it("leaves short messages unchanged when collapsing", () => {
+    const short = msg("user", "hello");
+    assert.strictEqual(collapseMessage(short, 100), short);
+  });
+
+  it("derives the budget from the model's context window unless configured", () => {
+    assert.strictEqual(
+      getContextWindow({ provider: "anthropic", model: "claude-sonnet-4-5" }),
+      200_000
+    );
+    assert.strictEqual(
+      getContextWindow({ provider: "openrouter", model: "google/gemini-2.5-pro" }),
+      1_000_000
+    );
+    assert.strictEqual(
+      getContextWindow({ provider: "openai-compatible", model: "llama3.1" }),
+      8192
+    );
+    assert.strictEqual(
+      getContextTokenBudget({ provider: "openai", model: "gpt-5.2", maxOutputTokens: 10_000 }),
+      312_000
+    );
+    assert.strictEqual(
+      getContextTokenBudget({ provider: "openai", model: "gpt-5.2", contextTokenBudget: 50_000 }),
+      50_000
+    );
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Diff: unified diff output for created, changed and unchanged files.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createUnifiedDiff } from "../src/cli/diff.js";
+
+describe("diff", () => {
+  describe("createUnifiedDiff", () => {
+    it("returns empty string when content is unchanged", () => {
+      assert.strictEqual(createUnifiedDiff("a.scss", "x\n", "x\n"), "");
+    });
+
+    it("shows a new file as additions against /dev/null", () => {
+      const diff = createUnifiedDiff("src/pages/about.hbs", null, "<h1>About</h1>\n<p>Hi</p>\n");
+      assert.strictEqual(
+        diff,
+        [
+          "--- /dev/null",
+          "+++ b/src/pages/about.hbs",
+          "@@ -0,0 +1,2 @@",
+          "+<h1>About</h1>",
+          "+<p>Hi</p>",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("shows a changed line with surrounding context", () => {
+      const before = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n") + "\n";
+      const after = ["a", "b", "c", "d", "E", "f", "g", "h"].join("\n") + "\n";
+      assert.strictEqual(
+        createUnifiedDiff("x.scss", before, after),
+        [
+          "--- a/x.scss",
+          "+++ b/x.scss",
+          "@@ -2,7 +2,7 @@",
+          " b",
+          " c",
+          " d",
+          "-e",
+          "+E",
+          " f",
+          " g",
+          " h",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("splits distant changes into separate hunks", () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+      const changed = [...lines];
+      changed[1] = "LINE 2";
+      changed[17] = "LINE 18";
+      const diff = createUnifiedDiff("x.md", lines.join("\n") + "\n", changed.join("\n") + "\n");
+      const hunks = diff.split("\n").filter((line) => line.startsWith("@@"));
+      assert.deepStrictEqual(hunks, ["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"]);
+    });
+
+    it("marks a missing newline at end of file", () => {
+      const diff = createUnifiedDiff("x.hbs", "one\n", "one\ntwo");
+      assert.ok(diff.includes("+two\n\\ No newline at end of file\n"));
+    });
+  });
+});
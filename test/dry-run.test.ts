@@ -0,0 +1,46 @@
+/**
+ * Dry run: overlay changes and the saved patch.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createProjectOverlay } from "../src/ai/project-overlay.js";
+import { buildDryRunPatch } from "../src/commands/dry-run.js";
+
+describe("dry-run", () => {
+  it("keeps the original disk content across repeated writes", () => {
+    const overlay = createProjectOverlay();
+    overlay.write("src/pages/index.hbs", "<h1>One</h1>\n", "<h1>Disk</h1>\n");
+    overlay.write("src/pages/index.hbs", "<h1>Two</h1>\n", "<h1>One</h1>\n");
+    assert.deepStrictEqual(overlay.changes(), [
+      { path: "src/pages/index.hbs", before: "<h1>Disk</h1>\n", after: "<h1>Two</h1>\n" },
+    ]);
+  });
+
+  it("leaves out files rewritten with their original content", () => {
+    const overlay = createProjectOverlay();
+    overlay.write("src/styles/main.scss", "same\n", "same\n");
+    assert.deepStrictEqual(overlay.changes(), []);
+  });
+
+  it("builds one patch covering created and changed files", () => {
+    const overlay = createProjectOverlay();
+    overlay.write("src/pages/index.hbs", "<h1>New</h1>\n", "<h1>Old</h1>\n");
+    overlay.write("src/partials/footer.hbs", "<footer></footer>\n", null);
+
+    assert.strictEqual(
+      buildDryRunPatch(overlay.changes()),
+      [
+        "--- a/src/pages/index.hbs",
+        "+++ b/src/pages/index.hbs",
+        "@@ -1,1 +1,1 @@",
+        "-<h1>Old</h1>",
+        "+<h1>New</h1>",
+        "--- /dev/null",
+        "+++ b/src/partials/footer.hbs",
+        "@@ -0,0 +1,1 @@",
+        "+<footer></footer>",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Export: merge chat history with turn events into Markdown, HTML and JSON transcripts.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import type { ChatTurnEvent } from "../src/commands/chat-events.js";
+import type { HistoryMessage } from "../src/commands/chat-history.js";
+import {
+  buildExportTurns,
+  formatExportHtml,
+  formatExportJson,
+  formatExportMarkdown,
+} from "../src/commands/export.js";
+
+const HISTORY: HistoryMessage[] = [
+  { role: "user", content: "Make a homepage" },
+  { role: "assistant", content: "Created src/pages/index.hbs." },
+  { role: "user", content: "Add <nav> links" },
+  { role: "assistant", content: "I've added the links." },
+];
+
+const EVENTS: ChatTurnEvent[] = [
+  {
+    timestamp: "2026-03-01T10:00:00.000Z",
+    trace: {
+      toolEvents: [
+        { toolName: "get_harold_project_info", ok: true },
+        { toolName: "write_project_file", ok: true, path: "src/pages/index.hbs" },
+      ],
+      stepsUsed: 3,
+      finishReason: "stop",
+    },
+    hasVerifiedWrite: true,
+    replyWasGuarded: false,
+    summarySource: "none",
+    historyLength: 0,
+    model: "gpt-5.2",
+  },
+  {
+    timestamp: "2026-03-01T10:05:00.000Z",
+    trace: {
+      toolEvents: [
+        {
+          toolName: "edit_project_file",
+          ok: false,
+          path: "src/partials/nav.hbs",
+          error: "no match",
+        },
+      ],
+      stepsUsed: 2,
+      finishReason: "stop",
+    },
+    hasVerifiedWrite: false,
+    replyWasGuarded: true,
+    summarySource: "cache-reuse",
+    historyLength: 2,
+    model: "gpt-5.2",
+  },
+];
+
+const META = { session: "default", exportedAt: "2026-03-02T00:00:00.000Z" };
+
+describe("export", () => {
+  it("pairs user messages with replies and the event recorded at their history index", () => {
+    const turns = buildExportTurns(HISTORY, [EVENTS[1]]);
+    assert.strictEqual(turns.length, 2);
+    assert.strictEqual(turns[0].assistant, "Created src/pages/index.hbs.");
+    assert.strictEqual(turns[0].event, undefined);
+    assert.strictEqual(turns[1].event?.timestamp, "2026-03-01T10:05:00.000Z");
+
+    const unanswered = buildExportTurns([{ role: "user", content: "hello" }], []);
+    assert.deepStrictEqual(unanswered, [{ turn: 1, user: "hello" }]);
+  });
+
+  it("writes tools, paths and guard flags inline in Markdown", () => {
+    const md = formatExportMarkdown(buildExportTurns(HISTORY, EVENTS), META);
+    assert.ok(md.startsWith("# Potion-kit chat: default"));
+    assert.ok(md.includes("**You** (2026-03-01 10:00 UTC)"));
+    assert.ok(md.includes("- ✓ write_project_file `src/pages/index.hbs`"));
+    assert.ok(md.includes("- ✗ edit_project_file `src/partials/nav.hbs` — no match"));
+    assert.ok(md.includes("> The reply claimed changes, but no file write was verified"));
+    assert.ok(md.includes("_Model gpt-5.2 · 2 steps · summary: cache-reuse_"));
+  });
+
+  it("escapes conversation text in HTML", () => {
+    const html = formatExportHtml(buildExportTurns(HISTORY, EVENTS), META);
+    assert.ok(html.startsWith("<!doctype html>"));
+    assert.ok(html.includes("Add &lt;nav&gt; links"));
+    assert.ok(!html.includes("<nav>"));
+    assert.ok(
+      html.includes('<li class="failed">✗ edit_project_file <code>src/partials/nav.hbs</code>')
+    );
+  });
+
+  it("exports one JSON object per turn with its event fields", () => {
+    const data = JSON.parse(formatExportJson(buildExportTurns(HISTORY, EVENTS), META)) as {
+      session: string;
+      turns: Array<{ user: string; toolEvents: unknown[]; replyWasGuarded: boolean }>;
+    };
+    assert.strictEqual(data.session, "default");
+    assert.strictEqual(data.turns.length, 2);
+    assert.strictEqual(data.turns[0].toolEvents.length, 2);
+    assert.strictEqual(data.turns[1].replyWasGuarded, true);
+  });
+});
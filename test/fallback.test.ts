@@ -0,0 +1,79 @@
+/**
+ * Provider fallback chain: model order and which errors move a turn to the next model.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { APICallError } from "ai";
+import { getModelChain, isFallbackError } from "../src/ai/fallback.js";
+import { isRateLimitError } from "../src/ai/retry.js";
+import type { LlmConfig } from "../src/config/index.js";
+
+function apiError(statusCode: number, message = `HTTP ${statusCode}`): APICallError {
+  return new APICallError({
+    message,
+    url: "https://api.example.com/v1/chat",
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+describe("fallback", () => {
+  it("puts the primary model first and gives each fallback its own provider and key", () => {
+    const config: LlmConfig = {
+      provider: "openai",
+      model: "gpt-5.2",
+      apiKey: "sk-primary",
+      maxToolSteps: 8,
+      fallbacks: [{ provider: "anthropic", model: "claude-sonnet-4-5", apiKey: "anthropic-key" }],
+    };
+    const chain = getModelChain(config);
+    assert.strictEqual(chain.length, 2);
+    assert.strictEqual(chain[0], config);
+    assert.strictEqual(chain[1].provider, "anthropic");
+    assert.strictEqual(chain[1].model, "claude-sonnet-4-5");
+    assert.strictEqual(chain[1].apiKey, "anthropic-key");
+    assert.strictEqual(chain[1].baseUrl, undefined);
+    assert.strictEqual(chain[1].maxToolSteps, 8);
+
+    assert.deepStrictEqual(getModelChain({ provider: "openai", model: "gpt-5.2" }).length, 1);
+  });
+
+  it("takes tool support and the output limit from each fallback, not the primary", () => {
+    const chain = getModelChain({
+      provider: "openai-compatible",
+      model: "llama3",
+      supportsTools: false,
+      maxOutputTokens: 2048,
+      fallbacks: [
+        { provider: "anthropic", model: "claude-sonnet-4-5", apiKey: "key" },
+        { provider: "openai", model: "gpt-5.2", apiKey: "key", maxOutputTokens: 8000 },
+        { provider: "openai-compatible", model: "qwen", supportsTools: false },
+      ],
+    });
+    assert.deepStrictEqual(
+      chain.map((config) => [config.supportsTools, config.maxOutputTokens]),
+      [
+        [false, 2048],
+        [undefined, undefined],
+        [undefined, 8000],
+        [false, undefined],
+      ]
+    );
+  });
+
+  it("falls back on server errors, overload and rate limits", () => {
+    assert.ok(isFallbackError(apiError(500)));
+    assert.ok(isFallbackError(apiError(503)));
+    assert.ok(isFallbackError(apiError(529, "Overloaded")));
+    assert.ok(isFallbackError(apiError(429)));
+    assert.ok(isRateLimitError(apiError(429)));
+    assert.ok(isFallbackError(new Error("Anthropic API is overloaded")));
+  });
+
+  it("does not fall back on request errors the next model would repeat", () => {
+    assert.ok(!isFallbackError(apiError(400, "Invalid request: messages is empty")));
+    assert.ok(!isFallbackError(apiError(401, "Incorrect API key")));
+    assert.ok(!isFallbackError(new Error("This model does not support tools")));
+    assert.ok(!isRateLimitError(apiError(500)));
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Front matter: parsing posts and validating the required fields.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  normalizeLineEndings,
+  parseFrontMatter,
+  validatePostFrontMatter,
+} from "../src/ai/front-matter.js";
+
+const VALID_POST =
+  "---\nlayout: 'blog-post'\ntitle: \"Hello\"\npublicationDate: 2025-01-15\n---\n\nBody";
+
+describe("front-matter", () => {
+  it("parses top-level fields and strips quotes", () => {
+    assert.deepStrictEqual(parseFrontMatter(VALID_POST), {
+      ok: true,
+      fields: { layout: "blog-post", title: "Hello", publicationDate: "2025-01-15" },
+    });
+  });
+
+  it("requires an opening and a closing --- line", () => {
+    assert.strictEqual(parseFrontMatter("# Hello").ok, false);
+    assert.strictEqual(parseFrontMatter("---\ntitle: Hello\n").ok, false);
+  });
+
+  it("accepts a valid post with a known layout", () => {
+    assert.deepStrictEqual(validatePostFrontMatter(VALID_POST, ["blog-post"]), []);
+  });
+
+  it("reports missing fields, unknown layouts and invalid dates", () => {
+    assert.deepStrictEqual(validatePostFrontMatter("---\nlayout: wide\n---\n", ["blog-post"]), [
+      'layout "wide" is not in the blog layouts (blog-post).',
+      "title is missing.",
+      "publicationDate is missing.",
+    ]);
+    assert.deepStrictEqual(
+      validatePostFrontMatter(
+        "---\nlayout: blog-post\ntitle: Hi\npublicationDate: 2025-02-30\n---\n",
+        ["blog-post"]
+      ),
+      ['publicationDate "2025-02-30" must be a real date in YYYY-MM-DD form.']
+    );
+  });
+
+  it("normalizes CRLF and CR to LF", () => {
+    assert.strictEqual(normalizeLineEndings("a\r\nb\rc\n"), "a\nb\nc\n");
+  });
+});
@@ -43,5 +43,30 @@ describe("harold-project", () => {
         teardown();
       }
     });
+
+    it("merges pending overlay files over an empty directory", () => {
+      setup();
+      try {
+        const overlay = new Map([
+          ["package.json", JSON.stringify({ harold: { mdFilesDirName: "blog" } })],
+          ["src/partials/navbar.hbs", "<nav></nav>"],
+          ["src/pages/index.hbs", "{{> navbar}}"],
+          ["src/pages/docs/intro.hbs", "nested pages are not listed"],
+          ["src/styles/main.scss", ""],
+          ["src/blog/hello.md", "---\ntitle: Hi\n---"],
+        ]);
+
+        const info = getHaroldProjectInfo(tempDir, overlay);
+
+        assert.strictEqual(info.found, true);
+        assert.strictEqual(info.config?.mdFilesDirName, "blog");
+        assert.deepStrictEqual(info.partials, ["navbar"]);
+        assert.deepStrictEqual(info.pages, ["index"]);
+        assert.deepStrictEqual(info.styles, ["main.scss"]);
+        assert.strictEqual(info.postsDir, "blog");
+      } finally {
+        teardown();
+      }
+    });
   });
 });
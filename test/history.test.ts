@@ -0,0 +1,115 @@
+/**
+ * History search across sessions (messages and tool paths) and single-turn display.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { writeHistory } from "../src/commands/chat-history.js";
+import { writeChatEvents, type ChatTurnEvent } from "../src/commands/chat-events.js";
+import { createSession } from "../src/commands/sessions.js";
+import { buildExportTurns } from "../src/commands/export.js";
+import {
+  findExcerpts,
+  formatHistoryTurn,
+  formatMatchHeading,
+  searchHistory,
+} from "../src/commands/history.js";
+
+function event(historyLength: number | undefined, path: string): ChatTurnEvent {
+  return {
+    timestamp: "2026-03-01T10:00:00.000Z",
+    trace: {
+      toolEvents: [{ toolName: "edit_project_file", ok: true, path }],
+      stepsUsed: 2,
+      finishReason: "stop",
+    },
+    hasVerifiedWrite: true,
+    replyWasGuarded: false,
+    ...(historyLength !== undefined ? { historyLength } : {}),
+  };
+}
+
+function withProject(run: (dir: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), "potion-kit-history-"));
+  try {
+    run(dir);
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+}
+
+describe("history", () => {
+  it("finds turns by message text and tool paths across sessions", () => {
+    withProject((dir) => {
+      writeHistory(dir, [
+        { role: "user", content: "Make a homepage" },
+        { role: "assistant", content: "Done." },
+        { role: "user", content: "Move the Navbar breakpoint to 900px" },
+        { role: "assistant", content: "Updated the breakpoint." },
+      ]);
+      createSession(dir, "blog");
+      writeHistory(
+        dir,
+        [
+          { role: "user", content: "Restyle the menu" },
+          { role: "assistant", content: "Restyled it." },
+        ],
+        "blog"
+      );
+      writeChatEvents(dir, [event(0, "src/partials/navbar.hbs")], "blog");
+
+      const matches = searchHistory(dir, "navbar");
+      assert.deepStrictEqual(
+        matches.map((match) => [match.session, match.turn?.turn]),
+        [
+          ["default", 2],
+          ["blog", 1],
+        ]
+      );
+      assert.ok(matches[0].excerpts[0].startsWith("You: Move the Navbar"));
+      assert.deepStrictEqual(matches[1].excerpts, ["✓ edit_project_file src/partials/navbar.hbs"]);
+      assert.strictEqual(formatMatchHeading(matches[1]), "blog · turn 1 · 2026-03-01 10:00 UTC");
+      assert.deepStrictEqual(searchHistory(dir, "   "), []);
+    });
+  });
+
+  it("reports path matches from events not linked to a turn", () => {
+    withProject((dir) => {
+      writeChatEvents(dir, [event(undefined, "src/styles/main.scss")]);
+      const matches = searchHistory(dir, "main.scss");
+      assert.strictEqual(matches.length, 1);
+      assert.strictEqual(matches[0].turn, undefined);
+      assert.strictEqual(
+        formatMatchHeading(matches[0]),
+        "default · no linked turn · 2026-03-01 10:00 UTC"
+      );
+    });
+  });
+
+  it("cuts excerpts around each occurrence", () => {
+    const text = "a".repeat(100) + " navbar " + "b".repeat(100);
+    const [excerpt] = findExcerpts(text, "navbar");
+    assert.ok(excerpt.startsWith("…") && excerpt.endsWith("…"));
+    assert.ok(excerpt.includes(" navbar "));
+    // A second occurrence inside the first excerpt is not repeated.
+    assert.strictEqual(findExcerpts("navbar and NAVBAR", "navbar").length, 1);
+    assert.strictEqual(findExcerpts(`navbar ${"x".repeat(200)} NAVBAR`, "navbar").length, 2);
+  });
+
+  it("formats one turn with its tool events", () => {
+    const turns = buildExportTurns(
+      [
+        { role: "user", content: "Fix the nav" },
+        { role: "assistant", content: "Fixed." },
+      ],
+      [event(0, "src/partials/nav.hbs")]
+    );
+    const text = formatHistoryTurn(turns[0]);
+    assert.ok(text.includes("Turn 1"));
+    assert.ok(text.includes("Fix the nav"));
+    assert.ok(text.includes("✓ edit_project_file src/partials/nav.hbs"));
+    assert.ok(text.includes("Fixed."));
+  });
+});
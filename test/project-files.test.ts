@@ -0,0 +1,246 @@
+/**
+ * Project file listing and search: globs, .gitignore, skipped directories, sandbox and overlay.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  createGlobFilter,
+  listProjectFiles,
+  MAX_LISTED_FILES,
+  parseGitignore,
+} from "../src/ai/project-files.js";
+import { createPotionKitTools } from "../src/ai/tools.js";
+import { createProjectOverlay } from "../src/ai/project-overlay.js";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const noopOptions = { toolCallId: "test", messages: [] } as any;
+
+function writeProject(dir: string, files: Record<string, string>): void {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(join(dir, path, ".."), { recursive: true });
+    writeFileSync(join(dir, path), content, "utf-8");
+  }
+}
+
+async function inProject(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = mkdtempSync(join(tmpdir(), "potion-kit-files-"));
+  const originalCwd = process.cwd();
+  try {
+    process.chdir(dir);
+    await run(dir);
+  } finally {
+    process.chdir(originalCwd);
+    rmSync(dir, { recursive: true });
+  }
+}
+
+const PROJECT = {
+  ".gitignore": "*.log\n/drafts/\n!keep.log\n",
+  ".env": "SECRET=1",
+  "package.json": "{}",
+  "src/pages/index.hbs": "{{> navbar}}\n<h1>Home</h1>",
+  "src/pages/blog/post-list.hbs": "{{> navbar}}",
+  "src/partials/navbar.hbs": '<nav class="navbar">',
+  "src/assets/js/menu.js": "document.querySelector('.navbar')",
+  "src/posts/hello.md": "---\ntitle: Hello\n---\nnavbar mention",
+  "debug.log": "navbar",
+  "keep.log": "kept",
+  "drafts/idea.md": "navbar",
+  "build/index.html": "navbar",
+  "node_modules/pkg/index.js": "navbar",
+};
+
+describe("project-files", () => {
+  it("matches globs against names or paths", () => {
+    assert.ok(createGlobFilter("*.hbs")("src/pages/blog/post-list.hbs"));
+    assert.ok(createGlobFilter("src/**/*.{hbs,md}")("src/posts/hello.md"));
+    assert.ok(createGlobFilter("src/**/*.hbs")("src/index.hbs"));
+    assert.ok(!createGlobFilter("src/*.hbs")("src/pages/index.hbs"));
+    assert.ok(createGlobFilter("")("anything"));
+  });
+
+  it("applies .gitignore rules with negation, anchors and directory patterns", () => {
+    const isIgnored = parseGitignore("# comment\n*.log\n!keep.log\n/drafts/\nsrc/tmp\n");
+    assert.ok(isIgnored("logs/debug.log", false));
+    assert.ok(!isIgnored("keep.log", false));
+    assert.ok(isIgnored("drafts", true));
+    assert.ok(!isIgnored("drafts", false));
+    assert.ok(!isIgnored("src/drafts", true));
+    assert.ok(isIgnored("src/tmp", true));
+  });
+
+  it("lists nested files, skipping build, node_modules, ignored files and .env", async () => {
+    await inProject(async (dir) => {
+      writeProject(dir, PROJECT);
+      const { files, truncated } = await listProjectFiles(dir);
+      assert.strictEqual(truncated, false);
+      assert.deepStrictEqual(
+        files.map((file) => file.path),
+        [
+          ".gitignore",
+          "keep.log",
+          "package.json",
+          "src/assets/js/menu.js",
+          "src/pages/blog/post-list.hbs",
+          "src/pages/index.hbs",
+          "src/partials/navbar.hbs",
+          "src/posts/hello.md",
+        ]
+      );
+      assert.strictEqual(files[2].size, 2);
+      assert.ok(files[2].modified);
+
+      const pages = await listProjectFiles(dir, { dir: "src/pages", glob: "*.hbs" });
+      assert.deepStrictEqual(
+        pages.files.map((file) => file.path),
+        ["src/pages/blog/post-list.hbs", "src/pages/index.hbs"]
+      );
+    });
+  });
+
+  it("list_project_files rejects directories outside the project and does not follow symlinks", async () => {
+    await inProject(async (dir) => {
+      writeProject(dir, { "src/pages/index.hbs": "x" });
+      const outside = mkdtempSync(join(tmpdir(), "potion-kit-outside-"));
+      try {
+        writeFileSync(join(outside, "secret.md"), "x", "utf-8");
+        symlinkSync(outside, join(dir, "src", "linked"));
+        const tools = createPotionKitTools();
+        const up = await tools.list_project_files.execute({ dir: "../", glob: "" }, noopOptions);
+        assert.strictEqual(up.ok, false);
+        const linked = await tools.list_project_files.execute(
+          { dir: "src/linked", glob: "" },
+          noopOptions
+        );
+        assert.strictEqual(linked.ok, false);
+        const all = await tools.list_project_files.execute({ dir: "", glob: "" }, noopOptions);
+        assert.deepStrictEqual(
+          all.files.map((file: { path: string }) => file.path),
+          ["src/pages/index.hbs"]
+        );
+      } finally {
+        rmSync(outside, { recursive: true });
+      }
+    });
+  });
+
+  it("search_project_files returns path:line matches in searchable files only", async () => {
+    await inProject(async (dir) => {
+      writeProject(dir, PROJECT);
+      const tools = createPotionKitTools();
+      const out = await tools.search_project_files.execute(
+        { query: "NAVBAR", isRegex: false, glob: "" },
+        noopOptions
+      );
+      assert.strictEqual(out.ok, true);
+      assert.deepStrictEqual(
+        out.matches.map((m: { path: string; line: number }) => `${m.path}:${m.line}`),
+        [
+          "src/assets/js/menu.js:1",
+          "src/pages/blog/post-list.hbs:1",
+          "src/pages/index.hbs:1",
+          "src/partials/navbar.hbs:1",
+          "src/posts/hello.md:4",
+        ]
+      );
+
+      const regex = await tools.search_project_files.execute(
+        { query: "^<h\\d>", isRegex: true, glob: "*.hbs" },
+        noopOptions
+      );
+      assert.deepStrictEqual(regex.matches, [
+        { path: "src/pages/index.hbs", line: 2, text: "<h1>Home</h1>" },
+      ]);
+
+      const invalid = await tools.search_project_files.execute(
+        { query: "(", isRegex: true, glob: "" },
+        noopOptions
+      );
+      assert.strictEqual(invalid.ok, false);
+    });
+  });
+
+  it("search_project_files filters to searchable files before the listing cap", async () => {
+    await inProject(async (dir) => {
+      const images: Record<string, string> = {};
+      for (let i = 0; i < MAX_LISTED_FILES + 20; i++) {
+        images[`src/assets/images/${String(i).padStart(3, "0")}.png`] = "";
+      }
+      writeProject(dir, { ...images, "src/pages/index.hbs": "{{> navbar}}" });
+      const tools = createPotionKitTools();
+      const found = await tools.search_project_files.execute(
+        { query: "navbar", isRegex: false, glob: "" },
+        noopOptions
+      );
+      assert.deepStrictEqual(
+        found.matches.map((m: { path: string }) => m.path),
+        ["src/pages/index.hbs"]
+      );
+      assert.strictEqual(found.truncated, undefined);
+
+      const limited = await listProjectFiles(dir, {
+        include: (path) => path.endsWith(".png"),
+        limit: 10,
+      });
+      assert.strictEqual(limited.files.length, 10);
+      assert.strictEqual(limited.truncated, true);
+    });
+  });
+
+  it("search_project_files applies the read path checks to every file", async () => {
+    await inProject(async (dir) => {
+      writeProject(dir, {
+        "config.env.json": '{"navbar": "secret"}',
+        "src/data/site.env.json": '{"navbar": "secret"}',
+        "src/partials/navbar.hbs": "<nav>",
+      });
+      const tools = createPotionKitTools();
+      const found = await tools.search_project_files.execute(
+        { query: "navbar", isRegex: false, glob: "" },
+        noopOptions
+      );
+      assert.deepStrictEqual(found.matches, []);
+    });
+  });
+
+  it("list_project_files rejects skipped directories as the starting dir", async () => {
+    await inProject(async (dir) => {
+      writeProject(dir, PROJECT);
+      const tools = createPotionKitTools();
+      for (const skipped of ["node_modules", "build", "./node_modules/pkg", ".git"]) {
+        const out = await tools.list_project_files.execute({ dir: skipped, glob: "" }, noopOptions);
+        assert.strictEqual(out.ok, false, skipped);
+        assert.deepStrictEqual(out.files, []);
+      }
+    });
+  });
+
+  it("sees dry-run overlay files", async () => {
+    await inProject(async (dir) => {
+      writeProject(dir, { "src/pages/index.hbs": "old" });
+      const overlay = createProjectOverlay();
+      overlay.write("src/pages/about.hbs", "<h1>About navbar</h1>", null);
+      overlay.write("src/pages/index.hbs", "new navbar", "old");
+      const tools = createPotionKitTools({ overlay });
+      const listed = await tools.list_project_files.execute({ dir: "", glob: "" }, noopOptions);
+      assert.deepStrictEqual(
+        listed.files.map((file: { path: string; pending?: boolean }) => [
+          file.path,
+          !!file.pending,
+        ]),
+        [
+          ["src/pages/about.hbs", true],
+          ["src/pages/index.hbs", true],
+        ]
+      );
+      const found = await tools.search_project_files.execute(
+        { query: "navbar", isRegex: false, glob: "" },
+        noopOptions
+      );
+      assert.strictEqual(found.matches.length, 2);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Project lint: Harold rule checks per file and over src/ with the dry-run overlay.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { lintFile, lintProject } from "../src/ai/project-lint.js";
+
+const rulesOf = (findings: { line: number; rule: string }[]) =>
+  findings.map((finding) => `${finding.line}:${finding.rule}`);
+
+describe("project-lint", () => {
+  it("flags style tags, inline styles and scripts, absolute URLs and formatDate 'now'", () => {
+    const template = [
+      "<style>.a { color: red; }</style>",
+      '<div style="color: red">Hi</div>',
+      "<script>console.log(1)</script>",
+      "<script src=\"{{relativePath 'assets/js/app.js'}}\"></script>",
+      '<a href="/about.html">About</a>',
+      "<a href=\"{{relativePath 'about.html'}}\">About</a>",
+      '<a href="https://example.com">Out</a>',
+      "<p>{{formatDate date='now' format='yyyy'}}</p>",
+    ].join("\n");
+    assert.deepStrictEqual(rulesOf(lintFile("src/pages/index.hbs", template, new Set())), [
+      "1:style-tag",
+      "2:inline-style",
+      "3:inline-script",
+      "5:absolute-url",
+      "8:format-date-now",
+    ]);
+  });
+
+  it("ignores Handlebars comments", () => {
+    const template = '{{!-- <div style="color: red"> --}}\n{{! {{> missing}} }}\n<p>ok</p>';
+    assert.deepStrictEqual(lintFile("src/pages/index.hbs", template, new Set()), []);
+  });
+
+  it("flags partials that do not exist, but not inline partials or @partial-block", () => {
+    const template = [
+      "{{> head}}",
+      "{{> navbar}}",
+      '{{#*inline "card"}}<div></div>{{/inline}}',
+      "{{> card}}",
+      "{{> @partial-block}}",
+    ].join("\n");
+    const findings = lintFile("src/pages/index.hbs", template, new Set(["head"]));
+    assert.deepStrictEqual(rulesOf(findings), ["2:missing-partial"]);
+    assert.ok(findings[0].message.includes('"navbar"'));
+  });
+
+  it("reports unclosed blocks, stray closers and blocks closed out of order", () => {
+    const template = [
+      "{{#each posts}}",
+      "  {{#if title}}",
+      "    {{title}}",
+      "{{/each}}",
+      "{{/unless}}",
+      "{{#with site}}",
+    ].join("\n");
+    assert.deepStrictEqual(
+      lintFile("src/pages/blog.hbs", template, new Set()).map((f) => `${f.line}:${f.message}`),
+      [
+        "2:{{#if}} is not closed before {{/each}}.",
+        "5:{{/unless}} closes a block that is not open.",
+        "6:{{#with}} is never closed; add {{/with}}.",
+      ]
+    );
+    assert.deepStrictEqual(
+      lintFile("src/pages/ok.hbs", "{{#if a}}{{else}}{{#each b}}{{/each}}{{/if}}", new Set()),
+      []
+    );
+  });
+
+  it("checks @import in Sass styles and formatDate in Markdown only", () => {
+    assert.deepStrictEqual(
+      rulesOf(lintFile("src/styles/main.scss", '@import "base";\n.a { color: red; }', new Set())),
+      ["1:scss-import"]
+    );
+    assert.deepStrictEqual(
+      rulesOf(lintFile("src/styles/theme.sass", '@import "base"', new Set())),
+      ["1:scss-import"]
+    );
+    assert.deepStrictEqual(
+      lintFile("src/assets/css/vendor.css", '@import url("reset.css");', new Set()),
+      []
+    );
+    assert.deepStrictEqual(
+      rulesOf(
+        lintFile(
+          "src/posts/hello.md",
+          "<div style=\"x\">{{formatDate date='now'}}</div>",
+          new Set()
+        )
+      ),
+      ["1:format-date-now"]
+    );
+  });
+
+  it("lints src/ with overlay content over disk", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-lint-"));
+    try {
+      mkdirSync(join(dir, "src", "pages"), { recursive: true });
+      mkdirSync(join(dir, "src", "partials"), { recursive: true });
+      mkdirSync(join(dir, "src", "partials", "blog"));
+      writeFileSync(join(dir, "src", "partials", "head.hbs"), "<head></head>");
+      writeFileSync(join(dir, "src", "partials", "blog", "card.hbs"), "<div></div>");
+      writeFileSync(
+        join(dir, "src", "pages", "index.hbs"),
+        "{{> head}}\n{{> footer}}\n{{> blog/card}}\n{{> card}}"
+      );
+      writeFileSync(join(dir, "src", "pages", "about.hbs"), "<style></style>");
+
+      const onDisk = await lintProject(dir);
+      assert.strictEqual(onDisk.filesChecked, 4);
+      assert.deepStrictEqual(
+        onDisk.findings.map((f) => `${f.file}:${f.line}:${f.rule}`),
+        [
+          "src/pages/about.hbs:1:style-tag",
+          "src/pages/index.hbs:2:missing-partial",
+          "src/pages/index.hbs:4:missing-partial",
+        ]
+      );
+
+      const overlay = new Map<string, string | null>([
+        ["src/partials/footer.hbs", "<footer></footer>"],
+        ["src/partials/card.hbs", "<div></div>"],
+        ["src/pages/about.hbs", null],
+      ]);
+      const withOverlay = await lintProject(dir, overlay);
+      assert.deepStrictEqual(withOverlay.findings, []);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("only counts lintable files toward the file limit", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-lint-"));
+    try {
+      mkdirSync(join(dir, "src", "assets", "images"), { recursive: true });
+      mkdirSync(join(dir, "src", "pages"), { recursive: true });
+      for (let i = 0; i < 520; i++) {
+        writeFileSync(
+          join(dir, "src", "assets", "images", `${String(i).padStart(3, "0")}.png`),
+          ""
+        );
+      }
+      writeFileSync(join(dir, "src", "pages", "index.hbs"), "<style></style>");
+
+      const report = await lintProject(dir);
+      assert.strictEqual(report.filesChecked, 1);
+      assert.strictEqual(report.truncated, false);
+      assert.deepStrictEqual(
+        report.findings.map((f) => f.rule),
+        ["style-tag"]
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Project memory: parsing, item updates, the update_project_memory tool and the file store.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdtempSync, rmSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  MAX_PROJECT_MEMORY_ITEMS,
+  applyProjectMemoryUpdate,
+  emptyProjectMemory,
+  formatProjectMemory,
+  isProjectMemoryEmpty,
+  parseProjectMemory,
+  type ProjectMemory,
+} from "../src/ai/project-memory.js";
+import { createPotionKitTools } from "../src/ai/tools.js";
+import {
+  PROJECT_MEMORY_FILE,
+  clearProjectMemory,
+  createProjectMemoryStore,
+  readProjectMemory,
+  writeProjectMemory,
+} from "../src/commands/memory.js";
+import { clearChatState } from "../src/commands/clear.js";
+
+function withProject(run: (dir: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), "potion-kit-memory-"));
+  try {
+    run(dir);
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+}
+
+function savedMemory(dir: string): ProjectMemory {
+  const read = readProjectMemory(dir);
+  assert.ok(read.ok);
+  return read.memory;
+}
+
+describe("project-memory", () => {
+  it("parses partial memory and rejects wrong types", () => {
+    const memory = parseProjectMemory({ sitePurpose: " Bakery ", pages: ["index", "Index", " "] });
+    assert.deepStrictEqual(memory, {
+      ...emptyProjectMemory(),
+      sitePurpose: "Bakery",
+      pages: ["index"],
+    });
+    assert.strictEqual(parseProjectMemory({ pages: "index" }), null);
+    assert.strictEqual(parseProjectMemory({ sitePurpose: 3 }), null);
+    assert.strictEqual(parseProjectMemory([]), null);
+  });
+
+  it("sets the purpose, removes and adds items", () => {
+    const memory: ProjectMemory = { ...emptyProjectMemory(), todos: ["Add menu", "Add footer"] };
+    const result = applyProjectMemoryUpdate(
+      memory,
+      {
+        sitePurpose: "Bakery site",
+        remove: [
+          { field: "todos", value: "add menu" },
+          { field: "pages", value: "missing" },
+        ],
+        add: [
+          { field: "brandColors", value: "primary #c0392b" },
+          { field: "todos", value: "Add footer" },
+        ],
+      },
+      new Date("2026-01-02T03:04:05Z")
+    );
+    assert.ok(result.ok);
+    assert.strictEqual(result.memory.sitePurpose, "Bakery site");
+    assert.deepStrictEqual(result.memory.todos, ["Add footer"]);
+    assert.deepStrictEqual(result.memory.brandColors, ["primary #c0392b"]);
+    assert.deepStrictEqual(result.notFound, [{ field: "pages", value: "missing" }]);
+    assert.strictEqual(result.memory.updatedAt, "2026-01-02T03:04:05.000Z");
+    assert.deepStrictEqual(memory.todos, ["Add menu", "Add footer"]);
+  });
+
+  it("keeps the purpose on an empty value and refuses lists over the limit", () => {
+    const kept = applyProjectMemoryUpdate(
+      { ...emptyProjectMemory(), sitePurpose: "Blog" },
+      { sitePurpose: "" }
+    );
+    assert.ok(kept.ok);
+    assert.strictEqual(kept.memory.sitePurpose, "Blog");
+
+    const full = {
+      ...emptyProjectMemory(),
+      decisions: Array.from({ length: MAX_PROJECT_MEMORY_ITEMS }, (_, i) => `d${i}`),
+    };
+    const result = applyProjectMemoryUpdate(full, {
+      add: [{ field: "decisions", value: "one more" }],
+    });
+    assert.strictEqual(result.ok, false);
+  });
+
+  it("formats only the sections that have content", () => {
+    const text = formatProjectMemory({
+      ...emptyProjectMemory(),
+      sitePurpose: "Blog",
+      potions: ["layouts/dashboard"],
+    });
+    assert.strictEqual(text, "Site purpose: Blog\nPotions:\n- layouts/dashboard");
+    assert.strictEqual(formatProjectMemory(emptyProjectMemory()), "");
+    assert.ok(isProjectMemoryEmpty(emptyProjectMemory()));
+  });
+
+  it("update_project_memory writes through the store", async () => {
+    let saved = emptyProjectMemory();
+    const tools = createPotionKitTools({
+      memory: { read: () => ({ ok: true, memory: saved }), write: (memory) => (saved = memory) },
+    });
+    const result = await tools.update_project_memory.execute!(
+      {
+        sitePurpose: "Portfolio",
+        add: [{ field: "pages", value: "src/pages/index.hbs" }],
+        remove: [],
+      },
+      {} as never
+    );
+    assert.strictEqual((result as { ok: boolean }).ok, true);
+    assert.strictEqual(saved.sitePurpose, "Portfolio");
+    assert.deepStrictEqual(saved.pages, ["src/pages/index.hbs"]);
+
+    const unavailable = await createPotionKitTools().update_project_memory.execute!(
+      { sitePurpose: "x", add: [], remove: [] },
+      {} as never
+    );
+    assert.strictEqual((unavailable as { ok: boolean }).ok, false);
+  });
+
+  it("update_project_memory reports unreadable memory without writing", async () => {
+    let writes = 0;
+    const tools = createPotionKitTools({
+      memory: { read: () => ({ ok: false, error: "broken" }), write: () => writes++ },
+    });
+    const result = (await tools.update_project_memory.execute!(
+      { sitePurpose: "x", add: [], remove: [] },
+      {} as never
+    )) as { ok: boolean; error?: string };
+    assert.strictEqual(result.ok, false);
+    assert.ok(result.error?.includes("broken"));
+    assert.strictEqual(writes, 0);
+  });
+
+  it("stores memory in .potion-kit and keeps it when chat history is cleared", () => {
+    withProject((dir) => {
+      assert.deepStrictEqual(readProjectMemory(dir), { ok: true, memory: emptyProjectMemory() });
+      writeProjectMemory(dir, { ...emptyProjectMemory(), sitePurpose: "Bakery" });
+      assert.ok(existsSync(join(dir, ".potion-kit", PROJECT_MEMORY_FILE)));
+      clearChatState(dir);
+      assert.strictEqual(savedMemory(dir).sitePurpose, "Bakery");
+      clearProjectMemory(dir);
+      assert.ok(isProjectMemoryEmpty(savedMemory(dir)));
+    });
+  });
+
+  it("reports broken or invalid files instead of reading them as empty memory", () => {
+    withProject((dir) => {
+      mkdirSync(join(dir, ".potion-kit"));
+      const path = join(dir, ".potion-kit", PROJECT_MEMORY_FILE);
+      writeFileSync(path, "{ not json", "utf-8");
+      const broken = readProjectMemory(dir);
+      assert.ok(!broken.ok && broken.error.includes(PROJECT_MEMORY_FILE));
+      writeFileSync(path, JSON.stringify({ sitePurpose: "Bakery", pages: "index" }), "utf-8");
+      const invalid = readProjectMemory(dir);
+      assert.ok(!invalid.ok && invalid.error.includes("string arrays"));
+      const store = createProjectMemoryStore(dir);
+      assert.strictEqual(store.read().ok, false);
+    });
+  });
+
+  it("dry-run store keeps changes in memory only", () => {
+    withProject((dir) => {
+      writeProjectMemory(dir, { ...emptyProjectMemory(), sitePurpose: "Bakery" });
+      const store = createProjectMemoryStore(dir, true);
+      store.write({ ...savedMemory(dir), sitePurpose: "Florist" });
+      const read = store.read();
+      assert.ok(read.ok && read.memory.sitePurpose === "Florist");
+      assert.strictEqual(savedMemory(dir).sitePurpose, "Bakery");
+    });
+  });
+});
@@ -84,4 +84,39 @@ describe("reply-guard", () => {
     assert.strictEqual(out.hasVerifiedWrite, false);
     assert.strictEqual(out.guarded, true);
   });
+
+  it("counts a successful edit_project_file as a verified write", () => {
+    const out = guardAssistantReply("I've fixed the navbar breakpoint.", {
+      toolEvents: [
+        { toolName: "read_project_file", ok: true, path: "src/styles/main.scss" },
+        { toolName: "edit_project_file", ok: true, path: "src/styles/main.scss" },
+      ],
+      stepsUsed: 3,
+      finishReason: "stop",
+    });
+    assert.strictEqual(out.hasVerifiedWrite, true);
+    assert.strictEqual(out.guarded, false);
+  });
+
+  it("does not count a failed edit_project_file as a verified write", () => {
+    const out = guardAssistantReply("I've fixed the navbar breakpoint.", {
+      toolEvents: [{ toolName: "edit_project_file", ok: false, path: "src/styles/main.scss" }],
+      stepsUsed: 2,
+      finishReason: "stop",
+    });
+    assert.strictEqual(out.hasVerifiedWrite, false);
+    assert.strictEqual(out.guarded, true);
+  });
+
+  it("counts delete and move as verified writes for deleted / renamed claims", () => {
+    for (const toolName of ["delete_project_file", "move_project_file"]) {
+      const out = guardAssistantReply("I've renamed the navbar partial.", {
+        toolEvents: [{ toolName, ok: true, path: "src/partials/navbar.hbs" }],
+        stepsUsed: 2,
+        finishReason: "stop",
+      });
+      assert.strictEqual(out.hasVerifiedWrite, true);
+      assert.strictEqual(out.guarded, false);
+    }
+  });
 });
@@ -0,0 +1,59 @@
+/**
+ * Streamed reply output: header once, spinner paused during text and resumed between blocks.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createReplyStreamWriter } from "../src/cli/reply-stream.js";
+
+function setup() {
+  const output: string[] = [];
+  const calls: string[] = [];
+  const writer = createReplyStreamWriter({
+    header: "[header]",
+    write: (text) => output.push(text),
+    pause: () => calls.push("pause"),
+    resume: () => calls.push("resume"),
+  });
+  return { writer, output, calls };
+}
+
+describe("reply-stream", () => {
+  it("prints the header before the first visible text and pauses the spinner", () => {
+    const { writer, output, calls } = setup();
+    writer.onTextDelta("\n\n");
+    assert.strictEqual(writer.hasStreamed(), false);
+    assert.deepStrictEqual(output, []);
+
+    writer.onTextDelta("  Hello");
+    writer.onTextDelta(" world");
+    writer.finish();
+
+    assert.strictEqual(writer.hasStreamed(), true);
+    assert.strictEqual(output.join(""), "[header]Hello world\n");
+    assert.deepStrictEqual(calls, ["pause"]);
+  });
+
+  it("hands the line back to the spinner between text blocks", () => {
+    const { writer, output, calls } = setup();
+    writer.onTextDelta("Let me check the project.");
+    writer.endBlock();
+    writer.endBlock();
+    writer.onTextDelta("\nDone: updated src/pages/index.hbs.\n");
+    writer.finish();
+
+    assert.strictEqual(
+      output.join(""),
+      "[header]Let me check the project.\n\nDone: updated src/pages/index.hbs.\n"
+    );
+    assert.deepStrictEqual(calls, ["pause", "resume", "pause"]);
+  });
+
+  it("writes nothing when no text arrives", () => {
+    const { writer, output, calls } = setup();
+    writer.endBlock();
+    writer.finish();
+    assert.strictEqual(writer.hasStreamed(), false);
+    assert.deepStrictEqual(output, []);
+    assert.deepStrictEqual(calls, []);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Retry policy: which errors are retried, how long to wait, and the total wait cap.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { APICallError } from "ai";
+import {
+  formatRetryWait,
+  getRetryAfterMs,
+  getRetryDelayMs,
+  getRetryPolicy,
+  isRateLimitError,
+  isRetryableError,
+  withRetry,
+} from "../src/ai/retry.js";
+
+function apiError(statusCode: number, responseHeaders?: Record<string, string>): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://api.example.com/v1/chat",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+}
+
+const NOW = Date.parse("2026-03-01T10:00:00Z");
+
+describe("retry", () => {
+  it("reads rate limits from the status code, or from the wording of other errors", () => {
+    assert.ok(isRateLimitError(apiError(429)));
+    assert.ok(!isRateLimitError(apiError(500)));
+    assert.ok(isRateLimitError(new Error("Rate limit reached for gpt-5.2")));
+    assert.ok(isRateLimitError(new Error("429 Too Many Requests")));
+    assert.ok(isRateLimitError(new Error("Request failed with status code 429")));
+    assert.ok(isRateLimitError(new Error("HTTP 429")));
+    assert.ok(!isRateLimitError(new Error("connect ECONNREFUSED 127.0.0.1:429")));
+    assert.ok(!isRateLimitError(new Error("Invalid request req_84291")));
+    assert.ok(!isRateLimitError(new Error("Response body too large (429 bytes)")));
+  });
+
+  it("retries rate limits, 5xx and network errors but not request errors", () => {
+    assert.ok(isRetryableError(apiError(429)));
+    assert.ok(isRetryableError(apiError(503)));
+    assert.ok(isRetryableError(apiError(529)));
+    assert.ok(
+      isRetryableError(Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" }))
+    );
+    assert.ok(isRetryableError(new TypeError("fetch failed")));
+    assert.ok(!isRetryableError(apiError(400)));
+    assert.ok(!isRetryableError(apiError(401)));
+    assert.ok(!isRetryableError(Object.assign(new Error("aborted"), { name: "AbortError" })));
+  });
+
+  it("reads retry-after in seconds, as a date, and in milliseconds", () => {
+    assert.strictEqual(getRetryAfterMs(apiError(429, { "retry-after": "7" }), NOW), 7000);
+    assert.strictEqual(
+      getRetryAfterMs(apiError(429, { "Retry-After": "Sun, 01 Mar 2026 10:00:30 GMT" }), NOW),
+      30_000
+    );
+    assert.strictEqual(getRetryAfterMs(apiError(429, { "retry-after-ms": "1500" }), NOW), 1500);
+    assert.strictEqual(getRetryAfterMs(apiError(429), NOW), undefined);
+  });
+
+  it("waits for the exhausted Anthropic limit to reset", () => {
+    const err = apiError(429, {
+      "anthropic-ratelimit-requests-remaining": "40",
+      "anthropic-ratelimit-requests-reset": "2026-03-01T10:00:05Z",
+      "anthropic-ratelimit-input-tokens-remaining": "0",
+      "anthropic-ratelimit-input-tokens-reset": "2026-03-01T10:00:20Z",
+    });
+    assert.strictEqual(getRetryAfterMs(err, NOW), 20_000);
+  });
+
+  it("backs off exponentially without a hint, starting longer for rate limits", () => {
+    assert.strictEqual(getRetryDelayMs(apiError(500), 0, NOW), 2000);
+    assert.strictEqual(getRetryDelayMs(apiError(500), 2, NOW), 8000);
+    assert.strictEqual(getRetryDelayMs(apiError(429), 1, NOW), 30_000);
+    assert.strictEqual(getRetryDelayMs(apiError(429), 5, NOW), 60_000);
+  });
+
+  it("retries until the call succeeds and counts down each second", async () => {
+    const slept: number[] = [];
+    const countdown: string[] = [];
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls += 1;
+        if (calls < 3) throw apiError(503, { "retry-after": "2" });
+        return "ok";
+      },
+      {
+        policy: getRetryPolicy({}),
+        sleep: async (ms) => {
+          slept.push(ms);
+        },
+        onWait: (wait) => countdown.push(formatRetryWait(wait, "openai/gpt-5.2")),
+      }
+    );
+    assert.strictEqual(result, "ok");
+    assert.strictEqual(calls, 3);
+    assert.deepStrictEqual(slept, [1000, 1000, 1000, 1000]);
+    assert.strictEqual(countdown[0], "openai/gpt-5.2 returned 503. Retrying in 2s (1/3)…");
+    assert.strictEqual(countdown[1], "openai/gpt-5.2 returned 503. Retrying in 1s (1/3)…");
+  });
+
+  it("gives up when retries run out, the wait cap is reached, or canRetry says no", async () => {
+    const sleep = async () => {};
+    let calls = 0;
+    const failing = async () => {
+      calls += 1;
+      throw apiError(429, { "retry-after": "30" });
+    };
+
+    await assert.rejects(
+      withRetry(failing, { policy: { maxRetries: 2, maxRetryWaitMs: 600_000 }, sleep }),
+      /HTTP 429/
+    );
+    assert.strictEqual(calls, 3);
+
+    calls = 0;
+    await assert.rejects(
+      withRetry(failing, { policy: { maxRetries: 5, maxRetryWaitMs: 45_000 }, sleep }),
+      /HTTP 429/
+    );
+    assert.strictEqual(calls, 2, "second 30s wait would pass the 45s cap");
+
+    calls = 0;
+    await assert.rejects(
+      withRetry(failing, { policy: getRetryPolicy({}), sleep, canRetry: () => false }),
+      /HTTP 429/
+    );
+    assert.strictEqual(calls, 1);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Named chat sessions: state scoped per session, active session, fork, rename and delete.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  readHistory,
+  readSummaryState,
+  writeHistory,
+  writeSummaryState,
+} from "../src/commands/chat-history.js";
+import { appendChatEvent, readChatEvents } from "../src/commands/chat-events.js";
+import { getChatStateDir, isValidSessionName } from "../src/commands/chat-state.js";
+import {
+  createSession,
+  deleteSession,
+  forkSession,
+  listSessions,
+  readActiveSession,
+  renameSession,
+  writeActiveSession,
+} from "../src/commands/sessions.js";
+
+const HISTORY = [
+  { role: "user" as const, content: "redesign the blog" },
+  { role: "assistant" as const, content: "done" },
+];
+
+function withProject(run: (dir: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), "potion-kit-sessions-"));
+  try {
+    run(dir);
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+}
+
+describe("sessions", () => {
+  it("keeps the default session in .potion-kit/ and named sessions in their own directory", () => {
+    withProject((dir) => {
+      assert.strictEqual(getChatStateDir(dir), join(dir, ".potion-kit"));
+      assert.strictEqual(
+        getChatStateDir(dir, "pricing"),
+        join(dir, ".potion-kit", "sessions", "pricing")
+      );
+
+      writeHistory(dir, HISTORY);
+      writeHistory(dir, [{ role: "user", content: "pricing page" }], "pricing");
+      assert.strictEqual(readHistory(dir).length, 2);
+      assert.strictEqual(readHistory(dir, "pricing")[0].content, "pricing page");
+      assert.ok(existsSync(join(dir, ".potion-kit", "chat-history.json")));
+    });
+  });
+
+  it("rejects session names that are not safe directory names", () => {
+    assert.ok(isValidSessionName("blog-redesign_2"));
+    assert.ok(!isValidSessionName("../escape"));
+    assert.ok(!isValidSessionName("a/b"));
+    assert.ok(!isValidSessionName(""));
+    withProject((dir) => {
+      const result = createSession(dir, "a/b");
+      assert.strictEqual(result.ok, false);
+    });
+  });
+
+  it("lists sessions with the active one marked and falls back to default", () => {
+    withProject((dir) => {
+      assert.strictEqual(readActiveSession(dir), "default");
+      writeHistory(dir, HISTORY, "pricing");
+      createSession(dir, "blog");
+      writeActiveSession(dir, "pricing");
+      assert.deepStrictEqual(
+        listSessions(dir).map((s) => [s.name, s.active, s.messages]),
+        [
+          ["default", false, 0],
+          ["blog", false, 0],
+          ["pricing", true, 2],
+        ]
+      );
+
+      writeActiveSession(dir, "missing");
+      assert.strictEqual(readActiveSession(dir), "default");
+    });
+  });
+
+  it("fork copies history and summary but not events", () => {
+    withProject((dir) => {
+      writeHistory(dir, HISTORY);
+      writeSummaryState(dir, {
+        summary: "blog context",
+        summarizedUntil: 1,
+        firstUserMessage: "redesign the blog",
+        incrementalUpdates: 0,
+      });
+      appendChatEvent(dir, {
+        timestamp: "t1",
+        trace: { toolEvents: [], stepsUsed: 1, finishReason: "stop" },
+        hasVerifiedWrite: false,
+        replyWasGuarded: false,
+      });
+
+      assert.deepStrictEqual(forkSession(dir, "default", "idea"), { ok: true });
+      assert.deepStrictEqual(readHistory(dir, "idea"), HISTORY);
+      assert.strictEqual(readSummaryState(dir, "idea")?.summary, "blog context");
+      assert.deepStrictEqual(readChatEvents(dir, "idea"), []);
+
+      const again = forkSession(dir, "default", "idea");
+      assert.strictEqual(again.ok, false);
+      assert.strictEqual(forkSession(dir, "nope", "other").ok, false);
+    });
+  });
+
+  it("rename moves the state and keeps the active session pointing at it", () => {
+    withProject((dir) => {
+      writeHistory(dir, HISTORY, "draft");
+      writeActiveSession(dir, "draft");
+      assert.deepStrictEqual(renameSession(dir, "draft", "final"), { ok: true });
+      assert.ok(!existsSync(getChatStateDir(dir, "draft")));
+      assert.deepStrictEqual(readHistory(dir, "final"), HISTORY);
+      assert.strictEqual(readActiveSession(dir), "final");
+
+      writeHistory(dir, HISTORY);
+      assert.deepStrictEqual(renameSession(dir, "default", "first"), { ok: true });
+      assert.deepStrictEqual(readHistory(dir), []);
+      assert.deepStrictEqual(readHistory(dir, "first"), HISTORY);
+    });
+  });
+
+  it("delete removes a named session and only clears default", () => {
+    withProject((dir) => {
+      writeHistory(dir, HISTORY);
+      writeHistory(dir, HISTORY, "pricing");
+      writeActiveSession(dir, "pricing");
+
+      assert.deepStrictEqual(deleteSession(dir, "pricing"), { ok: true });
+      assert.ok(!existsSync(getChatStateDir(dir, "pricing")));
+      assert.strictEqual(readActiveSession(dir), "default");
+
+      assert.deepStrictEqual(deleteSession(dir, "default"), { ok: true });
+      assert.deepStrictEqual(readHistory(dir), []);
+      assert.strictEqual(deleteSession(dir, "pricing").ok, false);
+    });
+  });
+});
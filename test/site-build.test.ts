@@ -0,0 +1,188 @@
+/**
+ * Site build: when run_site_build may run, parsing build output into errors, and running
+ * the installed harold-scripts bin.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { checkSiteBuild, parseBuildErrors, runSiteBuild } from "../src/ai/site-build.js";
+
+const HAROLD_PACKAGE = { devDependencies: { "harold-scripts": "^1" } };
+
+/** Project with package.json and, unless `bin` is null, a fake installed harold-scripts. */
+function createProject(pkg: unknown, bin: string | null = "process.exit(0);"): string {
+  const dir = mkdtempSync(join(tmpdir(), "potion-kit-build-"));
+  writeFileSync(join(dir, "package.json"), JSON.stringify(pkg));
+  if (bin !== null) {
+    const packageDir = join(dir, "node_modules", "harold-scripts");
+    mkdirSync(packageDir, { recursive: true });
+    writeFileSync(
+      join(packageDir, "package.json"),
+      JSON.stringify({ name: "harold-scripts", bin: { "harold-scripts": "bin/cli.js" } })
+    );
+    mkdirSync(join(packageDir, "bin"));
+    writeFileSync(join(packageDir, "bin", "cli.js"), bin);
+  }
+  return dir;
+}
+
+describe("site-build", () => {
+  describe("checkSiteBuild", () => {
+    it("requires harold-scripts in package.json and installed with its bin", () => {
+      const dirs = [
+        createProject({ devDependencies: { vite: "^5" } }),
+        createProject(HAROLD_PACKAGE, null),
+        createProject(HAROLD_PACKAGE),
+      ];
+      try {
+        const [other, notInstalled, ready] = dirs.map((dir) => checkSiteBuild(dir));
+        assert.ok(!other.ok && other.error.includes("harold-scripts"));
+        assert.ok(!notInstalled.ok && notInstalled.error.includes("npm install"));
+        assert.deepStrictEqual(ready, { ok: true });
+      } finally {
+        for (const dir of dirs) rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("refuses a harold-scripts bin that points outside its package or at a non-script", () => {
+      const dir = createProject(HAROLD_PACKAGE);
+      try {
+        const packageJson = join(dir, "node_modules", "harold-scripts", "package.json");
+        writeFileSync(packageJson, JSON.stringify({ bin: "../../src/evil.js" }));
+        mkdirSync(join(dir, "src"));
+        writeFileSync(join(dir, "src", "evil.js"), "");
+        const outside = checkSiteBuild(dir);
+        writeFileSync(packageJson, JSON.stringify({ bin: "README.md" }));
+        writeFileSync(join(dir, "node_modules", "harold-scripts", "README.md"), "");
+        const notScript = checkSiteBuild(dir);
+        assert.ok(!outside.ok && outside.error.includes("not a script inside its package"));
+        assert.ok(!notScript.ok && notScript.error.includes("not a script inside its package"));
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("parseBuildErrors", () => {
+    const root = "/home/me/site";
+
+    it("reads Sass locations with the preceding error message", () => {
+      const output = [
+        "Error: Undefined variable.",
+        "  ╷",
+        "3 │   color: $brand;",
+        "  │          ^^^^^^",
+        "  ╵",
+        "  src/styles/main.scss 3:10  root stylesheet",
+      ].join("\n");
+      assert.deepStrictEqual(parseBuildErrors(output, root), [
+        { file: "src/styles/main.scss", line: 3, message: "Undefined variable." },
+      ]);
+    });
+
+    it("reads Handlebars parse errors and missing partials with the last named file", () => {
+      const output = [
+        "Compiling /home/me/site/src/pages/index.hbs",
+        "Error: Parse error on line 12:",
+        "...{{/each}}  {{/if}",
+        "---------------------^",
+        "Expecting 'CLOSE', got 'EOF'",
+        "Compiling src/pages/about.hbs",
+        "Error: The partial navbar could not be found",
+      ].join("\n");
+      assert.deepStrictEqual(parseBuildErrors(output, root), [
+        {
+          file: "src/pages/index.hbs",
+          line: 12,
+          message: "Handlebars parse error: Expecting 'CLOSE', got 'EOF'",
+        },
+        {
+          file: "src/pages/about.hbs",
+          line: null,
+          message: "The partial navbar could not be found",
+        },
+      ]);
+    });
+
+    it("maps YAML front-matter lines to file lines", () => {
+      const output = [
+        "Processing src/posts/hello.md",
+        "YAMLException: bad indentation of a mapping entry (2:8)",
+      ].join("\n");
+      assert.deepStrictEqual(parseBuildErrors(output, root), [
+        {
+          file: "src/posts/hello.md",
+          line: 3,
+          message: "Front matter: bad indentation of a mapping entry",
+        },
+      ]);
+    });
+
+    it("falls back to the last error line when nothing else matches", () => {
+      const output = ["> build", "> harold-scripts build", "Error: Cannot read config"].join("\n");
+      assert.deepStrictEqual(parseBuildErrors(output, root), [
+        { file: null, line: null, message: "Cannot read config" },
+      ]);
+    });
+  });
+
+  describe("runSiteBuild", () => {
+    it("runs the harold-scripts bin, not the package.json build script", async () => {
+      const dir = createProject(
+        {
+          ...HAROLD_PACKAGE,
+          scripts: { build: "node -e \"require('fs').writeFileSync('ran', '')\"" },
+        },
+        [
+          "if (process.argv[2] !== 'build') process.exit(2);",
+          "console.error('Error: Undefined variable.');",
+          "console.error('  src/styles/main.scss 3:10  root stylesheet');",
+          "process.exit(1);",
+        ].join("\n")
+      );
+      try {
+        const result = await runSiteBuild(dir, { timeoutMs: 60_000 });
+        assert.strictEqual(result.passed, false);
+        assert.strictEqual(result.exitCode, 1);
+        assert.strictEqual(result.timedOut, false);
+        assert.deepStrictEqual(result.errors, [
+          { file: "src/styles/main.scss", line: 3, message: "Undefined variable." },
+        ]);
+        assert.ok(result.outputTail.includes("root stylesheet"));
+        assert.strictEqual(existsSync(join(dir, "ran")), false);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("stops the build and rejects when aborted", async () => {
+      const dir = createProject(HAROLD_PACKAGE, "setInterval(() => {}, 1000);");
+      try {
+        const controller = new AbortController();
+        const started = Date.now();
+        setTimeout(() => controller.abort(new Error("cancelled")), 200);
+        await assert.rejects(
+          runSiteBuild(dir, { timeoutMs: 60_000, abortSignal: controller.signal }),
+          /cancelled/
+        );
+        assert.ok(Date.now() - started < 10_000);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("stops a build that runs past the timeout", async () => {
+      const dir = createProject(HAROLD_PACKAGE, "setInterval(() => {}, 1000);");
+      try {
+        const result = await runSiteBuild(dir, { timeoutMs: 200 });
+        assert.strictEqual(result.passed, false);
+        assert.strictEqual(result.timedOut, true);
+        assert.ok(result.errors[0].message.includes("did not finish"));
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Slash commands: parsed and handled locally; unknown commands print help instead of chatting.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { readHistory, writeHistory, type HistoryMessage } from "../src/commands/chat-history.js";
+import { appendChatEvent, readChatEvents } from "../src/commands/chat-events.js";
+import {
+  parseSlashCommand,
+  runSlashCommand,
+  type SlashCommandContext,
+} from "../src/commands/slash-commands.js";
+
+const HISTORY: HistoryMessage[] = [
+  { role: "user", content: "make a blog" },
+  { role: "assistant", content: "Created src/pages/index.hbs." },
+  { role: "user", content: "add an about page" },
+  { role: "assistant", content: "Created src/pages/about.hbs." },
+];
+
+function createContext(cwd: string, dryRun = false) {
+  const output: string[] = [];
+  const session = { history: [...HISTORY], model: "gpt-5.2" };
+  const ctx: SlashCommandContext = {
+    cwd,
+    dryRun,
+    getHistory: () => session.history,
+    setHistory: (history) => {
+      session.history = history;
+    },
+    getModel: () => session.model,
+    setModel: (model) => {
+      session.model = model;
+    },
+    getSessionTraces: () => [
+      {
+        toolEvents: [
+          { toolName: "read_project_file", ok: true },
+          { toolName: "write_project_file", ok: true, path: "src/pages/about.hbs" },
+        ],
+        stepsUsed: 3,
+        finishReason: "stop",
+      },
+    ],
+    print: (text) => output.push(text),
+  };
+  return { ctx, session, output };
+}
+
+describe("slash-commands", () => {
+  let tempDir: string;
+
+  function setup() {
+    tempDir = mkdtempSync(join(tmpdir(), "potion-kit-slash-"));
+    writeHistory(tempDir, HISTORY);
+  }
+
+  function teardown() {
+    if (tempDir) rmSync(tempDir, { recursive: true });
+  }
+
+  it("parses command names and arguments", () => {
+    assert.deepStrictEqual(parseSlashCommand("/model  gpt-4o "), { name: "model", args: "gpt-4o" });
+    assert.deepStrictEqual(parseSlashCommand("/HELP"), { name: "help", args: "" });
+    assert.strictEqual(parseSlashCommand("make a blog"), null);
+  });
+
+  it("leaves normal messages for the model", () => {
+    setup();
+    try {
+      const { ctx, output } = createContext(tempDir);
+      assert.strictEqual(runSlashCommand("add a footer", ctx), false);
+      assert.deepStrictEqual(output, []);
+    } finally {
+      teardown();
+    }
+  });
+
+  it("prints help for unknown commands", () => {
+    setup();
+    try {
+      const { ctx, output } = createContext(tempDir);
+      assert.strictEqual(runSlashCommand("/deploy now", ctx), true);
+      const text = output.join("\n");
+      assert.ok(text.includes("Unknown command: /deploy"));
+      assert.ok(text.includes("/undo [n]"));
+    } finally {
+      teardown();
+    }
+  });
+
+  it("/clear resets history on disk and in the session", () => {
+    setup();
+    try {
+      appendChatEvent(tempDir, {
+        timestamp: "2026-01-01T00:00:00.000Z",
+        trace: { toolEvents: [], stepsUsed: 1, finishReason: "stop" },
+        hasVerifiedWrite: false,
+        replyWasGuarded: false,
+      });
+      const { ctx, session } = createContext(tempDir);
+      runSlashCommand("/clear", ctx);
+      assert.deepStrictEqual(session.history, []);
+      assert.deepStrictEqual(readHistory(tempDir), []);
+      assert.deepStrictEqual(readChatEvents(tempDir), []);
+    } finally {
+      teardown();
+    }
+  });
+
+  it("/clear in a dry run only resets the session", () => {
+    setup();
+    try {
+      const { ctx, session } = createContext(tempDir, true);
+      runSlashCommand("/clear", ctx);
+      assert.deepStrictEqual(session.history, []);
+      assert.strictEqual(readHistory(tempDir).length, HISTORY.length);
+    } finally {
+      teardown();
+    }
+  });
+
+  it("/undo trims the session history to the undone turn", () => {
+    setup();
+    try {
+      const { ctx, session, output } = createContext(tempDir);
+      runSlashCommand("/undo", ctx);
+      assert.deepStrictEqual(session.history, HISTORY.slice(0, 2));
+      assert.deepStrictEqual(readHistory(tempDir), HISTORY.slice(0, 2));
+      assert.ok(output.join("\n").includes("Undid 1 turn"));
+
+      runSlashCommand("/undo zero", ctx);
+      assert.ok(output.at(-1)?.includes("Usage: /undo [n]"));
+    } finally {
+      teardown();
+    }
+  });
+
+  it("/model switches the session model", () => {
+    setup();
+    try {
+      const { ctx, session } = createContext(tempDir);
+      runSlashCommand("/model claude-sonnet-4-5", ctx);
+      assert.strictEqual(session.model, "claude-sonnet-4-5");
+    } finally {
+      teardown();
+    }
+  });
+
+  it("/cost reports the session's turns, steps and writes", () => {
+    setup();
+    try {
+      const { ctx, output } = createContext(tempDir);
+      runSlashCommand("/cost", ctx);
+      assert.strictEqual(
+        output[0],
+        "This session: 1 turn, 3 model steps, 2 tool calls (1 file write)."
+      );
+    } finally {
+      teardown();
+    }
+  });
+
+  it("/save writes the conversation as Markdown with each turn's recorded tools", () => {
+    setup();
+    try {
+      appendChatEvent(tempDir, {
+        timestamp: "2026-01-01T00:00:00.000Z",
+        model: "gpt-5.2",
+        trace: {
+          toolEvents: [
+            { toolName: "write_project_file", ok: true, path: "src/pages/index.hbs" },
+            { toolName: "fetch_doc", ok: false, error: "not found" },
+          ],
+          stepsUsed: 2,
+          finishReason: "stop",
+        },
+        hasVerifiedWrite: true,
+        replyWasGuarded: false,
+        historyLength: 0,
+      });
+      const { ctx } = createContext(tempDir);
+      runSlashCommand("/save chat.md", ctx);
+      const path = join(tempDir, "chat.md");
+      assert.ok(existsSync(path));
+      const saved = readFileSync(path, "utf-8");
+      assert.ok(saved.startsWith("# Potion-kit chat: default\n"));
+      assert.ok(saved.includes("## Turn 1\n\n**You** (2026-01-01 00:00 UTC)\n\nmake a blog\n"));
+      assert.ok(saved.includes("- ✓ write_project_file `src/pages/index.hbs`\n"));
+      assert.ok(saved.includes("- ✗ fetch_doc — not found\n"));
+      assert.ok(saved.includes("_Model gpt-5.2 · 2 steps · files written_"));
+      assert.ok(saved.includes("## Turn 2\n\n**You**\n\nadd an about page\n"));
+    } finally {
+      teardown();
+    }
+  });
+});
@@ -3,7 +3,15 @@
  */
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { stripPreviousSummaryPrefix, buildFallbackSummary } from "../src/ai/summarize.js";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  stripPreviousSummaryPrefix,
+  buildFallbackSummary,
+  getSummaryModelConfig,
+  summarizeConversationWithRetry,
+} from "../src/ai/summarize.js";
+import type { LlmConfig } from "../src/config/index.js";
 
 describe("summarize", () => {
   describe("stripPreviousSummaryPrefix", () => {
@@ -166,4 +174,98 @@ describe("summarize", () => {
       assert.ok(result.includes("Important:"));
     });
   });
+
+  describe("getSummaryModelConfig", () => {
+    const chat: LlmConfig = {
+      provider: "openai",
+      model: "gpt-5.2",
+      apiKey: "sk-chat",
+      baseUrl: "https://proxy.example/v1",
+    };
+
+    it("uses the chat model when no summary model is configured", () => {
+      assert.deepStrictEqual(getSummaryModelConfig(chat), chat);
+    });
+
+    it("keeps the chat key and base URL for a cheaper model of the same provider", () => {
+      const config = getSummaryModelConfig({ ...chat, summaryModel: "gpt-5-mini" });
+      assert.strictEqual(config.model, "gpt-5-mini");
+      assert.strictEqual(config.apiKey, "sk-chat");
+      assert.strictEqual(config.baseUrl, "https://proxy.example/v1");
+    });
+
+    it("uses summaryBaseUrl for the chat provider too", () => {
+      const config = getSummaryModelConfig({
+        ...chat,
+        summaryModel: "gpt-5-mini",
+        summaryBaseUrl: "https://summaries.example/v1",
+      });
+      assert.strictEqual(config.provider, "openai");
+      assert.strictEqual(config.apiKey, "sk-chat");
+      assert.strictEqual(config.baseUrl, "https://summaries.example/v1");
+    });
+
+    it("switches key and base URL for a different summary provider", () => {
+      const config = getSummaryModelConfig({
+        ...chat,
+        summaryProvider: "openai-compatible",
+        summaryModel: "llama3.1",
+        summaryBaseUrl: "http://localhost:11434/v1",
+      });
+      assert.strictEqual(config.provider, "openai-compatible");
+      assert.strictEqual(config.model, "llama3.1");
+      assert.strictEqual(config.apiKey, undefined);
+      assert.strictEqual(config.baseUrl, "http://localhost:11434/v1");
+    });
+  });
+
+  describe("summarizeConversationWithRetry", () => {
+    it("keeps the smaller output limit for the retry under a larger configured limit", async () => {
+      const maxTokens: unknown[] = [];
+      const server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          maxTokens.push(JSON.parse(body).max_tokens);
+          res.writeHead(200, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              id: "chatcmpl-1",
+              object: "chat.completion",
+              created: 0,
+              model: "local-model",
+              // Too short to keep, so the simpler retry prompt runs.
+              choices: [
+                {
+                  index: 0,
+                  message: { role: "assistant", content: "Blog." },
+                  finish_reason: "stop",
+                },
+              ],
+            })
+          );
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      try {
+        const { port } = server.address() as AddressInfo;
+        await summarizeConversationWithRetry(
+          {
+            provider: "openai-compatible",
+            model: "local-model",
+            baseUrl: `http://127.0.0.1:${port}/v1`,
+            maxRetries: 0,
+            summaryMaxOutputTokens: 2_000,
+          },
+          [
+            { role: "user", content: "make a bakery site with a blog" },
+            { role: "assistant", content: "Created the home page and the blog layout." },
+          ]
+        );
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+      assert.deepStrictEqual(maxTokens, [2_000, 320]);
+    });
+  });
 });
@@ -5,6 +5,7 @@ import { describe, it } from "node:test";
 import assert from "node:assert";
 import {
   MAX_INCREMENTAL_SUMMARY_UPDATES,
+  formatSummaryCoverage,
   planSummaryUpdate,
   splitSummaryChunks,
 } from "../src/commands/summary-cache.js";
@@ -109,4 +110,17 @@ describe("summary-cache", () => {
     assert.strictEqual(chunks[1].length, 1);
     assert.strictEqual(chunks[1][0].content, "ok");
   });
+
+  it("describes which messages a cached summary covers", () => {
+    const state = {
+      summary: "s",
+      summarizedUntil: 14,
+      firstUserMessage: "m0",
+      incrementalUpdates: 1,
+    };
+    assert.strictEqual(
+      formatSummaryCoverage(state, 30),
+      "Summary of messages 2–14 of 30 (1 incremental update since the last full refresh)"
+    );
+  });
 });
@@ -0,0 +1,159 @@
+/**
+ * Summary command: refresh re-summarizes and saves the cache, edit saves the edited text.
+ */
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { readSummaryState, writeHistory, writeSummaryState } from "../src/commands/chat-history.js";
+import { runSummaryEdit, runSummaryRefresh } from "../src/commands/summary.js";
+
+const ENV_KEYS = [
+  "POTION_KIT_PROVIDER",
+  "POTION_KIT_MODEL",
+  "POTION_KIT_BASE_URL",
+  "POTION_KIT_API_KEY",
+  "POTION_KIT_MAX_RETRIES",
+  "POTION_KIT_MAX_HISTORY_MESSAGES",
+  "POTION_KIT_CONTEXT_TOKEN_BUDGET",
+  "POTION_KIT_SUMMARY_PROVIDER",
+  "POTION_KIT_SUMMARY_MODEL",
+  "VISUAL",
+  "EDITOR",
+];
+
+const MODEL_SUMMARY =
+  "The user is building a bakery site with a home page, a menu page and a blog. Brand color is #c0392b and posts use the blog-post layout.";
+
+describe("summary command", () => {
+  type FetchLike = typeof globalThis.fetch;
+  const originalFetch = globalThis.fetch as FetchLike;
+  const originalCwd = process.cwd();
+  const originalLog = console.log;
+  const savedEnv: Record<string, string | undefined> = {};
+  let dir = "";
+  let output: string[] = [];
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    dir = mkdtempSync(join(tmpdir(), "potion-kit-summary-"));
+    process.chdir(dir);
+    output = [];
+    console.log = (...args: unknown[]) => output.push(args.join(" "));
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    globalThis.fetch = originalFetch;
+    process.chdir(originalCwd);
+    rmSync(dir, { recursive: true, force: true });
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  it("refresh re-summarizes older turns, saves the cache and prints its coverage", async () => {
+    // A local chat-completions server stands in for the summary model.
+    const server = createServer((_req, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-1",
+          object: "chat.completion",
+          created: 0,
+          model: "local-model",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: MODEL_SUMMARY },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 100, completion_tokens: 30, total_tokens: 130 },
+        })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      process.env.POTION_KIT_PROVIDER = "openai-compatible";
+      process.env.POTION_KIT_MODEL = "local-model";
+      process.env.POTION_KIT_BASE_URL = `http://127.0.0.1:${port}/v1`;
+      process.env.POTION_KIT_MAX_RETRIES = "0";
+      // Catalog and version lookups for the system prompt fail and use their fallbacks.
+      globalThis.fetch = (async () => new Response("not found", { status: 404 })) as FetchLike;
+      writeHistory(
+        dir,
+        Array.from({ length: 40 }, (_, i) => ({
+          role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+          content: `message ${i} about the bakery site`,
+        }))
+      );
+
+      await runSummaryRefresh();
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+
+    const state = readSummaryState(dir);
+    assert.ok(state);
+    assert.strictEqual(state.summary, MODEL_SUMMARY);
+    assert.ok(state.summarizedUntil > 1);
+    const printed = output.join("\n");
+    assert.ok(printed.includes(MODEL_SUMMARY));
+    assert.ok(!printed.includes("cache was not updated"));
+  });
+
+  it("refresh reports when there is nothing to summarize", async () => {
+    process.env.POTION_KIT_PROVIDER = "openai-compatible";
+    globalThis.fetch = (async () => new Response("not found", { status: 404 })) as FetchLike;
+    writeHistory(dir, [
+      { role: "user", content: "make a bakery site" },
+      { role: "assistant", content: "Sure." },
+    ]);
+
+    await runSummaryRefresh();
+
+    assert.strictEqual(readSummaryState(dir), null);
+    assert.ok(output.join("\n").includes("Nothing to summarize"));
+  });
+
+  it("edit saves the edited text and keeps the cache coverage", async () => {
+    const state = {
+      summary: "Old summary of the bakery site.",
+      summarizedUntil: 7,
+      firstUserMessage: "make a bakery site",
+      incrementalUpdates: 2,
+    };
+    writeSummaryState(dir, state);
+    process.env.EDITOR = `node -e 'require("fs").writeFileSync(process.argv[1], "Edited summary.\\n")'`;
+
+    await runSummaryEdit();
+
+    assert.deepStrictEqual(readSummaryState(dir), { ...state, summary: "Edited summary." });
+    assert.ok(output.includes("Summary saved."));
+  });
+
+  it("edit leaves the cache alone when the text is unchanged", async () => {
+    const state = {
+      summary: "Old summary of the bakery site.",
+      summarizedUntil: 7,
+      firstUserMessage: "make a bakery site",
+      incrementalUpdates: 2,
+    };
+    writeSummaryState(dir, state);
+    process.env.EDITOR = "true";
+
+    await runSummaryEdit();
+
+    assert.deepStrictEqual(readSummaryState(dir), state);
+    assert.ok(output.includes("Summary unchanged."));
+  });
+});
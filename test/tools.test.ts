@@ -1,5 +1,6 @@
 /**
- * Tools: read_project_file and write_project_file execution.
+ * Tools: read_project_file, write_project_file, edit_project_file, delete_project_file and
+ * move_project_file execution.
  */
 import { describe, it } from "node:test";
 import assert from "node:assert";
@@ -7,6 +8,7 @@ import { mkdtempSync, writeFileSync, mkdirSync, rmSync, readFileSync, existsSync
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { createPotionKitTools } from "../src/ai/tools.js";
+import { createProjectOverlay } from "../src/ai/project-overlay.js";
 import type { Tool } from "ai";
 
 // Helper to run tool execute - uses the actual Tool type from ai SDK
@@ -300,6 +302,27 @@ describe("tools", () => {
       }
     });
 
+    it("rejects paths inside node_modules", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        const result = await executeTool(tools.write_project_file, {
+          path: "node_modules/harold-scripts/package.json",
+          content: '{"bin":"src/posts/hello.md"}',
+        });
+
+        assert.strictEqual(result.ok, false);
+        assert.ok(result.error?.includes("node_modules"));
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
     it("rejects .js files outside src/assets/js/", async () => {
       const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
       const originalCwd = process.cwd();
@@ -342,4 +365,572 @@ describe("tools", () => {
       }
     });
   });
+
+  describe("post front matter", () => {
+    it("rejects posts with invalid front matter and writes valid ones with LF endings", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+        mkdirSync(join(dir, "src", "blog-layouts"), { recursive: true });
+        writeFileSync(join(dir, "src", "blog-layouts", "blog-post.hbs"), "{{{content}}}");
+
+        const invalid = await executeTool(tools.write_project_file, {
+          path: "src/posts/hello.md",
+          content: "---\nlayout: 'magazine'\ntitle: 'Hello'\n---\n\nHi",
+        });
+        const valid = await executeTool(tools.write_project_file, {
+          path: "src/posts/hello.md",
+          content:
+            "---\r\nlayout: 'blog-post'\r\ntitle: 'Hello'\r\npublicationDate: '2025-01-15'\r\n---\r\n\r\nHi",
+        });
+        const page = await executeTool(tools.write_project_file, {
+          path: "src/pages/notes.md",
+          content: "# Notes\r\n",
+        });
+
+        assert.strictEqual(invalid.ok, false);
+        assert.ok(invalid.error?.includes('layout "magazine"'));
+        assert.ok(invalid.error?.includes("publicationDate is missing."));
+        assert.strictEqual(valid.ok, true);
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "posts", "hello.md"), "utf8"),
+          "---\nlayout: 'blog-post'\ntitle: 'Hello'\npublicationDate: '2025-01-15'\n---\n\nHi"
+        );
+        assert.strictEqual(page.ok, true);
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "pages", "notes.md"), "utf8"),
+          "# Notes\r\n"
+        );
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("checks posts against the default posts directory in a project without src/", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        const result = await executeTool(tools.write_project_file, {
+          path: "src/posts/hello.md",
+          content: "# Hello\n\nFirst post.",
+        });
+
+        assert.strictEqual(result.ok, false);
+        assert.ok(result.error?.includes("Invalid front matter for a post in src/posts/"));
+        assert.strictEqual(existsSync(join(dir, "src", "posts", "hello.md")), false);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("edit_project_file", () => {
+    it("replaces an exact snippet and leaves the rest of the file intact", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        mkdirSync(join(dir, "src", "styles"), { recursive: true });
+        writeFileSync(
+          join(dir, "src", "styles", "main.scss"),
+          ".nav { color: red; }\n.footer { color: blue; }\n"
+        );
+
+        const result = await executeTool(tools.edit_project_file, {
+          path: "src/styles/main.scss",
+          edits: [{ oldText: "color: red;", newText: "color: green;" }],
+        });
+
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(result.path, "src/styles/main.scss");
+        assert.strictEqual(result.editsApplied, 1);
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "styles", "main.scss"), "utf8"),
+          ".nav { color: green; }\n.footer { color: blue; }\n"
+        );
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("applies multiple edits in order", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        mkdirSync(join(dir, "src", "pages"), { recursive: true });
+        writeFileSync(join(dir, "src", "pages", "index.hbs"), "<h1>Hello</h1>\n<p>Intro</p>\n");
+
+        const result = await executeTool(tools.edit_project_file, {
+          path: "src/pages/index.hbs",
+          edits: [
+            { oldText: "<h1>Hello</h1>", newText: "<h1>Welcome</h1>" },
+            { oldText: "<h1>Welcome</h1>\n<p>Intro</p>", newText: "<h1>Welcome</h1>" },
+          ],
+        });
+
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "pages", "index.hbs"), "utf8"),
+          "<h1>Welcome</h1>\n"
+        );
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("rejects ambiguous matches without changing the file", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        mkdirSync(join(dir, "src", "styles"), { recursive: true });
+        const original = ".a { color: red; }\n.b { color: red; }\n";
+        writeFileSync(join(dir, "src", "styles", "main.scss"), original);
+
+        const result = await executeTool(tools.edit_project_file, {
+          path: "src/styles/main.scss",
+          edits: [{ oldText: "color: red;", newText: "color: green;" }],
+        });
+
+        assert.strictEqual(result.ok, false);
+        assert.ok(result.error?.includes("matches 2 places"));
+        assert.strictEqual(readFileSync(join(dir, "src", "styles", "main.scss"), "utf8"), original);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("rejects missing matches and applies no earlier edits", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        mkdirSync(join(dir, "src", "partials"), { recursive: true });
+        writeFileSync(join(dir, "src", "partials", "footer.hbs"), "<footer>2025</footer>");
+
+        const result = await executeTool(tools.edit_project_file, {
+          path: "src/partials/footer.hbs",
+          edits: [
+            { oldText: "2025", newText: "2026" },
+            { oldText: "<aside>", newText: "<section>" },
+          ],
+        });
+
+        assert.strictEqual(result.ok, false);
+        assert.ok(result.error?.startsWith("Edit 2: oldText not found"));
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "partials", "footer.hbs"), "utf8"),
+          "<footer>2025</footer>"
+        );
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("returns error for non-existent file", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        const result = await executeTool(tools.edit_project_file, {
+          path: "src/partials/missing.hbs",
+          edits: [{ oldText: "a", newText: "b" }],
+        });
+
+        assert.strictEqual(result.ok, false);
+        assert.ok(result.error?.includes("File not found"));
+        assert.strictEqual(existsSync(join(dir, "src", "partials", "missing.hbs")), false);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("rejects paths with .env", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        const result = await executeTool(tools.edit_project_file, {
+          path: ".env",
+          edits: [{ oldText: "A=1", newText: "A=2" }],
+        });
+
+        assert.strictEqual(result.ok, false);
+        assert.ok(result.error?.includes(".env"));
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("delete_project_file", () => {
+    it("deletes a file under src/ and checkpoints its content", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const changes: Array<{ path: string; previousContent: string | null }> = [];
+        const tools = createPotionKitTools({ onBeforeWrite: (change) => changes.push(change) });
+
+        mkdirSync(join(dir, "src", "partials"), { recursive: true });
+        writeFileSync(join(dir, "src", "partials", "old-hero.hbs"), "<section>Hero</section>");
+
+        const result = await executeTool(tools.delete_project_file, {
+          path: "src/partials/old-hero.hbs",
+        });
+
+        assert.deepStrictEqual(result, { ok: true, path: "src/partials/old-hero.hbs" });
+        assert.strictEqual(existsSync(join(dir, "src", "partials", "old-hero.hbs")), false);
+        assert.deepStrictEqual(changes, [
+          { path: "src/partials/old-hero.hbs", previousContent: "<section>Hero</section>" },
+        ]);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("refuses root config files and missing files", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+        writeFileSync(join(dir, "package.json"), "{}");
+
+        const config = await executeTool(tools.delete_project_file, { path: "package.json" });
+        const missing = await executeTool(tools.delete_project_file, {
+          path: "src/pages/missing.hbs",
+        });
+        const escaped = await executeTool(tools.delete_project_file, {
+          path: "src/../package.json",
+        });
+
+        assert.strictEqual(config.ok, false);
+        assert.ok(config.error?.includes("under src/"));
+        assert.strictEqual(existsSync(join(dir, "package.json")), true);
+        assert.deepStrictEqual(missing, { ok: false, error: "File not found" });
+        assert.strictEqual(escaped.ok, false);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("move_project_file", () => {
+    it("moves a file, creating directories, and checkpoints both paths", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const changes: Array<{ path: string; previousContent: string | null }> = [];
+        const tools = createPotionKitTools({ onBeforeWrite: (change) => changes.push(change) });
+
+        mkdirSync(join(dir, "src", "partials"), { recursive: true });
+        writeFileSync(join(dir, "src", "partials", "nav.hbs"), "<nav></nav>");
+
+        const result = await executeTool(tools.move_project_file, {
+          from: "src/partials/nav.hbs",
+          to: "src/partials/site/navbar.hbs",
+        });
+
+        assert.deepStrictEqual(result, {
+          ok: true,
+          path: "src/partials/site/navbar.hbs",
+          from: "src/partials/nav.hbs",
+        });
+        assert.strictEqual(existsSync(join(dir, "src", "partials", "nav.hbs")), false);
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "partials", "site", "navbar.hbs"), "utf8"),
+          "<nav></nav>"
+        );
+        assert.deepStrictEqual(changes, [
+          { path: "src/partials/nav.hbs", previousContent: "<nav></nav>" },
+          { path: "src/partials/site/navbar.hbs", previousContent: null },
+        ]);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("checks the front matter of files moved into the posts directory", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        mkdirSync(join(dir, "src", "pages"), { recursive: true });
+        mkdirSync(join(dir, "src", "blog-layouts"), { recursive: true });
+        writeFileSync(join(dir, "src", "blog-layouts", "blog-post.hbs"), "{{{content}}}");
+        writeFileSync(join(dir, "src", "pages", "draft.md"), "# Draft\n");
+        writeFileSync(
+          join(dir, "src", "pages", "hello.md"),
+          "---\r\nlayout: 'blog-post'\r\ntitle: 'Hello'\r\npublicationDate: '2025-01-15'\r\n---\r\n\r\nHi"
+        );
+
+        const invalid = await executeTool(tools.move_project_file, {
+          from: "src/pages/draft.md",
+          to: "src/posts/draft.md",
+        });
+        const valid = await executeTool(tools.move_project_file, {
+          from: "src/pages/hello.md",
+          to: "src/posts/hello.md",
+        });
+
+        assert.strictEqual(invalid.ok, false);
+        assert.ok(invalid.error?.includes("Invalid front matter for a post in src/posts/"));
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "pages", "draft.md"), "utf8"),
+          "# Draft\n"
+        );
+        assert.strictEqual(existsSync(join(dir, "src", "posts", "draft.md")), false);
+        assert.strictEqual(valid.ok, true);
+        assert.strictEqual(existsSync(join(dir, "src", "pages", "hello.md")), false);
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "posts", "hello.md"), "utf8"),
+          "---\nlayout: 'blog-post'\ntitle: 'Hello'\npublicationDate: '2025-01-15'\n---\n\nHi"
+        );
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("refuses existing destinations and destinations outside src/", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const tools = createPotionKitTools();
+
+        mkdirSync(join(dir, "src", "pages"), { recursive: true });
+        writeFileSync(join(dir, "src", "pages", "a.md"), "A");
+        writeFileSync(join(dir, "src", "pages", "b.md"), "B");
+
+        const taken = await executeTool(tools.move_project_file, {
+          from: "src/pages/a.md",
+          to: "src/pages/b.md",
+        });
+        const outside = await executeTool(tools.move_project_file, {
+          from: "src/pages/a.md",
+          to: "a.md",
+        });
+
+        assert.strictEqual(taken.ok, false);
+        assert.ok(taken.error?.includes("already exists"));
+        assert.strictEqual(outside.ok, false);
+        assert.ok(outside.error?.startsWith("to: "));
+        assert.strictEqual(readFileSync(join(dir, "src", "pages", "a.md"), "utf8"), "A");
+        assert.strictEqual(readFileSync(join(dir, "src", "pages", "b.md"), "utf8"), "B");
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("onBeforeWrite", () => {
+    it("reports previous content before write and edit, and null for new files", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const changes: Array<{ path: string; previousContent: string | null }> = [];
+        const tools = createPotionKitTools({ onBeforeWrite: (change) => changes.push(change) });
+
+        await executeTool(tools.write_project_file, {
+          path: "src/pages/index.hbs",
+          content: "<h1>One</h1>",
+        });
+        await executeTool(tools.edit_project_file, {
+          path: "src/pages/index.hbs",
+          edits: [{ oldText: "One", newText: "Two" }],
+        });
+
+        assert.deepStrictEqual(changes, [
+          { path: "src/pages/index.hbs", previousContent: null },
+          { path: "src/pages/index.hbs", previousContent: "<h1>One</h1>" },
+        ]);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("approveWrite", () => {
+    it("returns a tool error and leaves the file untouched when the user rejects", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const requests: Array<{ path: string; previousContent: string | null }> = [];
+        const tools = createPotionKitTools({
+          approveWrite: async (request) => {
+            requests.push({ path: request.path, previousContent: request.previousContent });
+            return false;
+          },
+        });
+
+        mkdirSync(join(dir, "src", "pages"), { recursive: true });
+        writeFileSync(join(dir, "src", "pages", "index.hbs"), "<h1>Old</h1>");
+
+        const result = await executeTool(tools.write_project_file, {
+          path: "src/pages/index.hbs",
+          content: "<h1>New</h1>",
+        });
+
+        assert.strictEqual(result.ok, false);
+        assert.ok(result.error?.includes("rejected"));
+        assert.deepStrictEqual(requests, [
+          { path: "src/pages/index.hbs", previousContent: "<h1>Old</h1>" },
+        ]);
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "pages", "index.hbs"), "utf8"),
+          "<h1>Old</h1>"
+        );
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("dry-run overlay", () => {
+    it("keeps writes in memory and serves them to read, edit and project info", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const overlay = createProjectOverlay();
+        const tools = createPotionKitTools({ overlay });
+
+        mkdirSync(join(dir, "src", "styles"), { recursive: true });
+        writeFileSync(join(dir, "src", "styles", "main.scss"), ".a { color: red; }\n");
+
+        const created = await executeTool(tools.write_project_file, {
+          path: "src/partials/navbar.hbs",
+          content: "<nav>One</nav>",
+        });
+        const edited = await executeTool(tools.edit_project_file, {
+          path: "src/styles/main.scss",
+          edits: [{ oldText: "red", newText: "blue" }],
+        });
+        const read = await executeTool(tools.read_project_file, {
+          path: "src/styles/main.scss",
+        });
+        const info = await executeTool(tools.get_harold_project_info, {});
+
+        assert.strictEqual(created.ok, true);
+        assert.strictEqual(edited.ok, true);
+        assert.strictEqual(read.content, ".a { color: blue; }\n");
+        assert.deepStrictEqual(info.partials, ["navbar"]);
+
+        // Nothing on disk changed
+        assert.strictEqual(existsSync(join(dir, "src", "partials", "navbar.hbs")), false);
+        assert.strictEqual(
+          readFileSync(join(dir, "src", "styles", "main.scss"), "utf8"),
+          ".a { color: red; }\n"
+        );
+        assert.deepStrictEqual(overlay.changes(), [
+          { path: "src/partials/navbar.hbs", before: null, after: "<nav>One</nav>" },
+          {
+            path: "src/styles/main.scss",
+            before: ".a { color: red; }\n",
+            after: ".a { color: blue; }\n",
+          },
+        ]);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("records deletes and moves in the overlay without touching disk", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "potion-kit-tools-"));
+      const originalCwd = process.cwd();
+
+      try {
+        process.chdir(dir);
+        const overlay = createProjectOverlay();
+        const tools = createPotionKitTools({ overlay });
+
+        mkdirSync(join(dir, "src", "partials"), { recursive: true });
+        writeFileSync(join(dir, "src", "partials", "nav.hbs"), "<nav></nav>");
+        writeFileSync(join(dir, "src", "partials", "hero.hbs"), "<section></section>");
+
+        const moved = await executeTool(tools.move_project_file, {
+          from: "src/partials/nav.hbs",
+          to: "src/partials/navbar.hbs",
+        });
+        const deleted = await executeTool(tools.delete_project_file, {
+          path: "src/partials/hero.hbs",
+        });
+        const readDeleted = await executeTool(tools.read_project_file, {
+          path: "src/partials/hero.hbs",
+        });
+        const info = await executeTool(tools.get_harold_project_info, {});
+
+        assert.strictEqual(moved.ok, true);
+        assert.strictEqual(deleted.ok, true);
+        assert.strictEqual(readDeleted.ok, false);
+        assert.deepStrictEqual(info.partials, ["navbar"]);
+        assert.strictEqual(existsSync(join(dir, "src", "partials", "nav.hbs")), true);
+        assert.strictEqual(existsSync(join(dir, "src", "partials", "hero.hbs")), true);
+        assert.deepStrictEqual(overlay.changes(), [
+          { path: "src/partials/navbar.hbs", before: null, after: "<nav></nav>" },
+          { path: "src/partials/nav.hbs", before: "<nav></nav>", after: null },
+          { path: "src/partials/hero.hbs", before: "<section></section>", after: null },
+        ]);
+      } finally {
+        process.chdir(originalCwd);
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });
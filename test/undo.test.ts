@@ -0,0 +1,144 @@
+/**
+ * Undo: restore checkpointed files and trim history/events to match.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  readHistory,
+  readSummaryState,
+  writeHistory,
+  writeSummaryState,
+  type HistoryMessage,
+} from "../src/commands/chat-history.js";
+import { appendChatEvent, readChatEvents } from "../src/commands/chat-events.js";
+import { appendCheckpoint, readCheckpoints } from "../src/commands/checkpoints.js";
+import { planSummaryUpdate } from "../src/commands/summary-cache.js";
+import { undoTurns } from "../src/commands/undo.js";
+
+function seedProject(dir: string): void {
+  mkdirSync(join(dir, "src", "pages"), { recursive: true });
+  writeFileSync(join(dir, "src", "pages", "index.hbs"), "<h1>Turn 2</h1>");
+  writeFileSync(join(dir, "src", "pages", "about.hbs"), "<h1>About</h1>");
+  writeHistory(dir, [
+    { role: "user", content: "make index" },
+    { role: "assistant", content: "done" },
+    { role: "user", content: "change index, add about" },
+    { role: "assistant", content: "done" },
+  ]);
+  appendCheckpoint(dir, {
+    id: "t1",
+    historyLength: 0,
+    files: [{ path: "src/pages/index.hbs", previousContent: null }],
+  });
+  appendCheckpoint(dir, {
+    id: "t2",
+    historyLength: 2,
+    files: [
+      { path: "src/pages/index.hbs", previousContent: "<h1>Turn 1</h1>" },
+      { path: "src/pages/about.hbs", previousContent: null },
+    ],
+  });
+  for (const [id, historyLength] of [
+    ["t1", 0],
+    ["t2", 2],
+  ] as const) {
+    appendChatEvent(dir, {
+      timestamp: id,
+      trace: { toolEvents: [], stepsUsed: 1, finishReason: "stop" },
+      hasVerifiedWrite: true,
+      replyWasGuarded: false,
+      historyLength,
+      checkpointId: id,
+    });
+  }
+}
+
+describe("undo", () => {
+  it("undoes the last turn: restores files and trims history and events", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-undo-"));
+    try {
+      seedProject(dir);
+      const result = undoTurns(dir, 1);
+
+      assert.strictEqual(result.turnsUndone, 1);
+      assert.strictEqual(result.historyLength, 2);
+      assert.deepStrictEqual(result.restoredFiles.sort(), [
+        "src/pages/about.hbs",
+        "src/pages/index.hbs",
+      ]);
+      assert.strictEqual(
+        readFileSync(join(dir, "src", "pages", "index.hbs"), "utf-8"),
+        "<h1>Turn 1</h1>"
+      );
+      assert.strictEqual(existsSync(join(dir, "src", "pages", "about.hbs")), false);
+      assert.strictEqual(readHistory(dir).length, 2);
+      assert.deepStrictEqual(
+        readChatEvents(dir).map((e) => e.checkpointId),
+        ["t1"]
+      );
+      assert.deepStrictEqual(
+        readCheckpoints(dir).map((c) => c.id),
+        ["t1"]
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("undoes several turns back to the state before the first write", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-undo-"));
+    try {
+      seedProject(dir);
+      const result = undoTurns(dir, 5);
+
+      assert.strictEqual(result.turnsUndone, 2);
+      assert.strictEqual(result.historyLength, 0);
+      assert.strictEqual(existsSync(join(dir, "src", "pages", "index.hbs")), false);
+      assert.deepStrictEqual(readHistory(dir), []);
+      assert.deepStrictEqual(readCheckpoints(dir), []);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("clears the cached summary when the undo cuts below its coverage", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-undo-"));
+    try {
+      const turn = (i: number): HistoryMessage[] => [
+        { role: "user", content: i === 0 ? "make a bakery site" : `change ${i}` },
+        { role: "assistant", content: `done ${i}` },
+      ];
+      writeHistory(dir, [0, 1, 2, 3, 4, 5].flatMap(turn));
+      const state = {
+        summary: "Turns 1-3 added a menu page.",
+        summarizedUntil: 8,
+        firstUserMessage: "make a bakery site",
+        incrementalUpdates: 0,
+      };
+      writeSummaryState(dir, state);
+
+      undoTurns(dir, 1);
+      assert.deepStrictEqual(readSummaryState(dir), state);
+
+      undoTurns(dir, 3);
+      assert.strictEqual(readSummaryState(dir), null);
+      const regrown = [...readHistory(dir), ...[6, 7, 8, 9].flatMap(turn)];
+      assert.strictEqual(planSummaryUpdate(regrown, 2, readSummaryState(dir)).seedSummary, null);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("does nothing when there is no history or checkpoint", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-undo-"));
+    try {
+      const result = undoTurns(dir, 1);
+      assert.deepStrictEqual(result, { turnsUndone: 0, restoredFiles: [], historyLength: 0 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
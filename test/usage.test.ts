@@ -0,0 +1,217 @@
+/**
+ * Token usage: normalize SDK usage, price it, and total recorded turns per day or session.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { estimateCost, estimateTurnCost, formatUsage, toTokenUsage } from "../src/ai/usage.js";
+import { buildUsageReport, formatUsageRow } from "../src/commands/usage.js";
+import {
+  appendChatEvent,
+  appendUsageRecord,
+  readChatEvents,
+  readUsageLog,
+  writeChatEvents,
+  type ChatTurnEvent,
+  type UsageRecord,
+} from "../src/commands/chat-events.js";
+import { clearChatState } from "../src/commands/clear.js";
+
+function event(
+  timestamp: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): ChatTurnEvent {
+  const usage = { inputTokens, outputTokens, cachedInputTokens: 0, reasoningTokens: 0 };
+  return {
+    timestamp,
+    trace: { toolEvents: [], stepsUsed: 1, finishReason: "stop", usage, stepUsage: [usage] },
+    hasVerifiedWrite: false,
+    replyWasGuarded: false,
+    model,
+  };
+}
+
+function record(
+  timestamp: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): UsageRecord {
+  return {
+    timestamp,
+    model,
+    usage: event(timestamp, model, inputTokens, outputTokens).trace.usage,
+  };
+}
+
+describe("usage", () => {
+  it("reads v6 usage details and the older flat fields", () => {
+    assert.deepStrictEqual(
+      toTokenUsage({
+        inputTokens: 1000,
+        outputTokens: 200,
+        inputTokenDetails: { cacheReadTokens: 600 },
+        outputTokenDetails: { reasoningTokens: 50 },
+      }),
+      { inputTokens: 1000, outputTokens: 200, cachedInputTokens: 600, reasoningTokens: 50 }
+    );
+    assert.deepStrictEqual(
+      toTokenUsage({ inputTokens: 10, outputTokens: undefined, cachedInputTokens: 4 }),
+      { inputTokens: 10, outputTokens: 0, cachedInputTokens: 4, reasoningTokens: 0 }
+    );
+    assert.deepStrictEqual(toTokenUsage(undefined).inputTokens, 0);
+  });
+
+  it("prices cached input separately and formats a one-line summary", () => {
+    const usage = {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      cachedInputTokens: 500_000,
+      reasoningTokens: 20_000,
+    };
+    const cost = estimateCost(usage, { input: 2, output: 10, cachedInput: 0.5 });
+    assert.strictEqual(cost, 1 + 0.25 + 1);
+    assert.strictEqual(estimateCost(usage, undefined), undefined);
+    assert.strictEqual(
+      formatUsage(usage, cost),
+      "1,000,000 in (500,000 cached) · 100,000 out (20,000 reasoning) · $2.25"
+    );
+  });
+
+  it("prices summarization with the summary model", () => {
+    const million = {
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      cachedInputTokens: 0,
+      reasoningTokens: 0,
+    };
+    const prices = {
+      "gpt-5.2": { input: 2, output: 10 },
+      "gpt-5-mini": { input: 0.25, output: 2 },
+    };
+    assert.strictEqual(
+      estimateTurnCost(prices, {
+        model: "gpt-5.2",
+        usage: million,
+        summaryModel: "gpt-5-mini",
+        summaryUsage: million,
+      }),
+      2.25
+    );
+    assert.strictEqual(
+      estimateTurnCost(prices, { model: "gpt-5.2", usage: million, summaryUsage: million }),
+      4
+    );
+    assert.strictEqual(
+      estimateTurnCost(prices, {
+        model: "gpt-5.2",
+        usage: million,
+        summaryModel: "llama3.1",
+        summaryUsage: million,
+      }),
+      undefined
+    );
+  });
+
+  it("totals turns per day and per session, flagging unpriced models", () => {
+    const sessions = [
+      {
+        session: "default",
+        records: [
+          record("2026-03-02T09:00:00.000Z", "kimi-k2.5", 500, 50),
+          { timestamp: "2026-02-28T09:00:00.000Z" },
+        ],
+      },
+      {
+        session: "pricing-page",
+        records: [
+          record("2026-03-01T10:00:00.000Z", "gpt-5.2", 1_000_000, 0),
+          record("2026-03-01T11:00:00.000Z", "gpt-5.2", 1_000_000, 0),
+        ],
+      },
+    ];
+    const prices = { "gpt-5.2": { input: 1, output: 10 } };
+
+    const byDay = buildUsageReport(sessions, "day", prices);
+    assert.deepStrictEqual(
+      byDay.rows.map((r) => [r.label, r.turns, r.cost]),
+      [
+        ["2026-03-01", 2, 2],
+        ["2026-03-02", 1, 0],
+      ]
+    );
+    assert.strictEqual(byDay.turnsWithoutUsage, 1);
+    assert.deepStrictEqual(byDay.unpricedModels, ["kimi-k2.5"]);
+    assert.strictEqual(byDay.total.usage.inputTokens, 2_000_500);
+    assert.ok(formatUsageRow(byDay.total).endsWith("≥ $2.00"));
+    assert.ok(formatUsageRow(byDay.rows[1]).endsWith("cost n/a"));
+
+    const bySession = buildUsageReport(sessions, "session", prices);
+    assert.deepStrictEqual(
+      bySession.rows.map((r) => [r.label, r.turns, r.cost]),
+      [
+        ["default", 1, 0],
+        ["pricing-page", 2, 2],
+      ]
+    );
+  });
+
+  it("keeps usage past the event cap, clear and undo, including failed turns", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-usage-"));
+    try {
+      for (let i = 0; i < 205; i++) {
+        appendChatEvent(
+          dir,
+          event(`2026-03-01T10:00:${String(i % 60).padStart(2, "0")}.000Z`, "gpt-5.2", 1_000, 10)
+        );
+      }
+      assert.strictEqual(readChatEvents(dir).length, 200);
+      // Undo trims events; a failed turn records only its usage.
+      writeChatEvents(dir, readChatEvents(dir).slice(0, 100));
+      appendUsageRecord(dir, {
+        timestamp: "2026-03-02T09:00:00.000Z",
+        model: "gpt-5.2",
+        summaryUsage: {
+          inputTokens: 500,
+          outputTokens: 0,
+          cachedInputTokens: 0,
+          reasoningTokens: 0,
+        },
+      });
+      clearChatState(dir);
+      assert.deepStrictEqual(readChatEvents(dir), []);
+
+      const report = buildUsageReport([{ session: "default", records: readUsageLog(dir) }], "day", {
+        "gpt-5.2": { input: 1, output: 10 },
+      });
+      assert.strictEqual(report.total.turns, 206);
+      assert.strictEqual(report.total.usage.inputTokens, 205 * 1_000 + 500);
+      assert.strictEqual(report.total.usage.outputTokens, 205 * 10);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reads usage from the events of sessions recorded before the usage log", () => {
+    const dir = mkdtempSync(join(tmpdir(), "potion-kit-usage-"));
+    try {
+      // Written as an older version did: events only, no usage-log.json.
+      writeChatEvents(dir, [event("2026-03-01T10:00:00.000Z", "gpt-5.2", 1_000, 10)]);
+      rmSync(join(dir, ".potion-kit", "usage-log.json"), { force: true });
+      assert.strictEqual(readUsageLog(dir).length, 1);
+
+      clearChatState(dir);
+      appendChatEvent(dir, event("2026-03-02T10:00:00.000Z", "gpt-5.2", 2_000, 20));
+      assert.deepStrictEqual(
+        readUsageLog(dir).map((r) => r.usage?.inputTokens),
+        [1_000, 2_000]
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
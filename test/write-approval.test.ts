@@ -0,0 +1,101 @@
+/**
+ * Write approval: diff review answers (accept / reject / accept all).
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createWriteApprover, parseApprovalAnswer } from "../src/commands/write-approval.js";
+
+function scriptedApprover(answers: string[]) {
+  const asked: string[] = [];
+  const printed: string[] = [];
+  const approver = createWriteApprover({
+    ask: async (question) => {
+      asked.push(question);
+      return answers.shift() ?? "n";
+    },
+    print: (text) => printed.push(text),
+  });
+  return { approver, asked, printed };
+}
+
+const request = {
+  path: "src/styles/main.scss",
+  previousContent: ".nav { color: red; }\n",
+  nextContent: ".nav { color: green; }\n",
+};
+
+describe("write-approval", () => {
+  it("parses y / n / a answers", () => {
+    assert.strictEqual(parseApprovalAnswer("Y"), "accept");
+    assert.strictEqual(parseApprovalAnswer(" no "), "reject");
+    assert.strictEqual(parseApprovalAnswer("all"), "accept-all");
+    assert.strictEqual(parseApprovalAnswer("maybe"), null);
+  });
+
+  it("prints the diff and accepts or rejects per answer", async () => {
+    const { approver, printed } = scriptedApprover(["y", "n"]);
+    assert.strictEqual(await approver.approveWrite(request), true);
+    assert.ok(printed.some((text) => text.includes("color: green")));
+    assert.strictEqual(await approver.approveWrite(request), false);
+  });
+
+  it("asks again on unrecognized input", async () => {
+    const { approver, asked } = scriptedApprover(["what", "y"]);
+    assert.strictEqual(await approver.approveWrite(request), true);
+    assert.strictEqual(asked.length, 2);
+  });
+
+  it("accept-all skips questions until the next turn", async () => {
+    const { approver, asked } = scriptedApprover(["a", "n"]);
+    assert.strictEqual(await approver.approveWrite(request), true);
+    assert.strictEqual(await approver.approveWrite(request), true);
+    assert.strictEqual(asked.length, 1);
+    approver.resetForTurn();
+    assert.strictEqual(await approver.approveWrite(request), false);
+    assert.strictEqual(asked.length, 2);
+  });
+
+  it("does not ask when the write changes nothing", async () => {
+    const { approver, asked } = scriptedApprover([]);
+    const same = { ...request, nextContent: request.previousContent };
+    assert.strictEqual(await approver.approveWrite(same), true);
+    assert.strictEqual(asked.length, 0);
+  });
+
+  it("reviews parallel writes one at a time", async () => {
+    const { approver, asked } = scriptedApprover(["y", "n"]);
+    const results = await Promise.all([
+      approver.approveWrite(request),
+      approver.approveWrite({ ...request, path: "src/styles/other.scss" }),
+    ]);
+    assert.deepStrictEqual(results, [true, false]);
+    assert.strictEqual(asked.length, 2);
+  });
+
+  it("asks before deletes and moves, even without a content diff", async () => {
+    const { approver, asked, printed } = scriptedApprover(["y", "n"]);
+    const deleted = await approver.approveWrite({ ...request, nextContent: null });
+    const moved = await approver.approveWrite({
+      path: "src/styles/site.scss",
+      previousContent: null,
+      nextContent: request.previousContent,
+      movedFrom: request.path,
+    });
+    assert.strictEqual(deleted, true);
+    assert.strictEqual(moved, false);
+    assert.strictEqual(asked.length, 2);
+    assert.ok(printed.some((text) => text.includes("delete src/styles/main.scss")));
+    assert.ok(
+      printed.some((text) => text.includes("move src/styles/main.scss to src/styles/site.scss"))
+    );
+  });
+
+  it("asks before running a command and shares accept-all with writes", async () => {
+    const { approver, asked, printed } = scriptedApprover(["n", "a"]);
+    assert.strictEqual(await approver.approveCommand("harold-scripts build"), false);
+    assert.ok(printed.some((text) => text.includes("run harold-scripts build")));
+    assert.strictEqual(await approver.approveWrite(request), true);
+    assert.strictEqual(await approver.approveCommand("harold-scripts build"), true);
+    assert.strictEqual(asked.length, 2);
+  });
+});